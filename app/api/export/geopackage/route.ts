@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { toGeoPackage } from "@/lib/export/geopackage";
+import type { ParcelExportCollection } from "@/lib/export/gis";
+
+export const runtime = "nodejs";
+
+/**
+ * GeoPackage of the posted parcels ({ name, collection }); built here because
+ * SQLite needs sql.js's WebAssembly, which the browser bundle does not ship
+ */
+export async function POST(request: Request) {
+  let body: { name?: string; collection?: ParcelExportCollection };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 });
+  }
+
+  const { name, collection } = body;
+  if (!collection || !Array.isArray(collection.features)) {
+    return NextResponse.json({ error: "Provide a parcel FeatureCollection" }, { status: 400 });
+  }
+
+  try {
+    const tableName = (name || "parcels").trim() || "parcels";
+    const data = await toGeoPackage(collection, tableName);
+    return new NextResponse(new Uint8Array(data), {
+      headers: { "Content-Type": "application/geopackage+sqlite3" },
+    });
+  } catch (error) {
+    console.error("GeoPackage export failed:", error);
+    return NextResponse.json({ error: "GeoPackage export failed" }, { status: 500 });
+  }
+}
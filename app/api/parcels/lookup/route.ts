@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getParcelStore, searchParcelStore } from "@/lib/server/parcelStore";
+import type { BBox } from "@/lib/geo/spatialIndex";
+
+export const runtime = "nodejs";
+
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * Full parcel features by id (?ids=1,2,3), by area (?bbox=minLng,minLat,maxLng,maxLat)
+ * or by text search (?q=...&limit=5)
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const ids = searchParams.get("ids");
+  const query = searchParams.get("q");
+  const bboxParam = searchParams.get("bbox");
+
+  if (!ids && !query && !bboxParam) {
+    return NextResponse.json({ error: "Provide ids, bbox or q" }, { status: 400 });
+  }
+
+  const bbox = bboxParam ? bboxParam.split(",").map(Number) : null;
+  if (bbox && (bbox.length !== 4 || bbox.some(isNaN))) {
+    return NextResponse.json({ error: "bbox must be minLng,minLat,maxLng,maxLat" }, { status: 400 });
+  }
+
+  try {
+    const store = await getParcelStore();
+
+    if (ids) {
+      const features = ids
+        .split(",")
+        .map(id => store.byId.get(Number(id)))
+        .filter(feature => feature !== undefined);
+      return NextResponse.json({ type: "FeatureCollection", features });
+    }
+
+    if (bbox) {
+      return NextResponse.json({ type: "FeatureCollection", features: store.inBBox(bbox as BBox) });
+    }
+
+    const limit = Math.min(
+      MAX_SEARCH_LIMIT,
+      Math.max(1, Number(searchParams.get("limit")) || DEFAULT_SEARCH_LIMIT)
+    );
+    const features = searchParcelStore(store, query!, limit);
+    return NextResponse.json({ type: "FeatureCollection", features });
+  } catch (error) {
+    console.error("Parcel lookup failed:", error);
+    return NextResponse.json({ error: "Parcel data unavailable" }, { status: 500 });
+  }
+}
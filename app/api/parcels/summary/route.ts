@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getParcelStore } from "@/lib/server/parcelStore";
+
+export const runtime = "nodejs";
+// Read the data files at request time, not during the build
+export const dynamic = "force-dynamic";
+
+/**
+ * Dataset-wide counts, size bounds and value samples for the tile client
+ */
+export async function GET() {
+  try {
+    const store = await getParcelStore();
+    return NextResponse.json(store.summary);
+  } catch (error) {
+    console.error("Parcel summary failed:", error);
+    return NextResponse.json({ error: "Parcel data unavailable" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { getParcelStore } from "@/lib/server/parcelStore";
+import { parseOwnerRulesParam } from "@/lib/data/parcelTiles";
+import type { OwnerRule } from "@/lib/types/ownerRules";
+
+export const runtime = "nodejs";
+
+/**
+ * Serves one parcel Mapbox Vector Tile (layer "parcels") for z/x/y, with parcel
+ * allocations by the owner rules in ?rules= (the built-in rules when absent)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { z: string; x: string; y: string } }
+) {
+  const z = Number(params.z);
+  const x = Number(params.x);
+  const y = Number(params.y);
+  if (![z, x, y].every(Number.isInteger) || z < 0 || x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z) {
+    return new Response("Invalid tile coordinates", { status: 400 });
+  }
+
+  const rulesParam = new URL(request.url).searchParams.get("rules");
+  let rules: OwnerRule[] | undefined;
+  try {
+    rules = rulesParam ? parseOwnerRulesParam(rulesParam) : undefined;
+  } catch (error) {
+    return new Response(error instanceof Error ? error.message : "Invalid owner rules", { status: 400 });
+  }
+
+  try {
+    const store = await getParcelStore();
+    const tile = store.getTile(z, x, y, rules);
+    if (!tile) {
+      return new Response(null, { status: 204 });
+    }
+    return new Response(tile, {
+      headers: {
+        "Content-Type": "application/vnd.mapbox-vector-tile",
+        "Cache-Control": "public, max-age=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to build parcel tile:", error);
+    return new Response("Parcel data unavailable", { status: 500 });
+  }
+}
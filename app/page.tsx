@@ -2,20 +2,25 @@
 
 import { useEffect, useState } from "react";
 import dynamic from "next/dynamic";
-import type { FeatureCollection, Polygon, Point, GeoJsonProperties } from "geojson";
+import type { FeatureCollection, Point, GeoJsonProperties } from "geojson";
 
 import {
-  loadAddresses,
+  parseAddressesCsv,
+  ADDRESSES_URL,
   createAddressLookup,
   addressesToGeoJSON,
   type Address,
 } from "@/lib/data/addresses";
 import {
-  loadOwners,
+  parseOwnersCsv,
+  OWNERS_URL,
   createOwnerLookup,
+  applyValuePerAcre,
   type Owner,
 } from "@/lib/data/owners";
-import { loadParcels, type ParcelProperties } from "@/lib/data/parcels";
+import { parseParcels, PARCELS_URL, type ParcelFeatureCollection } from "@/lib/data/parcels";
+import { loadWithCache } from "@/lib/data/cache";
+import { PARCEL_TILES_ENABLED } from "@/lib/data/parcelTiles";
 
 // Dynamically import MapView to avoid SSR issues with Mapbox
 const MapView = dynamic(() => import("@/components/MapView"), {
@@ -31,7 +36,7 @@ const MapView = dynamic(() => import("@/components/MapView"), {
 });
 
 export default function Home() {
-  const [parcelsData, setParcelsData] = useState<FeatureCollection<Polygon, ParcelProperties> | null>(null);
+  const [parcelsData, setParcelsData] = useState<ParcelFeatureCollection | null>(null);
   const [addressesData, setAddressesData] = useState<FeatureCollection<Point, GeoJsonProperties> | null>(null);
   const [addressLookup, setAddressLookup] = useState<Map<string, Address>>(new Map());
   const [ownerLookup, setOwnerLookup] = useState<Map<string, Owner>>(new Map());
@@ -44,17 +49,18 @@ export default function Home() {
         setLoading(true);
         setError(null);
 
-        // Load parcels, addresses, and owners in parallel
+        // Load parcels, addresses, and owners in parallel (from cache when the source file is unchanged).
+        // In vector-tile mode the parcels are streamed by the map instead.
         const [parcels, addresses, owners] = await Promise.all([
-          loadParcels(),
-          loadAddresses(),
-          loadOwners(),
+          PARCEL_TILES_ENABLED ? null : loadWithCache("parcels", PARCELS_URL, parseParcels),
+          loadWithCache("addresses", ADDRESSES_URL, parseAddressesCsv),
+          loadWithCache("owners", OWNERS_URL, parseOwnersCsv),
         ]);
 
         setParcelsData(parcels);
         setAddressesData(addressesToGeoJSON(addresses));
         setAddressLookup(createAddressLookup(addresses));
-        setOwnerLookup(createOwnerLookup(owners));
+        setOwnerLookup(createOwnerLookup(parcels ? applyValuePerAcre(owners, parcels) : owners));
       } catch (err) {
         console.error("Error loading data:", err);
         setError(err instanceof Error ? err.message : "Failed to load map data");
@@ -107,13 +113,13 @@ export default function Home() {
         ownerLookup={ownerLookup}
       />
       
-      {/* Loading overlay */}
+      {/* Loading indicator - non-blocking so the map can be panned while data loads */}
       {loading && (
-        <div className="absolute inset-0 bg-slate-900/80 flex items-center justify-center z-50">
-          <div className="text-center">
-            <div className="inline-block w-12 h-12 border-4 border-teal-500 border-t-transparent rounded-full animate-spin mb-4" />
-            <p className="text-slate-300 font-medium">Loading parcel data...</p>
-            <p className="text-slate-500 text-sm mt-1">This may take a moment</p>
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-50 glass-panel rounded-xl px-4 py-2.5 flex items-center gap-3 pointer-events-none">
+          <div className="w-5 h-5 border-2 border-teal-500 border-t-transparent rounded-full animate-spin" />
+          <div>
+            <p className="text-slate-300 text-sm font-medium">Loading parcel data...</p>
+            <p className="text-slate-500 text-xs">This may take a moment</p>
           </div>
         </div>
       )}
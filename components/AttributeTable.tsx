@@ -0,0 +1,273 @@
+"use client";
+
+import { useState, useMemo, useRef, useEffect } from "react";
+import {
+  ATTRIBUTE_COLUMNS,
+  filterAttributeRows,
+  formatAttributeValue,
+  type AttributeColumnKey,
+  type AttributeRow,
+  type AttributeSort,
+  type ColumnFilters,
+} from "@/lib/data/attributeTable";
+import type { ParcelRecord } from "@/lib/data/parcels";
+import type { BBox } from "@/lib/geo/spatialIndex";
+import type { AttributeTableDock } from "@/lib/hooks/useAttributeTableDock";
+
+/**
+ * How clicked rows combine with the selection: plain click replaces it,
+ * Cmd/Ctrl toggles a row and Shift adds the range from the last clicked row
+ */
+export type AttributeTableSelectMode = "replace" | "toggle" | "add";
+
+interface AttributeTableProps {
+  rows: AttributeRow[];
+  selectedIds: Set<number>;
+  focusId: number | null;  // Most recently selected parcel; scrolled into view when selected on the map
+  dock: AttributeTableDock;
+  onDockChange: (dock: AttributeTableDock) => void;
+  viewportOnly: boolean;
+  // Undefined when the rows can only come from the view (vector-tile mode)
+  onViewportOnlyChange?: (viewportOnly: boolean) => void;
+  bounds: BBox | null;
+  onSelect: (parcels: ParcelRecord[], mode: AttributeTableSelectMode) => void;
+  onClose: () => void;
+}
+
+const ROW_HEIGHT = 28;
+// Rows rendered beyond the visible ones so fast scrolling does not flash blank
+const OVERSCAN = 10;
+
+const DOCK_CLASSES: Record<AttributeTableDock, string> = {
+  bottom: "left-20 right-4 bottom-4 h-72",
+  right: "right-4 top-36 bottom-24 w-[36rem]",
+};
+
+const GRID_TEMPLATE = ATTRIBUTE_COLUMNS.map(column => `${column.width}px`).join(" ");
+const TABLE_WIDTH = ATTRIBUTE_COLUMNS.reduce((sum, column) => sum + column.width, 0);
+
+function DockBottomIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <rect x="3" y="4" width="18" height="16" rx="2" strokeWidth={2} />
+      <path strokeLinecap="round" strokeWidth={2} d="M3 14h18" />
+    </svg>
+  );
+}
+
+function DockRightIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <rect x="3" y="4" width="18" height="16" rx="2" strokeWidth={2} />
+      <path strokeLinecap="round" strokeWidth={2} d="M14 4v16" />
+    </svg>
+  );
+}
+
+export default function AttributeTable({
+  rows,
+  selectedIds,
+  focusId,
+  dock,
+  onDockChange,
+  viewportOnly,
+  onViewportOnlyChange,
+  bounds,
+  onSelect,
+  onClose,
+}: AttributeTableProps) {
+  const [filters, setFilters] = useState<ColumnFilters>({});
+  const [sort, setSort] = useState<AttributeSort | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewHeight, setViewHeight] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Last clicked row: the anchor for Shift ranges, and not scrolled to when it echoes back as the focus
+  const anchorIdRef = useRef<number | null>(null);
+  const scrolledFocusRef = useRef<number | null>(null);
+
+  // Ignore bounds changes unless the table is restricted to the view
+  const viewBounds = viewportOnly ? bounds : null;
+  const visibleRows = useMemo(
+    () => filterAttributeRows(rows, filters, sort, viewBounds),
+    [rows, filters, sort, viewBounds]
+  );
+
+  const hasFilters = Object.values(filters).some(filter => filter?.trim());
+
+  // Track the scroll viewport's height as the panel is docked or resized
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Bring a parcel selected on the map into view (once, so panning or filtering does not jump back to it)
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (focusId === scrolledFocusRef.current) return;
+    scrolledFocusRef.current = focusId;
+    if (focusId === null || focusId === anchorIdRef.current || !element) return;
+    const index = visibleRows.findIndex(row => row.parcel.properties.OBJECTID === focusId);
+    if (index < 0) return;
+    // The sticky header covers the first two row heights
+    const top = index * ROW_HEIGHT;
+    const headerHeight = ROW_HEIGHT * 2;
+    if (top < element.scrollTop || top + ROW_HEIGHT > element.scrollTop + element.clientHeight - headerHeight) {
+      element.scrollTop = Math.max(0, top - (element.clientHeight - headerHeight) / 2);
+    }
+  }, [focusId, visibleRows]);
+
+  const handleSort = (key: AttributeColumnKey) => {
+    if (sort?.key !== key) setSort({ key, direction: "asc" });
+    else if (sort.direction === "asc") setSort({ key, direction: "desc" });
+    else setSort(null);
+  };
+
+  const handleRowClick = (e: React.MouseEvent, row: AttributeRow, index: number) => {
+    const objectId = row.parcel.properties.OBJECTID;
+    const anchorIndex = e.shiftKey && anchorIdRef.current !== null
+      ? visibleRows.findIndex(r => r.parcel.properties.OBJECTID === anchorIdRef.current)
+      : -1;
+    anchorIdRef.current = objectId;
+
+    if (anchorIndex >= 0) {
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      onSelect(visibleRows.slice(from, to + 1).map(r => r.parcel), "add");
+    } else {
+      onSelect([row.parcel], e.metaKey || e.ctrlKey ? "toggle" : "replace");
+    }
+  };
+
+  const firstIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastIndex = Math.min(visibleRows.length, Math.ceil((scrollTop + viewHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div className={`absolute z-20 glass-panel rounded-xl flex flex-col overflow-hidden ${DOCK_CLASSES[dock]}`}>
+      {/* Header */}
+      <div className="flex items-center gap-3 px-3 py-2 border-b border-slate-700/50">
+        <div className="text-sm text-white font-medium">Attribute Table</div>
+        <div className="text-xs text-slate-400">
+          {visibleRows.length.toLocaleString()}
+          {visibleRows.length !== rows.length && ` of ${rows.length.toLocaleString()}`} parcels
+          {selectedIds.size > 0 && ` · ${selectedIds.size} selected`}
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          {hasFilters && (
+            <button
+              onClick={() => setFilters({})}
+              className="text-xs text-slate-400 hover:text-white transition-colors"
+            >
+              Clear filters
+            </button>
+          )}
+          <label
+            className="flex items-center gap-1.5 text-xs text-slate-400"
+            title={onViewportOnlyChange ? "Only list parcels in the current map view" : "Tiles only hold the parcels in view"}
+          >
+            <input
+              type="checkbox"
+              checked={viewportOnly}
+              disabled={!onViewportOnlyChange}
+              onChange={(e) => onViewportOnlyChange?.(e.target.checked)}
+              className="accent-purple-500"
+            />
+            In view only
+          </label>
+          <div className="flex items-center pl-2 border-l border-slate-700 gap-0.5">
+            <button
+              onClick={() => onDockChange("bottom")}
+              title="Dock to the bottom"
+              className={`p-1 rounded-md transition-colors ${dock === "bottom" ? "bg-slate-700 text-white" : "text-slate-400 hover:text-white"}`}
+            >
+              <DockBottomIcon />
+            </button>
+            <button
+              onClick={() => onDockChange("right")}
+              title="Dock to the right"
+              className={`p-1 rounded-md transition-colors ${dock === "right" ? "bg-slate-700 text-white" : "text-slate-400 hover:text-white"}`}
+            >
+              <DockRightIcon />
+            </button>
+          </div>
+          <button
+            onClick={onClose}
+            title="Close table"
+            className="p-1 text-slate-400 hover:text-white rounded-md transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Rows - only those in (or near) the scroll viewport are rendered */}
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="flex-1 overflow-auto"
+      >
+        <div style={{ width: TABLE_WIDTH }}>
+          <div className="sticky top-0 z-10 bg-slate-900/95 border-b border-slate-700/50">
+            <div className="grid" style={{ gridTemplateColumns: GRID_TEMPLATE, height: ROW_HEIGHT }}>
+              {ATTRIBUTE_COLUMNS.map(column => (
+                <button
+                  key={column.key}
+                  onClick={() => handleSort(column.key)}
+                  className={`px-2 text-xs font-medium text-slate-300 hover:text-white truncate ${column.numeric ? "text-right" : "text-left"}`}
+                >
+                  {column.label}
+                  {sort?.key === column.key && (sort.direction === "asc" ? " ▲" : " ▼")}
+                </button>
+              ))}
+            </div>
+            <div className="grid" style={{ gridTemplateColumns: GRID_TEMPLATE, height: ROW_HEIGHT }}>
+              {ATTRIBUTE_COLUMNS.map(column => (
+                <div key={column.key} className="px-1 py-0.5">
+                  <input
+                    type="text"
+                    value={filters[column.key] || ""}
+                    onChange={(e) => setFilters(prev => ({ ...prev, [column.key]: e.target.value }))}
+                    placeholder={column.numeric ? ">10, 5-20" : "Filter"}
+                    className="w-full h-full px-1.5 bg-slate-800 border border-slate-600 rounded text-white text-xs placeholder-slate-500 focus:outline-none focus:border-purple-500"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="relative" style={{ height: visibleRows.length * ROW_HEIGHT }}>
+            {visibleRows.slice(firstIndex, lastIndex).map((row, i) => {
+              const index = firstIndex + i;
+              const objectId = row.parcel.properties.OBJECTID;
+              const isSelected = selectedIds.has(objectId);
+              return (
+                <div
+                  key={objectId}
+                  onClick={(e) => handleRowClick(e, row, index)}
+                  className={`absolute left-0 right-0 grid items-center cursor-pointer select-none text-xs transition-colors ${
+                    isSelected ? "bg-purple-600/40 text-white" : index % 2 ? "bg-slate-800/30 text-slate-300 hover:bg-slate-700/50" : "text-slate-300 hover:bg-slate-700/50"
+                  }`}
+                  style={{ gridTemplateColumns: GRID_TEMPLATE, height: ROW_HEIGHT, top: index * ROW_HEIGHT }}
+                >
+                  {ATTRIBUTE_COLUMNS.map(column => (
+                    <div key={column.key} className={`px-2 truncate ${column.numeric ? "text-right" : ""}`}>
+                      {formatAttributeValue(column.key, row.values[column.key])}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+
+          {visibleRows.length === 0 && (
+            <div className="text-xs text-slate-500 text-center py-6">No parcels match</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
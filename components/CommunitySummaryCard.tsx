@@ -0,0 +1,112 @@
+"use client";
+
+import type { DivisionName } from "@/lib/geo/electoral-divisions";
+import { ELECTORAL_DIVISION_COLORS } from "@/lib/geo/electoral-divisions";
+import type { CommunityStats } from "@/lib/data/communities";
+
+interface CommunitySummaryCardProps {
+  name: string;
+  division: DivisionName | null;
+  stats: CommunityStats | null;
+  addressCount: number;
+  onClose: () => void;
+}
+
+function formatShare(part: number, whole: number): string {
+  if (whole === 0) return "—";
+  return `${((part / whole) * 100).toFixed(1)}%`;
+}
+
+function StatRow({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="flex items-baseline justify-between py-2 border-b border-slate-700/50 last:border-0">
+      <dt className="text-xs text-slate-400 uppercase tracking-wider">{label}</dt>
+      <dd className="text-right">
+        <span className="text-sm text-white font-medium">{value}</span>
+        {detail && <div className="text-xs text-slate-500">{detail}</div>}
+      </dd>
+    </div>
+  );
+}
+
+export default function CommunitySummaryCard({
+  name,
+  division,
+  stats,
+  addressCount,
+  onClose,
+}: CommunitySummaryCardProps) {
+  const parcelCount = stats?.parcelCount ?? 0;
+  const totalSqmt = stats?.totalSqmt ?? 0;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/30 z-20 md:hidden"
+        onClick={onClose}
+      />
+
+      {/* Panel */}
+      <div className="absolute right-4 top-4 w-full max-w-sm z-30 glass-panel rounded-xl overflow-hidden flex flex-col animate-slide-in">
+        {/* Header */}
+        <div className="flex items-start justify-between p-4 border-b border-slate-700">
+          <div>
+            <div className="text-xs text-slate-400 uppercase tracking-wider mb-1">Community</div>
+            <h2 className="text-lg font-semibold text-white">{name}</h2>
+            {division ? (
+              <span
+                className="inline-flex items-center gap-1.5 mt-1 text-xs"
+                style={{ color: ELECTORAL_DIVISION_COLORS[division] }}
+              >
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ELECTORAL_DIVISION_COLORS[division] }} />
+                {division.charAt(0) + division.slice(1).toLowerCase()} Division
+              </span>
+            ) : (
+              <span className="text-xs text-amber-400 mt-1 inline-block">No electoral division assigned</span>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-slate-700 transition-colors"
+          >
+            <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Statistics */}
+        <dl className="p-4">
+          <StatRow label="Parcels" value={parcelCount.toLocaleString()} />
+          <StatRow label="Total Acreage" value={`${(totalSqmt / 4046.86).toFixed(1)} ac`} />
+          <StatRow
+            label="Owner-linked"
+            value={formatShare(stats?.ownerLinkedCount ?? 0, parcelCount)}
+            detail={`${(stats?.ownerLinkedCount ?? 0).toLocaleString()} parcels`}
+          />
+          <StatRow
+            label="Government-held"
+            value={formatShare(stats?.governmentSqmt ?? 0, totalSqmt)}
+            detail={`of acreage · ${(stats?.governmentCount ?? 0).toLocaleString()} parcels`}
+          />
+          <StatRow label="Addresses" value={addressCount.toLocaleString()} />
+        </dl>
+      </div>
+
+      <style jsx>{`
+        @keyframes slideIn {
+          from {
+            transform: translateX(100%);
+          }
+          to {
+            transform: translateX(0);
+          }
+        }
+        .animate-slide-in {
+          animation: slideIn 0.3s ease-out;
+        }
+      `}</style>
+    </>
+  );
+}
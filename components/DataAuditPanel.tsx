@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import type { ParcelFeatureCollection } from "@/lib/data/parcels";
+import type { Address } from "@/lib/data/addresses";
+import type { Owner } from "@/lib/data/owners";
+import {
+  runLinkageAudit,
+  AUDIT_ISSUE_TYPES,
+  AUDIT_ISSUE_LABELS,
+  type AuditIssue,
+  type AuditIssueType,
+} from "@/lib/data/audit";
+import { toCsv, downloadCsv } from "@/lib/export/csv";
+
+interface DataAuditPanelProps {
+  parcelsData: ParcelFeatureCollection | null;
+  addressLookup: Map<string, Address>;
+  ownerLookup: Map<string, Owner>;
+  onSelectIssue: (issue: AuditIssue) => void;
+}
+
+// Rendering tens of thousands of rows at once stalls the nav; grow the list on demand
+const PAGE_SIZE = 200;
+
+export default function DataAuditPanel({
+  parcelsData,
+  addressLookup,
+  ownerLookup,
+  onSelectIssue,
+}: DataAuditPanelProps) {
+  const [typeFilter, setTypeFilter] = useState<AuditIssueType | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [activeIssueId, setActiveIssueId] = useState<string | null>(null);
+
+  const issues = useMemo(() => {
+    if (!parcelsData) return [];
+    return runLinkageAudit(parcelsData, addressLookup, ownerLookup);
+  }, [parcelsData, addressLookup, ownerLookup]);
+
+  const countsByType = useMemo(() => {
+    const counts = {} as Record<AuditIssueType, number>;
+    for (const type of AUDIT_ISSUE_TYPES) counts[type] = 0;
+    for (const issue of issues) counts[issue.type]++;
+    return counts;
+  }, [issues]);
+
+  const filteredIssues = typeFilter ? issues.filter(issue => issue.type === typeFilter) : issues;
+
+  const handleFilter = (type: AuditIssueType) => {
+    setTypeFilter(typeFilter === type ? null : type);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleExport = () => {
+    const csv = toCsv(
+      ["Issue", "LV Number", "Title", "Detail", "Parcel OBJECTIDs", "Longitude", "Latitude"],
+      issues.map(issue => [
+        AUDIT_ISSUE_LABELS[issue.type],
+        issue.lvNumber,
+        issue.title,
+        issue.detail,
+        issue.objectIds.join(" "),
+        issue.coordinates?.[0],
+        issue.coordinates?.[1],
+      ])
+    );
+    downloadCsv(csv, "linkage audit.csv");
+  };
+
+  if (!parcelsData) {
+    return (
+      <div className="text-xs text-slate-500 text-center py-6 px-3">
+        Parcel data is still loading
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 pb-2">
+      {/* Summary */}
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm text-white font-medium">Linkage Audit</div>
+          <div className="text-xs text-slate-500">
+            {issues.length.toLocaleString()} issues across {parcelsData.features.length.toLocaleString()} parcels
+          </div>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={issues.length === 0}
+          className="px-2.5 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+          title="Download every issue as CSV"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      {/* Issue type filters */}
+      <div className="space-y-1">
+        {AUDIT_ISSUE_TYPES.map((type) => (
+          <button
+            key={type}
+            onClick={() => handleFilter(type)}
+            className={`w-full flex items-center justify-between px-2.5 py-1.5 rounded-lg text-xs transition-colors ${
+              typeFilter === type
+                ? "bg-purple-600/20 text-purple-300 border border-purple-500/50"
+                : "bg-slate-800/50 text-slate-300 border border-transparent hover:bg-slate-700/50"
+            }`}
+          >
+            <span>{AUDIT_ISSUE_LABELS[type]}</span>
+            <span className={countsByType[type] > 0 ? "text-amber-400" : "text-slate-500"}>
+              {countsByType[type].toLocaleString()}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* Issue list */}
+      {filteredIssues.length === 0 ? (
+        <div className="text-xs text-slate-500 text-center py-4">No issues found</div>
+      ) : (
+        <div className="space-y-1.5">
+          {filteredIssues.slice(0, visibleCount).map((issue) => (
+            <button
+              key={issue.id}
+              onClick={() => {
+                setActiveIssueId(issue.id);
+                onSelectIssue(issue);
+              }}
+              disabled={!issue.coordinates}
+              className={`w-full text-left rounded-lg px-2.5 py-2 border transition-colors ${
+                activeIssueId === issue.id
+                  ? "bg-purple-600/20 border-purple-500/50"
+                  : "bg-slate-800/50 border-transparent hover:bg-slate-700/50 hover:border-slate-600"
+              } disabled:cursor-default disabled:hover:bg-slate-800/50 disabled:hover:border-transparent`}
+              title={issue.coordinates ? "Fly to this issue" : "No location to fly to"}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-white truncate">{issue.title}</span>
+                {!typeFilter && (
+                  <span className="text-[10px] text-slate-500 flex-shrink-0">
+                    {AUDIT_ISSUE_LABELS[issue.type]}
+                  </span>
+                )}
+              </div>
+              <div className="text-xs text-slate-400 mt-0.5 truncate">{issue.detail}</div>
+            </button>
+          ))}
+          {filteredIssues.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+              className="w-full py-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+            >
+              Show more ({(filteredIssues.length - visibleCount).toLocaleString()} remaining)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,12 +3,19 @@
 import type { ParcelProperties } from "@/lib/data/parcels";
 import type { Address } from "@/lib/data/addresses";
 import type { Owner } from "@/lib/data/owners";
-import { formatParcelSize } from "@/lib/data/parcels";
+import { formatParcelSize, formatSizeDiscrepancy, sizeDiscrepancyPercent } from "@/lib/data/parcels";
+import { formatLandValue } from "@/lib/data/owners";
+import { ALLOCATION_COLORS, ALLOCATION_LABELS, type ParcelAllocation } from "@/lib/data/allocation";
 
 interface DetailsPanelProps {
   parcel: ParcelProperties | null;
   linkedAddress: Address | null;
   owner: Owner | null;
+  allocation: ParcelAllocation;
+  geodesicArea: number | null;    // Area of the digitized geometry in m²
+  sizeMismatchThreshold: number;  // Percent
+  portfolioParcelCount: number;
+  onViewPortfolio: () => void;
   onClose: () => void;
 }
 
@@ -26,10 +33,18 @@ export default function DetailsPanel({
   parcel,
   linkedAddress,
   owner,
+  allocation,
+  geodesicArea,
+  sizeMismatchThreshold,
+  portfolioParcelCount,
+  onViewPortfolio,
   onClose,
 }: DetailsPanelProps) {
   if (!parcel) return null;
 
+  const discrepancy = sizeDiscrepancyPercent(parcel.SIZE_SQMT, geodesicArea);
+  const isSizeMismatch = discrepancy !== null && Math.abs(discrepancy) > sizeMismatchThreshold;
+
   return (
     <>
       {/* Backdrop */}
@@ -80,6 +95,13 @@ export default function DetailsPanel({
             {parcel.LOCATION && (
               <p className="text-slate-300 text-sm">{parcel.LOCATION}</p>
             )}
+            <span
+              className="inline-flex items-center gap-1.5 mt-2 px-2 py-0.5 text-xs rounded-full border"
+              style={{ color: ALLOCATION_COLORS[allocation], borderColor: ALLOCATION_COLORS[allocation] }}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ALLOCATION_COLORS[allocation] }} />
+              {ALLOCATION_LABELS[allocation]}
+            </span>
           </div>
 
           {/* Owner Information - First Section */}
@@ -91,8 +113,20 @@ export default function DetailsPanel({
               <dl className="glass-panel p-3 rounded-lg border border-emerald-500/30">
                 <PropertyRow label="Owner Name" value={owner.ownerName} />
                 <PropertyRow label="Land Value" value={owner.landValue} />
+                <PropertyRow
+                  label="Value per Acre"
+                  value={owner.valuePerAcre !== null ? formatLandValue(owner.valuePerAcre) : null}
+                />
                 <PropertyRow label="Valuation Number" value={owner.valuationNumber} />
               </dl>
+              {portfolioParcelCount > 1 && (
+                <button
+                  onClick={onViewPortfolio}
+                  className="mt-2 w-full px-3 py-1.5 text-xs bg-amber-600/80 hover:bg-amber-500 text-white rounded-lg transition-colors"
+                >
+                  View all {portfolioParcelCount} parcels held by this owner
+                </button>
+              )}
             </div>
           ) : parcel.LV_NUMBER ? (
             <div className="mb-6">
@@ -138,7 +172,20 @@ export default function DetailsPanel({
               <PropertyRow label="Parcel ID" value={parcel.PID} />
               <PropertyRow label="LV Number" value={parcel.LV_NUMBER} />
               <PropertyRow label="Volume/Folio" value={parcel.VOL_FOL} />
-              <PropertyRow label="Size" value={formatParcelSize(parcel.SIZE_SQMT)} />
+              <PropertyRow label="Recorded Size" value={formatParcelSize(parcel.SIZE_SQMT)} />
+              {geodesicArea !== null && (
+                <div className="py-2 border-b border-slate-700/50 last:border-0">
+                  <dt className="text-xs text-slate-400 uppercase tracking-wider mb-1">Digitized Area</dt>
+                  <dd className="text-sm text-white">
+                    {formatParcelSize(Math.round(geodesicArea))}
+                    {discrepancy !== null && (
+                      <span className={`ml-2 text-xs ${isSizeMismatch ? "text-amber-400 font-medium" : "text-slate-400"}`}>
+                        {formatSizeDiscrepancy(discrepancy)}{isSizeMismatch && " · size mismatch"}
+                      </span>
+                    )}
+                  </dd>
+                </div>
+              )}
               <PropertyRow label="Street Address" value={parcel.STREET_ADD} />
               <PropertyRow label="Scheme Address" value={parcel.SCHEME_ADD} />
               <PropertyRow label="Full Address" value={parcel.FULLADDRES} />
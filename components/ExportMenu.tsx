@@ -0,0 +1,95 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { GIS_EXPORT_FORMATS, GIS_EXPORT_FORMAT_LABELS, type GisExportFormat } from "@/lib/export/gis";
+import { SPREADSHEET_FORMATS, SPREADSHEET_FORMAT_LABELS, type SpreadsheetFormat } from "@/lib/export/spreadsheet";
+
+export type ExportFormat = SpreadsheetFormat | GisExportFormat;
+
+const FORMAT_GROUPS: { label: string; formats: ExportFormat[] }[] = [
+  { label: "Spreadsheet", formats: SPREADSHEET_FORMATS },
+  { label: "GIS", formats: GIS_EXPORT_FORMATS },
+];
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  ...SPREADSHEET_FORMAT_LABELS,
+  ...GIS_EXPORT_FORMAT_LABELS,
+};
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+  label?: string;
+  title?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+export default function ExportMenu({
+  onExport,
+  label = "Data",
+  title = "Export as a spreadsheet or GIS file",
+  disabled,
+  className = "px-3 py-1.5 bg-slate-700 hover:bg-slate-600",
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const [failed, setFailed] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusyFormat(format);
+    setFailed(false);
+    try {
+      await onExport(format);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Export failed:", error);
+      setFailed(true);
+    }
+    setBusyFormat(null);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`text-xs text-white rounded-lg transition-colors disabled:opacity-50 ${className}`}
+        title={title}
+      >
+        {label} ▾
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-44 z-50 glass-panel rounded-lg p-1 shadow-xl">
+          {FORMAT_GROUPS.map(group => (
+            <div key={group.label}>
+              <div className="px-2.5 pt-1.5 pb-0.5 text-[10px] uppercase tracking-wider text-slate-500">{group.label}</div>
+              {group.formats.map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={busyFormat !== null}
+                  className="w-full text-left px-2.5 py-1.5 text-xs text-slate-200 hover:bg-slate-700/70 disabled:opacity-50 rounded-md transition-colors"
+                >
+                  {busyFormat === format ? "Exporting..." : FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+          ))}
+          {failed && <div className="px-2.5 py-1 text-xs text-red-400">Export failed</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,22 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import type { MapStyle } from "./MapView";
-import type { DivisionName } from "@/lib/geo/electoral-divisions";
+import type { MapStyle, ParcelColorMode } from "./MapView";
+import type { DivisionName, UnmatchedCommunity } from "@/lib/geo/electoral-divisions";
 import { ELECTORAL_DIVISION_COLORS } from "@/lib/geo/electoral-divisions";
+import {
+  ALLOCATION_COLORS,
+  ALLOCATION_LABELS,
+  PARCEL_ALLOCATIONS,
+  type ParcelAllocation,
+} from "@/lib/data/allocation";
+import {
+  CLASSIFICATION_METHOD_LABELS,
+  NO_VALUE_COLOR,
+  VALUE_METRIC_LABELS,
+  type ClassificationMethod,
+  type ValueMetric,
+} from "@/lib/data/valuation";
 
 // Chevron icon for collapse/expand
 function ChevronIcon({ expanded }: { expanded: boolean }) {
@@ -35,27 +48,48 @@ interface LayerControlsProps {
   visibleLayers: {
     boundary: boolean;
     divisions: boolean;
+    communities: boolean;
     parcels: boolean;
     addresses: boolean;
     starlink: boolean;
     roads: boolean;
     water: boolean;
   };
-  onToggleLayer: (layer: "boundary" | "divisions" | "parcels" | "addresses" | "starlink" | "roads" | "water") => void;
+  onToggleLayer: (layer: "boundary" | "divisions" | "communities" | "parcels" | "addresses" | "starlink" | "roads" | "water") => void;
   mapStyle: MapStyle;
   onToggleMapStyle: () => void;
   nemOnly: boolean;
   onToggleNemOnly: () => void;
   ownersOnly: boolean;
   onToggleOwnersOnly: () => void;
+  sizeMismatchOnly: boolean;
+  onToggleSizeMismatchOnly: () => void;
+  sizeMismatchThreshold: number;  // Percent
+  onSizeMismatchThresholdChange: (percent: number) => void;
   visibleDivisions: Record<DivisionName, boolean>;
   onToggleDivision: (division: DivisionName) => void;
+  unmatchedCommunities: UnmatchedCommunity[];
   parcelCounts?: { total: number; nem: number; withOwners: number; displayed: number };
   sizeRange: SizeRange;
   sizeBounds: SizeRange;
   onSizeRangeChange: (range: SizeRange) => void;
+  parcelColorMode: ParcelColorMode;
+  onParcelColorModeChange: (mode: ParcelColorMode) => void;
+  visibleAllocations: Record<ParcelAllocation, boolean>;
+  onToggleAllocation: (allocation: ParcelAllocation) => void;
+  valueMetric: ValueMetric;
+  onValueMetricChange: (metric: ValueMetric) => void;
+  classificationMethod: ClassificationMethod;
+  onClassificationMethodChange: (method: ClassificationMethod) => void;
+  valueLegend: { color: string; label: string }[];
 }
 
+const PARCEL_COLOR_MODES: { mode: ParcelColorMode; label: string }[] = [
+  { mode: "division", label: "Division" },
+  { mode: "allocation", label: "Allocation" },
+  { mode: "value", label: "Value" },
+];
+
 // Icon components for legend
 function ParcelIcon({ color, opacity = 1 }: { color: string; opacity?: number }) {
   return (
@@ -385,12 +419,26 @@ export default function LayerControls({
   onToggleNemOnly,
   ownersOnly,
   onToggleOwnersOnly,
+  sizeMismatchOnly,
+  onToggleSizeMismatchOnly,
+  sizeMismatchThreshold,
+  onSizeMismatchThresholdChange,
   visibleDivisions,
   onToggleDivision,
+  unmatchedCommunities,
   parcelCounts,
   sizeRange,
   sizeBounds,
   onSizeRangeChange,
+  parcelColorMode,
+  onParcelColorModeChange,
+  visibleAllocations,
+  onToggleAllocation,
+  valueMetric,
+  onValueMetricChange,
+  classificationMethod,
+  onClassificationMethodChange,
+  valueLegend,
 }: LayerControlsProps) {
   const [isExpanded, setIsExpanded] = useState(true);
 
@@ -449,7 +497,23 @@ export default function LayerControls({
                 color={ELECTORAL_DIVISION_COLORS.WALDERSTON}
                 icon="parcel"
               />
+              {unmatchedCommunities.length > 0 && (
+                <div
+                  className="text-[10px] text-amber-400 leading-snug pt-1"
+                  title={unmatchedCommunities.map(c => `${c.communityName || c.communityId}: ${c.reason}`).join("\n")}
+                >
+                  {unmatchedCommunities.length} {unmatchedCommunities.length === 1 ? "community has" : "communities have"} no division:{" "}
+                  {unmatchedCommunities.map(c => c.communityName || c.communityId).join(", ")}
+                </div>
+              )}
             </div>
+            <Toggle
+              active={visibleLayers.communities}
+              onClick={() => onToggleLayer("communities")}
+              label="Communities"
+              color="#E2E8F0"
+              icon="boundary"
+            />
             <Toggle
               active={visibleLayers.parcels}
               onClick={() => onToggleLayer("parcels")}
@@ -509,6 +573,95 @@ export default function LayerControls({
                 {parcelCounts.withOwners.toLocaleString()} with owner data
               </div>
             )}
+            <Toggle
+              active={sizeMismatchOnly}
+              onClick={onToggleSizeMismatchOnly}
+              label="Size Mismatch"
+              color="#F59E0B"
+            />
+            <label className="flex items-center gap-2 pl-5 text-xs text-slate-400">
+              Digitized area differs by over
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={sizeMismatchThreshold}
+                onChange={(e) => onSizeMismatchThresholdChange(Number(e.target.value))}
+                className="w-14 px-1.5 py-0.5 bg-slate-800 border border-slate-600 rounded text-white focus:outline-none focus:border-teal-500"
+              />
+              %
+            </label>
+          </div>
+
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400 mb-3">
+            Parcel Colours
+          </h3>
+
+          <div className="flex gap-2 mb-3">
+            {PARCEL_COLOR_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => onParcelColorModeChange(mode)}
+                className={`flex-1 px-2 py-2 text-xs font-medium rounded-lg transition-colors ${
+                  parcelColorMode === mode
+                    ? "bg-blue-600 text-white"
+                    : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Valuation choropleth options and legend */}
+          {parcelColorMode === "value" && (
+            <div className="space-y-2 mb-3">
+              <div className="flex gap-2">
+                <select
+                  value={valueMetric}
+                  onChange={(e) => onValueMetricChange(e.target.value as ValueMetric)}
+                  className="flex-1 px-2 py-1.5 text-xs bg-slate-800 border border-slate-600 rounded text-white focus:outline-none focus:border-teal-500"
+                >
+                  {(Object.keys(VALUE_METRIC_LABELS) as ValueMetric[]).map((metric) => (
+                    <option key={metric} value={metric}>{VALUE_METRIC_LABELS[metric]}</option>
+                  ))}
+                </select>
+                <select
+                  value={classificationMethod}
+                  onChange={(e) => onClassificationMethodChange(e.target.value as ClassificationMethod)}
+                  className="flex-1 px-2 py-1.5 text-xs bg-slate-800 border border-slate-600 rounded text-white focus:outline-none focus:border-teal-500"
+                >
+                  {(Object.keys(CLASSIFICATION_METHOD_LABELS) as ClassificationMethod[]).map((method) => (
+                    <option key={method} value={method}>{CLASSIFICATION_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1 pl-1">
+                {valueLegend.map(({ color, label }) => (
+                  <div key={label} className="flex items-center gap-2 text-xs text-slate-300">
+                    <ParcelIcon color={color} />
+                    {label}
+                  </div>
+                ))}
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  <ParcelIcon color={NO_VALUE_COLOR} />
+                  No value recorded
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1 border-b border-slate-700 pb-3 mb-3">
+            {PARCEL_ALLOCATIONS.map((allocation) => (
+              <Toggle
+                key={allocation}
+                active={visibleAllocations[allocation]}
+                onClick={() => onToggleAllocation(allocation)}
+                label={ALLOCATION_LABELS[allocation]}
+                color={ALLOCATION_COLORS[allocation]}
+                icon="parcel"
+              />
+            ))}
           </div>
 
           <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400 mb-4 mt-1">
@@ -0,0 +1,248 @@
+"use client";
+
+import type { DrawTool } from "@/lib/hooks/useMapDrawing";
+import { DRAW_TOOL_HINTS } from "@/lib/hooks/useMapDrawing";
+import type { SelectionMode } from "@/lib/geo/shapeSelection";
+import { SELECTION_MODE_LABELS } from "@/lib/geo/shapeSelection";
+import type { MeasurementUnits } from "@/lib/geo/measure";
+import { MEASUREMENT_UNIT_LABELS } from "@/lib/geo/measure";
+
+/**
+ * Map tools that capture a drawn shape; at most one is active at a time
+ */
+export type MapTool = "lasso" | "polygon" | "rectangle" | "corridor" | "measure-distance" | "measure-area";
+
+export const MAP_TOOL_SHAPES: Record<MapTool, DrawTool> = {
+  lasso: "lasso",
+  polygon: "polygon",
+  rectangle: "rectangle",
+  corridor: "line",
+  "measure-distance": "line",
+  "measure-area": "polygon",
+};
+
+export function isMeasureTool(tool: MapTool | null): boolean {
+  return tool === "measure-distance" || tool === "measure-area";
+}
+
+interface MapToolbarProps {
+  activeTool: MapTool | null;
+  onToolChange: (tool: MapTool | null) => void;
+  selectionMode: SelectionMode;
+  onSelectionModeChange: (mode: SelectionMode) => void;
+  corridorWidth: number;  // Right-of-way width in metres
+  onCorridorWidthChange: (width: number) => void;
+  measurementUnits: MeasurementUnits;
+  onMeasurementUnitsChange: (units: MeasurementUnits) => void;
+  snapToVertices: boolean;
+  onSnapToVerticesChange: (snap: boolean) => void;
+  isTableOpen: boolean;
+  onToggleTable: () => void;
+  raised?: boolean;  // Lifted clear of an attribute table docked along the bottom
+  children?: React.ReactNode;  // Shown above the toolbar (e.g. measurement results)
+}
+
+const SELECTION_MODES: SelectionMode[] = ["add", "subtract", "replace"];
+const MEASUREMENT_UNITS: MeasurementUnits[] = ["metric", "imperial"];
+
+function LassoIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4c4.97 0 9 2.69 9 6s-4.03 6-9 6c-1.3 0-2.53-.18-3.64-.51M3 10c0-3.31 4.03-6 9-6M3 10c0 1.7 1.06 3.23 2.77 4.32M5.77 14.32C5 15 4.5 16 5 17.5c.6 1.8 3 2.5 3 2.5" />
+    </svg>
+  );
+}
+
+function PolygonIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8l7-5 7 6-3 11H7L5 8z" />
+    </svg>
+  );
+}
+
+function RectangleIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <rect x="4" y="6" width="16" height="12" rx="1" strokeWidth={2} strokeDasharray="3 2" />
+    </svg>
+  );
+}
+
+function CorridorIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 20L10 4M14 4l6 16M12 6v2m0 4v2m0 4v2" />
+    </svg>
+  );
+}
+
+function RulerIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 17L17 3l4 4L7 21l-4-4zM7 13l2 2m1-5l2 2m1-5l2 2" />
+    </svg>
+  );
+}
+
+function AreaIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 20V4h16v16H4zm0-8h16M12 4v16" />
+    </svg>
+  );
+}
+
+function TableIcon() {
+  return (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18M10 4v16M5 4h14a2 2 0 012 2v12a2 2 0 01-2 2H5a2 2 0 01-2-2V6a2 2 0 012-2z" />
+    </svg>
+  );
+}
+
+function ToolButton({
+  active,
+  onClick,
+  title,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`p-2 rounded-lg transition-colors ${
+        active ? "bg-purple-600 text-white" : "text-slate-300 hover:bg-slate-700 hover:text-white"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+export default function MapToolbar({
+  activeTool,
+  onToolChange,
+  selectionMode,
+  onSelectionModeChange,
+  corridorWidth,
+  onCorridorWidthChange,
+  measurementUnits,
+  onMeasurementUnitsChange,
+  snapToVertices,
+  onSnapToVerticesChange,
+  isTableOpen,
+  onToggleTable,
+  raised,
+  children,
+}: MapToolbarProps) {
+  const toggleTool = (tool: MapTool) => onToolChange(activeTool === tool ? null : tool);
+
+  return (
+    <div className={`absolute right-4 z-20 flex flex-col items-end gap-2 ${raised ? "bottom-80" : "bottom-10"}`}>
+      {children}
+
+      {/* Hint for the active tool */}
+      {activeTool && (
+        <div className="glass-panel rounded-lg px-3 py-1.5 text-xs text-slate-300">
+          {DRAW_TOOL_HINTS[MAP_TOOL_SHAPES[activeTool]]} · Esc to cancel
+        </div>
+      )}
+
+      <div className="glass-panel rounded-xl p-1.5 flex items-center gap-1">
+        {/* Selection shapes */}
+        <ToolButton active={activeTool === "lasso"} onClick={() => toggleTool("lasso")} title="Lasso select">
+          <LassoIcon />
+        </ToolButton>
+        <ToolButton active={activeTool === "polygon"} onClick={() => toggleTool("polygon")} title="Polygon select">
+          <PolygonIcon />
+        </ToolButton>
+        <ToolButton active={activeTool === "rectangle"} onClick={() => toggleTool("rectangle")} title="Rectangle select">
+          <RectangleIcon />
+        </ToolButton>
+
+        {/* How the shape combines with the current selection */}
+        <div className="flex items-center ml-1 pl-2 border-l border-slate-700 gap-0.5">
+          {SELECTION_MODES.map(mode => (
+            <button
+              key={mode}
+              onClick={() => onSelectionModeChange(mode)}
+              className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                selectionMode === mode ? "bg-slate-700 text-white" : "text-slate-400 hover:text-white"
+              }`}
+            >
+              {SELECTION_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+
+        {/* Corridor analysis */}
+        <div className="flex items-center ml-1 pl-2 border-l border-slate-700 gap-1">
+          <ToolButton active={activeTool === "corridor"} onClick={() => toggleTool("corridor")} title="Road corridor analysis">
+            <CorridorIcon />
+          </ToolButton>
+          {activeTool === "corridor" && (
+            <label className="flex items-center gap-1 text-xs text-slate-400" title="Right-of-way width">
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={corridorWidth}
+                onChange={(e) => {
+                  const width = Number(e.target.value);
+                  if (width > 0) onCorridorWidthChange(width);
+                }}
+                className="w-14 px-1.5 py-1 bg-slate-800 border border-slate-600 rounded-md text-white text-xs focus:outline-none focus:border-purple-500"
+              />
+              m
+            </label>
+          )}
+        </div>
+
+        {/* Measurement */}
+        <div className="flex items-center ml-1 pl-2 border-l border-slate-700 gap-1">
+          <ToolButton active={activeTool === "measure-distance"} onClick={() => toggleTool("measure-distance")} title="Measure distance">
+            <RulerIcon />
+          </ToolButton>
+          <ToolButton active={activeTool === "measure-area"} onClick={() => toggleTool("measure-area")} title="Measure area and perimeter">
+            <AreaIcon />
+          </ToolButton>
+          {isMeasureTool(activeTool) && (
+            <>
+              <select
+                value={measurementUnits}
+                onChange={(e) => onMeasurementUnitsChange(e.target.value as MeasurementUnits)}
+                className="px-1.5 py-1 bg-slate-800 border border-slate-600 rounded-md text-white text-xs focus:outline-none focus:border-purple-500"
+              >
+                {MEASUREMENT_UNITS.map(units => (
+                  <option key={units} value={units}>{MEASUREMENT_UNIT_LABELS[units]}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-xs text-slate-400" title="Snap to parcel vertices">
+                <input
+                  type="checkbox"
+                  checked={snapToVertices}
+                  onChange={(e) => onSnapToVerticesChange(e.target.checked)}
+                  className="accent-purple-500"
+                />
+                Snap
+              </label>
+            </>
+          )}
+        </div>
+
+        {/* Attribute table */}
+        <div className="flex items-center ml-1 pl-2 border-l border-slate-700">
+          <ToolButton active={isTableOpen} onClick={onToggleTable} title="Attribute table">
+            <TableIcon />
+          </ToolButton>
+        </div>
+      </div>
+    </div>
+  );
+}
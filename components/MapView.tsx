@@ -8,38 +8,120 @@ import Map, {
   MapLayerMouseEvent,
   Marker,
 } from "react-map-gl";
-import type { FeatureCollection, Polygon, MultiPolygon, Point, Feature, GeoJsonProperties } from "geojson";
+import type { FeatureCollection, Polygon, MultiPolygon, LineString, Point, Feature, GeoJsonProperties, Position } from "geojson";
+import type { ExpressionSpecification, GeoJSONFeature } from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
-import booleanPointInPolygon from "@turf/boolean-point-in-polygon";
 import centroid from "@turf/centroid";
+import area from "@turf/area";
 
 import { manchesterNorthEasternBoundary, boundaryCenter, boundaryZoom } from "@/lib/geo/boundary";
 import { 
   loadElectoralDivisions, 
   groupByDivision,
   ELECTORAL_DIVISION_COLORS,
+  DIVISION_NAMES,
+  communityId,
+  communityName,
   type DivisionProperties,
-  type DivisionName 
+  type DivisionName,
+  type UnmatchedCommunity
 } from "@/lib/geo/electoral-divisions";
-import type { ParcelProperties } from "@/lib/data/parcels";
-import { formatParcelSize } from "@/lib/data/parcels";
+import type { ParcelFeature, ParcelFeatureCollection, ParcelProperties, ParcelRecord } from "@/lib/data/parcels";
+import { formatParcelSize, sizeDiscrepancyPercent } from "@/lib/data/parcels";
+import { createOwnerPortfolioIndex, getPortfolioForLvNumber, type OwnerPortfolio } from "@/lib/data/portfolio";
+import { computeCommunityStats } from "@/lib/data/communities";
+import {
+  analyseCorridor,
+  restrictCorridorAnalysis,
+  DEFAULT_CORRIDOR_WIDTH_METERS,
+  type CorridorAnalysis,
+} from "@/lib/data/corridor";
+import {
+  PARCEL_TILES_ENABLED,
+  PARCEL_TILE_LAYER,
+  PARCEL_TILE_MAX_ZOOM,
+  getParcelTileUrl,
+  fetchParcelsById,
+  fetchParcelsInBBox,
+  fetchParcelTileSummary,
+  searchParcels,
+  type ParcelTileSummary,
+} from "@/lib/data/parcelTiles";
+import {
+  computeClassBreaks,
+  describeClasses,
+  formatCompactValue,
+  NO_VALUE_COLOR,
+  VALUE_CLASS_COLORS,
+  type ClassificationMethod,
+  type ValueMetric,
+} from "@/lib/data/valuation";
+import { calculateBoundingBox } from "@/lib/pdf/mapboxStaticImage";
+import {
+  createAllocationLookup,
+  getParcelAllocation,
+  ALLOCATION_COLORS,
+  PARCEL_ALLOCATIONS,
+  type ParcelAllocation,
+} from "@/lib/data/allocation";
 import { useProjects } from "@/lib/hooks/useProjects";
+import { useOwnerRules } from "@/lib/hooks/useOwnerRules";
+import { useLetterTemplate } from "@/lib/hooks/useLetterTemplate";
+import { useMeasurementUnits } from "@/lib/hooks/useMeasurementUnits";
+import { useSizeMismatchThreshold } from "@/lib/hooks/useSizeMismatchThreshold";
+import { useGeometryPreprocessing } from "@/lib/hooks/useGeometryPreprocessing";
+import { useTopologyCheck } from "@/lib/hooks/useTopologyCheck";
+import { useAttributeTableDock } from "@/lib/hooks/useAttributeTableDock";
+import { useQueryPresets } from "@/lib/hooks/useQueryPresets";
+import { NO_COMMUNITY } from "@/lib/geo/preprocess";
+import { combineSelection, featuresInShape, type SelectionMode } from "@/lib/geo/shapeSelection";
+import { corridorPolygon } from "@/lib/geo/corridor";
+import { bufferSite } from "@/lib/geo/proximity";
+import { formatMeasurement, measure, type Measurement } from "@/lib/geo/measure";
+import { snapToVertex, SNAP_TOLERANCE_PIXELS } from "@/lib/geo/snapping";
+import { createAdjacencyGraph, growToArea } from "@/lib/geo/adjacency";
+import { analyseSite, createParcelIndex } from "@/lib/data/site";
+import { attributeRows } from "@/lib/data/attributeTable";
+import { compileParcelQuery, describeParcelQuery } from "@/lib/data/parcelQuery";
+import { findCandidateSites, type CandidateSite, type SiteSearchCriteria } from "@/lib/data/siteFinder";
+import { findNotificationRecipients, type NeighbourNotification } from "@/lib/data/notification";
+import {
+  TOPOLOGY_ISSUE_COLORS,
+  TOPOLOGY_ISSUE_TYPES,
+  type TopologyIssue,
+  type TopologyReport,
+} from "@/lib/data/topology";
+import { createBBoxIndex, geometryBBox, type BBox } from "@/lib/geo/spatialIndex";
+import { labelPoint } from "@/lib/geo/labelPoint";
+import { useMapDrawing, type DrawResult } from "@/lib/hooks/useMapDrawing";
 import { generateProjectReport, downloadReport } from "@/lib/pdf/generateProjectReport";
+import { exportParcels, parcelExportFeatures } from "@/lib/export/gis";
+import { exportParcelSpreadsheet, isSpreadsheetFormat } from "@/lib/export/spreadsheet";
 import type { SavedProject } from "@/lib/types/project";
+import type { ParcelQuery } from "@/lib/types/parcelQuery";
 import LayerControls from "./LayerControls";
 import DetailsPanel from "./DetailsPanel";
 import MultiParcelPanel from "./MultiParcelPanel";
+import OwnerPortfolioPanel from "./OwnerPortfolioPanel";
 import SearchBar, { type SearchResult } from "./SearchBar";
 import SideNav from "./SideNav";
+import CommunitySummaryCard from "./CommunitySummaryCard";
+import MapToolbar, { MAP_TOOL_SHAPES, isMeasureTool, type MapTool } from "./MapToolbar";
+import MeasurementPanel from "./MeasurementPanel";
+import ExportMenu, { type ExportFormat } from "./ExportMenu";
+import AttributeTable, { type AttributeTableSelectMode } from "./AttributeTable";
 import type { Address } from "@/lib/data/addresses";
 import type { Owner } from "@/lib/data/owners";
+import type { AuditIssue } from "@/lib/data/audit";
 
 const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
 
 export type MapStyle = "satellite" | "streets";
 
+export type ParcelColorMode = "division" | "allocation" | "value";
+
 interface MapViewProps {
-  parcelsData: FeatureCollection<Polygon, ParcelProperties> | null;
+  parcelsData: ParcelFeatureCollection | null;
   addressesData: FeatureCollection<Point> | null;
   addressLookup: Map<string, Address>;
   ownerLookup: Map<string, Owner>;
@@ -57,6 +139,44 @@ export interface SelectedParcel {
   selectionOrder: number;   // 1, 2, 3...
 }
 
+// Feature-state target for a parcel in either the GeoJSON or the vector tile source
+function parcelFeatureTarget(id: string | number) {
+  return PARCEL_TILES_ENABLED
+    ? { source: "parcels", sourceLayer: PARCEL_TILE_LAYER, id }
+    : { source: "parcels", id };
+}
+
+// Fill, outline and point colour of each kind of topology issue
+const topologyIssueColor: ExpressionSpecification = [
+  "match",
+  ["get", "type"],
+  ...TOPOLOGY_ISSUE_TYPES.flatMap(type => [type, TOPOLOGY_ISSUE_COLORS[type]]),
+  "#94A3B8",
+] as ExpressionSpecification;
+
+// Rendered parcel features, one per OBJECTID (tiles split parcels along tile edges)
+function uniqueRenderedParcels(rendered: GeoJSONFeature[]): ParcelFeature[] {
+  const byId: Record<number, ParcelFeature> = {};
+  for (const feature of rendered) {
+    const properties = feature.properties as ParcelProperties;
+    const geometry = feature.geometry;
+    if ((geometry.type !== "Polygon" && geometry.type !== "MultiPolygon") || byId[properties.OBJECTID]) continue;
+    byId[properties.OBJECTID] = { type: "Feature", properties, geometry };
+  }
+  return Object.values(byId);
+}
+
+/**
+ * Builds an ordered selection from parcel features, placing markers at each label point
+ */
+function createSelection(features: ParcelFeature[]): SelectedParcel[] {
+  return features.map((feature, i) => ({
+    properties: feature.properties,
+    center: labelPoint(feature.geometry),
+    selectionOrder: i + 1,
+  }));
+}
+
 export default function MapView({
   parcelsData,
   addressesData,
@@ -69,6 +189,7 @@ export default function MapView({
   const [visibleLayers, setVisibleLayers] = useState({
     boundary: true,
     divisions: true,
+    communities: true,
     parcels: true,
     addresses: false,
     starlink: true,
@@ -83,13 +204,47 @@ export default function MapView({
   const [cursorPosition, setCursorPosition] = useState<{ x: number; y: number } | null>(null);
   const [nemOnly, setNemOnly] = useState(true);
   const [ownersOnly, setOwnersOnly] = useState(false);
+  const [sizeMismatchOnly, setSizeMismatchOnly] = useState(false);
+  const { threshold: sizeMismatchThreshold, saveThreshold: setSizeMismatchThreshold } = useSizeMismatchThreshold();
   const [visibleDivisions, setVisibleDivisions] = useState<Record<DivisionName, boolean>>({
     CRAIGHEAD: true,
     CHRISTIANA: true,
     WALDERSTON: true,
   });
   const [divisionsData, setDivisionsData] = useState<Record<DivisionName, FeatureCollection<Polygon | MultiPolygon, DivisionProperties>> | null>(null);
+  const [unmatchedCommunities, setUnmatchedCommunities] = useState<UnmatchedCommunity[]>([]);
+  const [communitiesData, setCommunitiesData] = useState<FeatureCollection<Polygon | MultiPolygon> | null>(null);
+  const [activeCommunityId, setActiveCommunityId] = useState<number | null>(null);
   const [sizeRange, setSizeRange] = useState<{ min: number; max: number }>({ min: 0, max: Infinity });
+  const [parcelColorMode, setParcelColorMode] = useState<ParcelColorMode>("division");
+  const [visibleAllocations, setVisibleAllocations] = useState<Record<ParcelAllocation, boolean>>({
+    government: true,
+    bauxite: true,
+    private: true,
+    unknown: true,
+  });
+  const [valueMetric, setValueMetric] = useState<ValueMetric>("landValue");
+  const [classificationMethod, setClassificationMethod] = useState<ClassificationMethod>("quantile");
+  const [parcelQuery, setParcelQuery] = useState<ParcelQuery | null>(null);
+  const { presets: queryPresets, savePreset: saveQueryPreset, deletePreset: deleteQueryPreset } = useQueryPresets();
+
+  // Drawing tools (lasso / polygon / rectangle selection)
+  const [activeTool, setActiveTool] = useState<MapTool | null>(null);
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>("add");
+  const [corridorWidth, setCorridorWidth] = useState(DEFAULT_CORRIDOR_WIDTH_METERS);
+  const [corridorAnalysis, setCorridorAnalysis] = useState<CorridorAnalysis | null>(null);
+  const [measurement, setMeasurement] = useState<Measurement | null>(null);
+  const [snapToVertices, setSnapToVertices] = useState(true);
+  const { units: measurementUnits, saveUnits: setMeasurementUnits } = useMeasurementUnits();
+
+  // Attribute table
+  const [isTableOpen, setIsTableOpen] = useState(false);
+  const { dock: tableDock, saveDock: setTableDock } = useAttributeTableDock();
+  const [tableViewportOnly, setTableViewportOnly] = useState(false);
+  const [viewBounds, setViewBounds] = useState<BBox | null>(null);
+  // Only an in-view table needs the map bounds; otherwise panning leaves the table alone
+  const tableTracksView = isTableOpen && (PARCEL_TILES_ENABLED || tableViewportOnly);
+  const [renderedTableParcels, setRenderedTableParcels] = useState<ParcelRecord[]>([]);
 
   // Projects
   const {
@@ -98,16 +253,37 @@ export default function MapView({
     updateProject,
     renameProject,
     deleteProject,
+    addAnnotation,
+    removeAnnotation,
     getProject,
   } = useProjects();
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [activeProjectName, setActiveProjectName] = useState<string | null>(null);
 
+  // Vector-tile mode: dataset-wide figures come from the server instead of parcelsData
+  const [tileSummary, setTileSummary] = useState<ParcelTileSummary | null>(null);
+  useEffect(() => {
+    if (!PARCEL_TILES_ENABLED) return;
+    fetchParcelTileSummary()
+      .then(setTileSummary)
+      .catch(err => console.error("Failed to load parcel tile summary:", err));
+  }, []);
+
+  // Owner classification rules (edited from Settings)
+  const { rules: ownerRules, saveRules: saveOwnerRules, resetRules: resetOwnerRules } = useOwnerRules();
+  const { template: letterTemplate, saveTemplate: saveLetterTemplate, resetTemplate: resetLetterTemplate } = useLetterTemplate();
+
   // Compute size bounds from parcel data (capped at 2,500 acres max for usable slider)
   const MAX_ACRES = 2500;
   const MAX_SQMT = MAX_ACRES * 4046.86; // ~10.1 million m²
   
   const sizeBounds = useMemo(() => {
+    if (tileSummary) {
+      return {
+        min: Math.floor(tileSummary.sizeMin),
+        max: Math.min(tileSummary.sizeMax === 0 ? MAX_SQMT : Math.ceil(tileSummary.sizeMax), MAX_SQMT),
+      };
+    }
     if (!parcelsData) return { min: 0, max: MAX_SQMT };
     
     let min = Infinity;
@@ -125,7 +301,7 @@ export default function MapView({
       min: min === Infinity ? 0 : Math.floor(min), 
       max: Math.min(max === 0 ? MAX_SQMT : Math.ceil(max), MAX_SQMT)
     };
-  }, [parcelsData]);
+  }, [parcelsData, tileSummary]);
 
   // Initialize size range when bounds are computed
   useEffect(() => {
@@ -137,8 +313,10 @@ export default function MapView({
   // Load electoral divisions data
   useEffect(() => {
     loadElectoralDivisions()
-      .then(data => {
-        setDivisionsData(groupByDivision(data));
+      .then(({ communities, divisions, unmatched }) => {
+        setCommunitiesData(communities);
+        setDivisionsData(groupByDivision(divisions));
+        setUnmatchedCommunities(unmatched);
       })
       .catch(err => console.error('Failed to load electoral divisions:', err));
   }, []);
@@ -204,7 +382,7 @@ export default function MapView({
         // Reset previous hover state
         if (hoveredFeature?.id !== undefined) {
           mapRef.current.setFeatureState(
-            { source: "parcels", id: hoveredFeature.id },
+            parcelFeatureTarget(hoveredFeature.id),
             { hover: false }
           );
         }
@@ -212,7 +390,7 @@ export default function MapView({
         // Set new hover state
         if (feature.id !== undefined) {
           mapRef.current.setFeatureState(
-            { source: "parcels", id: feature.id },
+            parcelFeatureTarget(feature.id),
             { hover: true }
           );
         }
@@ -226,7 +404,7 @@ export default function MapView({
     } else {
       if (hoveredFeature?.id !== undefined) {
         mapRef.current.setFeatureState(
-          { source: "parcels", id: hoveredFeature.id },
+          parcelFeatureTarget(hoveredFeature.id),
           { hover: false }
         );
       }
@@ -237,7 +415,7 @@ export default function MapView({
   const handleMouseLeave = useCallback(() => {
     if (hoveredFeature?.id !== undefined && mapRef.current) {
       mapRef.current.setFeatureState(
-        { source: "parcels", id: hoveredFeature.id },
+        parcelFeatureTarget(hoveredFeature.id),
         { hover: false }
       );
     }
@@ -265,13 +443,11 @@ export default function MapView({
     // Note: Shift+Click is intercepted by Mapbox for box-zoom
     const isMultiSelectKey = origEvt?.metaKey || origEvt?.ctrlKey || false;
     
-    // Calculate parcel center from geometry
+    // Place the marker inside the parcel (rendered geometry may be clipped to the tile)
     let center: [number, number] = [e.lngLat.lng, e.lngLat.lat];
-    if (feature.geometry.type === 'Polygon') {
-      const coords = (feature.geometry as Polygon).coordinates[0];
-      const centerLng = coords.reduce((sum, c) => sum + c[0], 0) / coords.length;
-      const centerLat = coords.reduce((sum, c) => sum + c[1], 0) / coords.length;
-      center = [centerLng, centerLat];
+    if (feature.geometry.type === 'Polygon' || feature.geometry.type === 'MultiPolygon') {
+      const [lng, lat] = labelPoint(feature.geometry);
+      if (!isNaN(lng) && !isNaN(lat)) center = [lng, lat];
     }
 
     setSelectedParcels(prev => {
@@ -329,33 +505,50 @@ export default function MapView({
     updateProject(activeProjectId, parcelIds);
   }, [activeProjectId, selectedParcels, updateProject]);
 
-  // Load a saved project - restore parcels on map
-  const handleLoadProject = useCallback((projectId: string) => {
-    const project = getProject(projectId);
-    if (!project || !parcelsData) return;
+  // Full parcel features for OBJECTIDs, in order - from the loaded data, or the lookup endpoint in tile mode
+  const resolveParcels = useCallback(async (objectIds: number[]): Promise<ParcelFeature[]> => {
+    if (PARCEL_TILES_ENABLED) return fetchParcelsById(objectIds);
+    if (!parcelsData) return [];
 
     // Build a lookup of all parcels by OBJECTID
-    const parcelLookup: Record<number, Feature<Polygon, ParcelProperties>> = {};
+    const parcelLookup: Record<number, ParcelFeature> = {};
     for (const feature of parcelsData.features) {
       if (feature.properties?.OBJECTID) {
         parcelLookup[feature.properties.OBJECTID] = feature;
       }
     }
+    return objectIds
+      .map(objectId => parcelLookup[objectId])
+      .filter(feature => feature && feature.properties);
+  }, [parcelsData]);
+
+  // Digitized area of a single selected parcel, compared with its recorded size in the details panel
+  const [selectedParcelArea, setSelectedParcelArea] = useState<number | null>(null);
+  useEffect(() => {
+    setSelectedParcelArea(null);
+    if (selectedParcels.length !== 1) return;
+
+    let cancelled = false;
+    resolveParcels([selectedParcels[0].properties.OBJECTID])
+      .then(([feature]) => {
+        if (!cancelled && feature) setSelectedParcelArea(area(feature));
+      })
+      .catch(error => console.warn("Could not load parcel geometry:", error));
+    return () => { cancelled = true; };
+  }, [selectedParcels, resolveParcels]);
+
+  // Load a saved project - restore parcels on map
+  const handleLoadProject = useCallback(async (projectId: string) => {
+    const project = getProject(projectId);
+    if (!project) return;
 
     // Restore the selected parcels in order
-    const restoredParcels: SelectedParcel[] = [];
-    for (let i = 0; i < project.parcelIds.length; i++) {
-      const objectId = project.parcelIds[i];
-      const feature = parcelLookup[objectId];
-      if (feature && feature.properties) {
-        const center = centroid(feature);
-        const coords = center.geometry.coordinates as [number, number];
-        restoredParcels.push({
-          properties: feature.properties,
-          center: coords,
-          selectionOrder: i + 1,
-        });
-      }
+    let restoredParcels: SelectedParcel[];
+    try {
+      restoredParcels = createSelection(await resolveParcels(project.parcelIds));
+    } catch (error) {
+      console.error("Failed to load project parcels:", error);
+      return;
     }
 
     setSelectedParcels(restoredParcels);
@@ -371,7 +564,7 @@ export default function MapView({
         duration: 1500,
       });
     }
-  }, [getProject, parcelsData]);
+  }, [getProject, resolveParcels]);
 
   // Handle renaming a project
   const handleRenameProject = useCallback((id: string, name: string) => {
@@ -399,21 +592,74 @@ export default function MapView({
     setActiveProjectName(null);
   }, []);
 
+  // Owner portfolios - parcels grouped by normalized owner name
+  const portfolioIndex = useMemo(() => {
+    if (!parcelsData) return null;
+    return createOwnerPortfolioIndex(parcelsData, ownerLookup);
+  }, [parcelsData, ownerLookup]);
+  const [activePortfolioKey, setActivePortfolioKey] = useState<string | null>(null);
+  const activePortfolio = activePortfolioKey && portfolioIndex ? portfolioIndex.get(activePortfolioKey) || null : null;
+
+  const fitToParcels = useCallback((features: ParcelFeature[]) => {
+    if (features.length === 0 || !mapRef.current) return;
+    const bbox = calculateBoundingBox(features);
+    mapRef.current.getMap().fitBounds(
+      [[bbox.minLng, bbox.minLat], [bbox.maxLng, bbox.maxLat]],
+      { padding: 80, maxZoom: 16, duration: 1500 }
+    );
+  }, []);
+
+  // Open the portfolio of the selected parcel's owner and frame all its parcels
+  const handleViewPortfolio = useCallback((lvNumber: string) => {
+    if (!portfolioIndex) return;
+    const portfolio = getPortfolioForLvNumber(lvNumber, ownerLookup, portfolioIndex);
+    if (!portfolio) return;
+    setActivePortfolioKey(portfolio.key);
+    fitToParcels(portfolio.parcels);
+  }, [ownerLookup, portfolioIndex, fitToParcels]);
+
+  // Turn the whole portfolio into a multi-parcel selection
+  const handleSelectPortfolio = useCallback(() => {
+    if (!activePortfolio) return;
+    setSelectedParcels(createSelection(activePortfolio.parcels));
+    setActiveProjectId(null);
+    setActiveProjectName(null);
+    setActivePortfolioKey(null);
+  }, [activePortfolio]);
+
+  const handleFlyToParcel = useCallback((feature: ParcelFeature) => {
+    mapRef.current?.getMap().flyTo({ center: labelPoint(feature.geometry), zoom: 16, duration: 1000 });
+  }, []);
+
+  // Fly to a data audit issue and select the parcels it involves
+  const handleSelectAuditIssue = useCallback((issue: AuditIssue) => {
+    if (!issue.coordinates) return;
+    mapRef.current?.getMap().flyTo({ center: issue.coordinates, zoom: 17, duration: 1000 });
+
+    if (issue.objectIds.length > 0 && parcelsData) {
+      const objectIds = new Set(issue.objectIds);
+      setSelectedParcels(createSelection(
+        parcelsData.features.filter(f => objectIds.has(f.properties?.OBJECTID))
+      ));
+      setActiveProjectId(null);
+      setActiveProjectName(null);
+      setActivePortfolioKey(null);
+    }
+  }, [parcelsData]);
+
   // Export report state and handler
   const [isExporting, setIsExporting] = useState(false);
 
   const handleExportReport = useCallback(async () => {
-    if (selectedParcels.length === 0 || !parcelsData) return;
+    if (selectedParcels.length === 0) return;
     
     setIsExporting(true);
     
     try {
       // Build a lookup of parcel features by OBJECTID
-      const parcelLookup: Record<number, Feature<Polygon, ParcelProperties>> = {};
-      for (const feature of parcelsData.features) {
-        if (feature.properties?.OBJECTID) {
-          parcelLookup[feature.properties.OBJECTID] = feature;
-        }
+      const parcelLookup: Record<number, ParcelFeature> = {};
+      for (const feature of await resolveParcels(selectedParcels.map(p => p.properties.OBJECTID))) {
+        parcelLookup[feature.properties.OBJECTID] = feature;
       }
 
       // Build parcel data for the report
@@ -451,8 +697,13 @@ export default function MapView({
             updatedAt: Date.now(),
           };
 
+      // Corridor selections get a schedule of the parcels still selected
+      const corridor = corridorAnalysis
+        ? restrictCorridorAnalysis(corridorAnalysis, selectedParcels.map(p => p.properties.OBJECTID))
+        : undefined;
+
       // Generate and download the report
-      const blob = await generateProjectReport(project, parcelsForReport);
+      const blob = await generateProjectReport(project, parcelsForReport, undefined, undefined, corridor, sizeMismatchThreshold);
       downloadReport(blob, project.name);
     } catch (error) {
       console.error("Failed to export report:", error);
@@ -460,7 +711,7 @@ export default function MapView({
     } finally {
       setIsExporting(false);
     }
-  }, [selectedParcels, parcelsData, ownerLookup, activeProjectId, activeProjectName]);
+  }, [selectedParcels, resolveParcels, ownerLookup, activeProjectId, activeProjectName, corridorAnalysis, sizeMismatchThreshold]);
 
   const toggleLayer = useCallback((layer: keyof typeof visibleLayers) => {
     setVisibleLayers((prev) => ({
@@ -474,10 +725,21 @@ export default function MapView({
     const map = mapRef.current?.getMap();
     if (!map) return;
 
+    // Select every parcel the owner holds and frame them all
+    if (result.type === "owner") {
+      const portfolio = result.data as OwnerPortfolio;
+      setSelectedParcels(createSelection(portfolio.parcels));
+      setActiveProjectId(null);
+      setActiveProjectName(null);
+      setActivePortfolioKey(null);
+      fitToParcels(portfolio.parcels);
+      return;
+    }
+
     // Fly to the result location
     map.flyTo({
       center: result.coordinates,
-      zoom: result.type === "division" ? 12 : 16,
+      zoom: result.type === "division" ? 12 : result.type === "community" ? 14 : 16,
       duration: 1500,
     });
 
@@ -485,7 +747,7 @@ export default function MapView({
     switch (result.type) {
       case "parcel":
         // Select the parcel and open details panel
-        const parcelFeature = result.data as Feature<Polygon, ParcelProperties>;
+        const parcelFeature = result.data as ParcelFeature;
         if (parcelFeature.properties) {
           setSelectedParcels([{
             properties: parcelFeature.properties,
@@ -499,6 +761,12 @@ export default function MapView({
         const divisionName = result.data as DivisionName;
         setVisibleDivisions((prev) => ({ ...prev, [divisionName]: true }));
         break;
+      case "community":
+        // Show the community outline and its summary card
+        setSelectedParcels([]);
+        setActiveCommunityId(result.data as number);
+        setVisibleLayers((prev) => ({ ...prev, communities: true }));
+        break;
       case "starlink":
         // Make sure starlink layer is visible
         setVisibleLayers((prev) => ({ ...prev, starlink: true }));
@@ -508,7 +776,7 @@ export default function MapView({
         setVisibleLayers((prev) => ({ ...prev, addresses: true }));
         break;
     }
-  }, []);
+  }, [fitToParcels]);
 
   // Get the boundary polygon for filtering
   const boundaryPolygon = useMemo(() => {
@@ -516,48 +784,51 @@ export default function MapView({
     return feature as Feature<Polygon>;
   }, []);
 
-  // Helper to find which division a point is in by checking all community polygons
-  const findDivisionForPoint = useCallback((point: Feature<Point>): DivisionName | null => {
-    if (!divisionsData) return null;
-    
-    // Check against all community polygons in each division
-    for (const division of ['CRAIGHEAD', 'CHRISTIANA', 'WALDERSTON'] as DivisionName[]) {
-      const divisionPolygons = divisionsData[division];
-      if (!divisionPolygons) continue;
-      
-      for (const feature of divisionPolygons.features) {
-        try {
-          if (booleanPointInPolygon(point, feature as Feature<Polygon>)) {
-            return division;
-          }
-        } catch {
-          // Skip invalid polygons
-          continue;
-        }
+  // Division of each assigned community, keyed by COMM_ID
+  const communityDivisions = useMemo(() => {
+    const lookup: Record<number, DivisionName> = {};
+    if (!divisionsData) return lookup;
+    for (const collection of Object.values(divisionsData)) {
+      for (const feature of collection.features) {
+        const id = communityId(feature);
+        if (id !== null) lookup[id] = feature.properties.ELECTORAL_DIVISION;
       }
     }
-    return null;
+    return lookup;
   }, [divisionsData]);
 
-  // STEP 1: Pre-process parcels ONCE when data loads (expensive geometric operations)
+  // Centroids, constituency membership and communities - computed off the main thread
+  const {
+    result: geometryAttributes,
+    progress: preprocessingProgress,
+    error: preprocessingError,
+  } = useGeometryPreprocessing(parcelsData, addressesData, boundaryPolygon, communitiesData);
+
+  // Owner-category allocation for every LV number with an owner record
+  const allocationLookup = useMemo(
+    () => createAllocationLookup(ownerLookup, ownerRules),
+    [ownerLookup, ownerRules]
+  );
+
+  // STEP 1: Attach the worker's per-parcel attributes to the features
   const { preprocessedParcels, nemCount, withOwnersCount } = useMemo(() => {
-    if (!parcelsData || !divisionsData) return { 
+    if (!parcelsData || !divisionsData || !geometryAttributes) return { 
       preprocessedParcels: null, 
       nemCount: 0, 
       withOwnersCount: 0 
     };
     
-    console.time('Parcel preprocessing');
-    
+    const { inBoundary, communityIds, geodesicAreas } = geometryAttributes.parcels;
     let nemCount = 0;
     let withOwnersCount = 0;
     
     const preprocessedParcels = parcelsData.features.map((feature, index) => {
-      const center = centroid(feature);
-      const isInNem = booleanPointInPolygon(center, boundaryPolygon);
+      const isInNem = inBoundary[index] === 1;
       const lvNumber = feature.properties?.LV_NUMBER;
       const hasOwner = lvNumber ? ownerLookup.has(lvNumber) : false;
-      const division = findDivisionForPoint(center);
+      const community = communityIds[index] === NO_COMMUNITY ? null : communityIds[index];
+      const division = community !== null ? communityDivisions[community] ?? null : null;
+      const geodesicArea = isNaN(geodesicAreas[index]) ? null : geodesicAreas[index];
       
       if (isInNem) nemCount++;
       if (hasOwner) withOwnersCount++;
@@ -570,23 +841,95 @@ export default function MapView({
           _isInNem: isInNem,
           _hasOwner: hasOwner,
           _division: division,
+          _community: community,
+          _geodesicArea: geodesicArea,
+          _sizeDiscrepancy: sizeDiscrepancyPercent(feature.properties?.SIZE_SQMT, geodesicArea),
         },
       };
     });
     
-    console.timeEnd('Parcel preprocessing');
-    
     return { preprocessedParcels, nemCount, withOwnersCount };
-  }, [parcelsData, divisionsData, boundaryPolygon, ownerLookup, findDivisionForPoint]);
+  }, [parcelsData, divisionsData, geometryAttributes, ownerLookup, communityDivisions]);
+
+  // STEP 1b: Attach owner allocation and valuation (cheap lookups - reruns when classification rules change)
+  const classifiedParcels = useMemo(() => {
+    if (!preprocessedParcels) return null;
+    return preprocessedParcels.map(feature => {
+      const lvNumber = feature.properties.LV_NUMBER;
+      const owner = lvNumber ? ownerLookup.get(lvNumber) : undefined;
+      return {
+        ...feature,
+        properties: {
+          ...feature.properties,
+          _allocation: getParcelAllocation(lvNumber, allocationLookup),
+          _landValue: owner?.landValueAmount ?? null,
+          _valuePerAcre: owner?.valuePerAcre ?? null,
+        },
+      };
+    });
+  }, [preprocessedParcels, ownerLookup, allocationLookup]);
+
+  // Per-community parcel totals (all parcels, independent of map filters)
+  const communityStats = useMemo(
+    () => classifiedParcels ? computeCommunityStats(classifiedParcels) : null,
+    [classifiedParcels]
+  );
+
+  const activeCommunity = useMemo(() => {
+    if (activeCommunityId === null || !communitiesData) return null;
+    return communitiesData.features.find(f => communityId(f) === activeCommunityId) || null;
+  }, [activeCommunityId, communitiesData]);
+
+  // Address points inside the active community
+  const activeCommunityAddressCount = useMemo(() => {
+    if (activeCommunityId === null || !geometryAttributes) return 0;
+    let count = 0;
+    const { addressCommunityIds } = geometryAttributes;
+    for (let i = 0; i < addressCommunityIds.length; i++) {
+      if (addressCommunityIds[i] === activeCommunityId) count++;
+    }
+    return count;
+  }, [activeCommunityId, geometryAttributes]);
+
+  // Choropleth class breaks over every valued parcel (stable while filters change)
+  const valueBreaks = useMemo(() => {
+    if (tileSummary) return computeClassBreaks(tileSummary.valueSamples[valueMetric], classificationMethod);
+    if (!classifiedParcels) return [];
+    const property = valueMetric === "landValue" ? "_landValue" : "_valuePerAcre";
+    const values: number[] = [];
+    for (const feature of classifiedParcels) {
+      const value = feature.properties[property];
+      if (value !== null && value > 0) values.push(value);
+    }
+    return computeClassBreaks(values, classificationMethod);
+  }, [classifiedParcels, tileSummary, valueMetric, classificationMethod]);
+
+  const valueLegend = useMemo(
+    () => describeClasses(valueBreaks, (value) =>
+      valueMetric === "valuePerAcre" ? `${formatCompactValue(value)}/ac` : formatCompactValue(value)
+    ),
+    [valueBreaks, valueMetric]
+  );
+
+  // Query builder matcher (owner and address fields are joined by LV number)
+  const parcelQueryFilter = useMemo(
+    () => parcelQuery ? compileParcelQuery(parcelQuery, ownerLookup, addressLookup) : null,
+    [parcelQuery, ownerLookup, addressLookup]
+  );
 
   // STEP 2: Apply filters (cheap operations - just property checks)
   const { parcelsWithIds, parcelCounts } = useMemo(() => {
-    if (!preprocessedParcels) return { 
+    // Tiles are filtered by the style expression below, so only dataset totals are known
+    if (tileSummary) return {
+      parcelsWithIds: null,
+      parcelCounts: { total: tileSummary.total, nem: tileSummary.nem, withOwners: tileSummary.withOwners, displayed: tileSummary.total },
+    };
+    if (!classifiedParcels) return { 
       parcelsWithIds: null, 
       parcelCounts: { total: 0, nem: 0, withOwners: 0, displayed: 0 } 
     };
     
-    let filteredFeatures = preprocessedParcels;
+    let filteredFeatures = classifiedParcels;
     
     if (nemOnly) {
       filteredFeatures = filteredFeatures.filter(f => f.properties._isInNem);
@@ -596,6 +939,13 @@ export default function MapView({
       filteredFeatures = filteredFeatures.filter(f => f.properties._hasOwner);
     }
 
+    if (sizeMismatchOnly) {
+      filteredFeatures = filteredFeatures.filter(f => {
+        const discrepancy = f.properties._sizeDiscrepancy;
+        return discrepancy !== null && Math.abs(discrepancy) > sizeMismatchThreshold;
+      });
+    }
+
     // Filter by size range
     filteredFeatures = filteredFeatures.filter(f => {
       const size = f.properties.SIZE_SQMT;
@@ -610,31 +960,77 @@ export default function MapView({
       return visibleDivisions[division];
     });
 
+    // Filter by allocation category
+    filteredFeatures = filteredFeatures.filter(f => visibleAllocations[f.properties._allocation]);
+
+    if (parcelQueryFilter) {
+      filteredFeatures = filteredFeatures.filter(parcelQueryFilter);
+    }
+
     return {
       parcelsWithIds: {
         type: 'FeatureCollection' as const,
         features: filteredFeatures,
       },
       parcelCounts: {
-        total: preprocessedParcels.length,
+        total: classifiedParcels.length,
         nem: nemCount,
         withOwners: withOwnersCount,
         displayed: filteredFeatures.length,
       },
     };
-  }, [preprocessedParcels, nemCount, withOwnersCount, nemOnly, ownersOnly, visibleDivisions, sizeRange]);
+  }, [classifiedParcels, tileSummary, nemCount, withOwnersCount, nemOnly, ownersOnly, sizeMismatchOnly, sizeMismatchThreshold, visibleDivisions, visibleAllocations, sizeRange, parcelQueryFilter]);
+
+  // Parcels by OBJECTID with the map's derived fields (division, community, digitized area) for exports
+  const resolveParcelRecords = useCallback(async (objectIds: number[]): Promise<ParcelRecord[]> => {
+    if (PARCEL_TILES_ENABLED || !classifiedParcels) return resolveParcels(objectIds);
+    const byId: Record<number, ParcelRecord> = {};
+    for (const feature of classifiedParcels) byId[feature.properties.OBJECTID] = feature;
+    return objectIds.map(id => byId[id]).filter(feature => feature !== undefined);
+  }, [classifiedParcels, resolveParcels]);
+
+  const communityNames = useMemo(() => {
+    const names: Record<number, string> = {};
+    for (const feature of communitiesData?.features || []) {
+      const id = communityId(feature);
+      if (id !== null) names[id] = communityName(feature);
+    }
+    return names;
+  }, [communitiesData]);
+
+  // Spreadsheet or GIS file of the given parcels
+  const exportParcelData = useCallback(async (parcels: ParcelRecord[], format: ExportFormat, name: string) => {
+    if (isSpreadsheetFormat(format)) {
+      await exportParcelSpreadsheet(format, parcels, { ownerLookup, addressLookup, allocationLookup, communityNames }, name);
+    } else {
+      await exportParcels(format, parcelExportFeatures(parcels, ownerLookup, addressLookup), name);
+    }
+  }, [ownerLookup, addressLookup, allocationLookup, communityNames]);
+
+  const handleExportSelection = useCallback(async (format: ExportFormat) => {
+    const parcels = await resolveParcelRecords(selectedParcels.map(p => p.properties.OBJECTID));
+    await exportParcelData(parcels, format, activeProjectName || "Multi-Parcel Project");
+  }, [resolveParcelRecords, selectedParcels, activeProjectName, exportParcelData]);
+
+  const handleExportProject = useCallback(async (id: string, format: ExportFormat) => {
+    const project = savedProjects.find(p => p.id === id);
+    if (!project) return;
+    await exportParcelData(await resolveParcelRecords(project.parcelIds), format, project.name);
+  }, [savedProjects, resolveParcelRecords, exportParcelData]);
+
+  // Every parcel passing the map filters
+  const handleExportFiltered = useCallback(async (format: ExportFormat) => {
+    await exportParcelData(parcelsWithIds?.features || [], format, "Filtered parcels");
+  }, [parcelsWithIds, exportParcelData]);
 
   // Filter addresses by visible divisions (only show addresses INSIDE a visible division)
   const filteredAddresses = useMemo(() => {
-    if (!addressesData || !divisionsData) return null;
+    if (!addressesData || !divisionsData || !geometryAttributes) return null;
     
-    const filteredFeatures = addressesData.features.filter(feature => {
-      const point: Feature<Point> = {
-        type: 'Feature',
-        geometry: feature.geometry,
-        properties: {}
-      };
-      const division = findDivisionForPoint(point);
+    const { addressCommunityIds } = geometryAttributes;
+    const filteredFeatures = addressesData.features.filter((_, index) => {
+      const community = addressCommunityIds[index];
+      const division = community === NO_COMMUNITY ? null : communityDivisions[community] ?? null;
       
       // Only show addresses that are inside a division AND that division is visible
       if (!division) return false;
@@ -646,11 +1042,91 @@ export default function MapView({
       type: 'FeatureCollection' as const,
       features: filteredFeatures,
     };
-  }, [addressesData, divisionsData, visibleDivisions, findDivisionForPoint]);
+  }, [addressesData, divisionsData, geometryAttributes, visibleDivisions, communityDivisions]);
+
+  // Tile mode: the tiles carry _allocation by the user's owner rules, so a rule edit reloads them
+  const parcelTileUrls = useMemo(
+    () => (PARCEL_TILES_ENABLED ? [getParcelTileUrl(ownerRules)] : []),
+    [ownerRules]
+  );
+
+  // Tile mode: the layer filters applied by STEP 2, as a style filter
+  const parcelTileFilter = useMemo((): ExpressionSpecification | undefined => {
+    if (!PARCEL_TILES_ENABLED) return undefined;
+
+    const size: ExpressionSpecification = ["to-number", ["coalesce", ["get", "SIZE_SQMT"], 0]];
+    const sizeInRange: ExpressionSpecification[] = [[">=", size, sizeRange.min]];
+    if (isFinite(sizeRange.max)) sizeInRange.push(["<=", size, sizeRange.max]);
+
+    const conditions: ExpressionSpecification[] = [
+      // Keep parcels with no size data
+      ["any", ["==", size, 0], ["all", ...sizeInRange]],
+      // Show parcels with no division
+      ["any",
+        ["!", ["has", "_division"]],
+        ["in", ["get", "_division"], ["literal", DIVISION_NAMES.filter(division => visibleDivisions[division])]],
+      ],
+      ["in", ["get", "_allocation"], ["literal", PARCEL_ALLOCATIONS.filter(allocation => visibleAllocations[allocation])]],
+    ];
+    if (nemOnly) conditions.push(["to-boolean", ["get", "_isInNem"]]);
+    if (ownersOnly) conditions.push(["to-boolean", ["get", "_hasOwner"]]);
+    if (sizeMismatchOnly) {
+      conditions.push([">", ["abs", ["to-number", ["coalesce", ["get", "_sizeDiscrepancy"], 0]]], sizeMismatchThreshold]);
+    }
+
+    return ["all", ...conditions] as ExpressionSpecification;
+  }, [nemOnly, ownersOnly, sizeMismatchOnly, sizeMismatchThreshold, sizeRange, visibleDivisions, visibleAllocations]);
+
+  // Base parcel fill and outline colours for the active colour mode (hover highlight is applied on top)
+  const parcelColorExpressions = useMemo((): { fill: ExpressionSpecification; line: ExpressionSpecification } => {
+    if (parcelColorMode === "value") {
+      const property = valueMetric === "landValue" ? "_landValue" : "_valuePerAcre";
+      const value: ExpressionSpecification = ["to-number", ["coalesce", ["get", property], -1]];
+      const steps: (string | number)[] = [VALUE_CLASS_COLORS[0]];
+      valueBreaks.forEach((threshold, i) => {
+        steps.push(threshold, VALUE_CLASS_COLORS[i + 1]);
+      });
+      const color = [
+        "case",
+        ["<=", value, 0], NO_VALUE_COLOR,
+        ["step", value, ...steps],
+      ] as ExpressionSpecification;
+      return { fill: color, line: color };
+    }
+    if (parcelColorMode === "allocation") {
+      const color: ExpressionSpecification = [
+        "match",
+        ["get", "_allocation"],
+        "government", ALLOCATION_COLORS.government,
+        "bauxite", ALLOCATION_COLORS.bauxite,
+        "private", ALLOCATION_COLORS.private,
+        ALLOCATION_COLORS.unknown, // fallback
+      ];
+      return { fill: color, line: color };
+    }
+    const divisionColor = (fallback: string): ExpressionSpecification => [
+      "match",
+      ["get", "_division"],
+      "CRAIGHEAD", ELECTORAL_DIVISION_COLORS.CRAIGHEAD,
+      "CHRISTIANA", ELECTORAL_DIVISION_COLORS.CHRISTIANA,
+      "WALDERSTON", ELECTORAL_DIVISION_COLORS.WALDERSTON,
+      fallback,
+    ];
+    return { fill: divisionColor("rgba(255, 255, 255, 0.2)"), line: divisionColor("#888888") };
+  }, [parcelColorMode, valueMetric, valueBreaks]);
+
+  // Create GeoJSON for the open owner portfolio (for highlight layer)
+  const portfolioGeoJSON = useMemo(() => {
+    if (!activePortfolio) return null;
+    return {
+      type: 'FeatureCollection' as const,
+      features: activePortfolio.parcels,
+    };
+  }, [activePortfolio]);
 
   // Create GeoJSON for selected parcels (for highlight layer)
   const selectedParcelsGeoJSON = useMemo(() => {
-    if (selectedParcels.length === 0 || !parcelsData) return null;
+    if (PARCEL_TILES_ENABLED || selectedParcels.length === 0 || !parcelsData) return null;
     
     const selectedObjectIds = new Set(selectedParcels.map(p => p.properties.OBJECTID));
     const features = parcelsData.features.filter(f => selectedObjectIds.has(f.properties.OBJECTID));
@@ -661,6 +1137,400 @@ export default function MapView({
     };
   }, [selectedParcels, parcelsData]);
 
+  // Parcels currently displayed on the map (after filters), with geometry for shape tests
+  const getDisplayedParcels = useCallback((shape: Polygon): ParcelFeature[] => {
+    if (!visibleLayers.parcels) return [];
+    if (!PARCEL_TILES_ENABLED) return parcelsWithIds?.features || [];
+
+    // Tile mode: query the rendered (already filtered) tiles under the shape
+    const map = mapRef.current;
+    if (!map) return [];
+    const pixels = shape.coordinates[0].map(([lng, lat]) => map.project([lng, lat]));
+    const xs = pixels.map(p => p.x);
+    const ys = pixels.map(p => p.y);
+    const rendered = map.queryRenderedFeatures(
+      [[Math.min(...xs), Math.min(...ys)], [Math.max(...xs), Math.max(...ys)]],
+      { layers: ["parcels-fill"] }
+    );
+    return uniqueRenderedParcels(rendered);
+  }, [visibleLayers.parcels, parcelsWithIds]);
+
+  // Every parcel whose bounding box may overlap the given area, ignoring filters and the
+  // current view (in tile mode the server's index supplies them)
+  const getParcelsNear = useCallback(async (area: Feature<Polygon | MultiPolygon>): Promise<ParcelFeature[]> => {
+    if (!PARCEL_TILES_ENABLED) return parcelsData?.features || [];
+    return fetchParcelsInBBox(geometryBBox(area.geometry));
+  }, [parcelsData]);
+
+  // Schedule every parcel the drawn alignment's right-of-way cuts through and select them
+  const runCorridorAnalysis = useCallback(async (path: Position[]) => {
+    const corridor = corridorPolygon(path, corridorWidth);
+    if (!corridor) return;
+    try {
+      const analysis = analyseCorridor(path, corridorWidth, await getParcelsNear(corridor), ownerLookup);
+      if (!analysis) return;
+      setCorridorAnalysis(analysis);
+      setSelectedParcels(createSelection(analysis.rows.map(row => row.parcel)));
+      setActiveProjectId(null);
+      setActiveProjectName(null);
+      setActivePortfolioKey(null);
+    } catch (error) {
+      console.error("Corridor analysis failed:", error);
+    }
+  }, [corridorWidth, getParcelsNear, ownerLookup]);
+
+  // Apply a drawn shape: alignments run a corridor analysis, areas change the selection
+  const handleDrawComplete = useCallback((result: DrawResult) => {
+    if (isMeasureTool(activeTool)) {
+      setMeasurement(measure(result.tool === "line" ? "distance" : "area", result.coordinates));
+      return;
+    }
+    if (activeTool === "corridor") {
+      runCorridorAnalysis(result.coordinates);
+      return;
+    }
+
+    const shape: Polygon = { type: "Polygon", coordinates: [result.coordinates] };
+    const matches = featuresInShape(getDisplayedParcels(shape), shape);
+    const newParcels = createSelection(matches);
+
+    setSelectedParcels(prev => {
+      const ids = combineSelection(
+        prev.map(p => p.properties.OBJECTID),
+        matches.map(f => f.properties.OBJECTID),
+        selectionMode
+      );
+      const available: Record<number, SelectedParcel> = {};
+      for (const parcel of [...newParcels, ...prev]) available[parcel.properties.OBJECTID] = parcel;
+      return ids.map((id, i) => ({ ...available[id], selectionOrder: i + 1 }));
+    });
+  }, [activeTool, getDisplayedParcels, selectionMode, runCorridorAnalysis]);
+
+  // Parcel adjacency over the full dataset; neighbours are computed on demand
+  const adjacency = useMemo(() => {
+    if (!parcelsData) return null;
+    return {
+      graph: createAdjacencyGraph(parcelsData.features.map(f => f.geometry)),
+      indexByObjectId: createParcelIndex(parcelsData.features),
+    };
+  }, [parcelsData]);
+
+  // Contiguity, neighbours and dissolved outline of a multi-parcel selection
+  const siteAnalysis = useMemo(() => {
+    if (!adjacency || !parcelsData || selectedParcels.length < 2) return null;
+    return analyseSite(
+      selectedParcels.map(p => p.properties.OBJECTID),
+      parcelsData.features,
+      adjacency.indexByObjectId,
+      adjacency.graph,
+      ownerLookup
+    );
+  }, [adjacency, parcelsData, selectedParcels, ownerLookup]);
+
+  // Append parcels to the end of the selection
+  const appendToSelection = useCallback((features: ParcelFeature[]) => {
+    setSelectedParcels(prev => {
+      const existing = new Set(prev.map(p => p.properties.OBJECTID));
+      const added = createSelection(features.filter(f => !existing.has(f.properties.OBJECTID)));
+      return [...prev, ...added].map((p, i) => ({ ...p, selectionOrder: i + 1 }));
+    });
+  }, []);
+
+  // Map bounds for the attribute table's in-view restriction
+  const updateViewBounds = useCallback(() => {
+    const bounds = mapRef.current?.getBounds();
+    if (bounds) setViewBounds([bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()]);
+  }, []);
+
+  useEffect(() => {
+    if (tableTracksView && mapLoaded) updateViewBounds();
+  }, [tableTracksView, mapLoaded, updateViewBounds]);
+
+  // Tile mode: the table lists the rendered parcels, re-read once the map settles after each move or filter change
+  useEffect(() => {
+    const map = mapRef.current?.getMap();
+    if (!PARCEL_TILES_ENABLED || !isTableOpen || !map) return;
+    const refresh = () => {
+      setRenderedTableParcels(uniqueRenderedParcels(map.queryRenderedFeatures({ layers: ["parcels-fill"] })));
+    };
+    map.once("idle", refresh);
+    map.triggerRepaint();
+    return () => {
+      map.off("idle", refresh);
+    };
+  }, [isTableOpen, viewBounds, parcelTileFilter, visibleLayers.parcels]);
+
+  const attributeTableRows = useMemo(() => {
+    if (!isTableOpen) return [];
+    return attributeRows(PARCEL_TILES_ENABLED ? renderedTableParcels : parcelsWithIds?.features || [], ownerLookup);
+  }, [isTableOpen, renderedTableParcels, parcelsWithIds, ownerLookup]);
+
+  const selectedParcelIds = useMemo(
+    () => new Set(selectedParcels.map(p => p.properties.OBJECTID)),
+    [selectedParcels]
+  );
+
+  const handleTableSelect = useCallback((parcels: ParcelRecord[], mode: AttributeTableSelectMode) => {
+    if (mode === "replace") {
+      setSelectedParcels(createSelection(parcels));
+    } else if (mode === "toggle" && parcels.every(p => selectedParcelIds.has(p.properties.OBJECTID))) {
+      const removed = new Set(parcels.map(p => p.properties.OBJECTID));
+      setSelectedParcels(prev => prev
+        .filter(p => !removed.has(p.properties.OBJECTID))
+        .map((p, i) => ({ ...p, selectionOrder: i + 1 })));
+    } else {
+      appendToSelection(parcels);
+    }
+  }, [selectedParcelIds, appendToSelection]);
+
+  const handleAddParcel = useCallback((objectId: number) => {
+    const index = adjacency?.indexByObjectId.get(objectId);
+    if (index === undefined || !parcelsData) return;
+    appendToSelection([parcelsData.features[index]]);
+  }, [adjacency, parcelsData, appendToSelection]);
+
+  // Grow the selection through displayed neighbouring parcels until it reaches the target acreage
+  const handleGrowSite = useCallback((targetAcres: number) => {
+    if (!adjacency || !parcelsData) return;
+    const displayed = new Set((parcelsWithIds?.features || []).map(f => f.properties.OBJECTID));
+    const seed = selectedParcels
+      .map(p => adjacency.indexByObjectId.get(p.properties.OBJECTID))
+      .filter((i): i is number => i !== undefined);
+
+    const added = growToArea(
+      seed,
+      adjacency.graph,
+      i => parcelsData.features[i].properties.SIZE_SQMT || 0,
+      targetAcres * 4046.86,
+      i => displayed.has(parcelsData.features[i].properties.OBJECTID)
+    );
+    appendToSelection(added.map(i => parcelsData.features[i]));
+  }, [adjacency, parcelsData, parcelsWithIds, selectedParcels, appendToSelection]);
+
+  // Search the parcels passing the map filters for contiguous candidate sites
+  const handleFindSites = useCallback(async (
+    criteria: SiteSearchCriteria,
+    onProgress: (done: number, total: number) => void
+  ): Promise<CandidateSite[]> => {
+    if (!adjacency || !parcelsData) return [];
+    const eligible = (parcelsWithIds?.features || [])
+      .map(f => adjacency.indexByObjectId.get(f.properties.OBJECTID))
+      .filter((i): i is number => i !== undefined);
+    return findCandidateSites(
+      parcelsData.features,
+      eligible,
+      adjacency.graph,
+      ownerLookup,
+      allocationLookup,
+      criteria,
+      onProgress
+    );
+  }, [adjacency, parcelsData, parcelsWithIds, ownerLookup, allocationLookup]);
+
+  const siteFeatures = useCallback((site: CandidateSite) => {
+    if (!adjacency || !parcelsData) return [];
+    return site.objectIds
+      .map(id => adjacency.indexByObjectId.get(id))
+      .filter((i): i is number => i !== undefined)
+      .map(i => parcelsData.features[i]);
+  }, [adjacency, parcelsData]);
+
+  // Load a candidate site as the selection and frame it
+  const handleLoadSite = useCallback((site: CandidateSite) => {
+    const features = siteFeatures(site);
+    setSelectedParcels(createSelection(features));
+    setActiveProjectId(null);
+    setActiveProjectName(null);
+    setActivePortfolioKey(null);
+    fitToParcels(features);
+  }, [siteFeatures, fitToParcels]);
+
+  // Save a candidate site as a project and make it the active selection
+  const handleSaveSite = useCallback((site: CandidateSite, name: string) => {
+    const newProject = saveProject(name, site.objectIds);
+    setSelectedParcels(createSelection(siteFeatures(site)));
+    setActiveProjectId(newProject.id);
+    setActiveProjectName(newProject.name);
+    setActivePortfolioKey(null);
+  }, [siteFeatures, saveProject]);
+
+  // Parcel fabric check results, drawn on the map until cleared
+  const { report: topologyReport, check: checkTopology, clear: clearTopology } = useTopologyCheck();
+
+  const handleCheckTopology = useCallback((
+    maxGapSqmt: number,
+    onProgress: (done: number, total: number) => void
+  ): Promise<TopologyReport> => {
+    const parcels = parcelsData?.features || [];
+    const divisions = parcels.map((_, index) =>
+      (classifiedParcels?.[index]?.properties._division as DivisionName | null | undefined) ?? null
+    );
+    return checkTopology({ parcels, divisions, maxGapSqmt }, onProgress);
+  }, [parcelsData, classifiedParcels, checkTopology]);
+
+  const topologyIssuesGeoJSON = useMemo((): FeatureCollection | null => {
+    if (!topologyReport) return null;
+    return {
+      type: "FeatureCollection",
+      features: topologyReport.issues.map(issue => ({
+        type: "Feature" as const,
+        properties: { id: issue.id, type: issue.type },
+        geometry: issue.geometry,
+      })),
+    };
+  }, [topologyReport]);
+
+  // Fly to a topology issue and select the parcels it involves
+  const handleSelectTopologyIssue = useCallback((issue: TopologyIssue) => {
+    mapRef.current?.getMap().flyTo({ center: issue.coordinates, zoom: 18, duration: 1000 });
+
+    if (issue.objectIds.length > 0 && parcelsData) {
+      const objectIds = new Set(issue.objectIds);
+      setSelectedParcels(createSelection(
+        parcelsData.features.filter(f => objectIds.has(f.properties?.OBJECTID))
+      ));
+      setActiveProjectId(null);
+      setActiveProjectName(null);
+      setActivePortfolioKey(null);
+    }
+  }, [parcelsData]);
+
+  // Corridor results stay attached while any of their parcels remain selected
+  useEffect(() => {
+    if (!corridorAnalysis) return;
+    const selectedIds = new Set(selectedParcels.map(p => p.properties.OBJECTID));
+    if (!corridorAnalysis.rows.some(row => selectedIds.has(row.parcel.properties.OBJECTID))) {
+      setCorridorAnalysis(null);
+    }
+  }, [corridorAnalysis, selectedParcels]);
+
+  // The corridor schedule for the parcels still selected
+  const activeCorridor = useMemo(
+    () => corridorAnalysis
+      ? restrictCorridorAnalysis(corridorAnalysis, selectedParcels.map(p => p.properties.OBJECTID))
+      : null,
+    [corridorAnalysis, selectedParcels]
+  );
+
+  // Owners to notify around the selection; stale once the selection changes
+  const [notification, setNotification] = useState<NeighbourNotification | null>(null);
+  useEffect(() => {
+    setNotification(null);
+  }, [selectedParcels]);
+
+  const handleFindNeighbours = useCallback(async (distanceMeters: number) => {
+    try {
+      const site = await resolveParcels(selectedParcels.map(p => p.properties.OBJECTID));
+      const area = bufferSite(site, distanceMeters);
+      if (!area) return;
+      setNotification(findNotificationRecipients(
+        site,
+        await getParcelsNear(area),
+        area,
+        distanceMeters,
+        ownerLookup,
+        addressLookup
+      ));
+    } catch (error) {
+      console.error("Neighbour notification search failed:", error);
+    }
+  }, [selectedParcels, resolveParcels, getParcelsNear, ownerLookup, addressLookup]);
+
+  // Bounding boxes of every loaded parcel, for snapping to their exact vertices
+  const parcelBBoxIndex = useMemo(() => {
+    if (!parcelsData) return null;
+    return createBBoxIndex(parcelsData.features.map(f => geometryBBox(f.geometry)), 128);
+  }, [parcelsData]);
+
+  // Snap measurement vertices to the nearest parcel vertex. Uses the source geometry when the
+  // dataset is loaded; tile geometry is clipped and simplified, so snapping there is approximate.
+  const snapToParcelVertex = useCallback((lngLat: [number, number]): [number, number] => {
+    const map = mapRef.current?.getMap();
+    if (!map || !map.getLayer("parcels-fill")) return lngLat;
+    const { x, y } = map.project(lngLat);
+    const t = SNAP_TOLERANCE_PIXELS;
+
+    if (parcelsData && parcelBBoxIndex) {
+      const corners = [[x - t, y - t], [x + t, y - t], [x + t, y + t], [x - t, y + t]]
+        .map(([cx, cy]) => map.unproject([cx, cy]));
+      const lngs = corners.map(c => c.lng);
+      const lats = corners.map(c => c.lat);
+      const nearby = parcelBBoxIndex.searchBox([Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)]);
+      return snapToVertex(lngLat, nearby.map(i => parcelsData.features[i].geometry), p => map.project(p));
+    }
+
+    const nearby = map.queryRenderedFeatures([[x - t, y - t], [x + t, y + t]], { layers: ["parcels-fill"] });
+    const geometries = nearby
+      .map(f => f.geometry)
+      .filter((g): g is Polygon | MultiPolygon => g.type === "Polygon" || g.type === "MultiPolygon");
+    return snapToVertex(lngLat, geometries, p => map.project(p));
+  }, [parcelsData, parcelBBoxIndex]);
+
+  const {
+    draft: drawDraft,
+    isDrawing,
+    handlers: drawHandlers,
+  } = useMapDrawing(activeTool ? MAP_TOOL_SHAPES[activeTool] : null, handleDrawComplete, {
+    snap: isMeasureTool(activeTool) && snapToVertices ? snapToParcelVertex : undefined,
+    onExit: () => setActiveTool(null),
+  });
+
+  // Measurement of the shape being drawn, else the last finished one
+  const displayedMeasurement = useMemo(() => {
+    if (!isMeasureTool(activeTool)) return null;
+    if (drawDraft) {
+      const geometry = drawDraft.geometry;
+      return geometry.type === "LineString"
+        ? measure("distance", geometry.coordinates)
+        : measure("area", geometry.coordinates[0]);
+    }
+    return measurement;
+  }, [activeTool, drawDraft, measurement]);
+
+  // A finished measurement is discarded when leaving the measuring tools
+  useEffect(() => {
+    if (!isMeasureTool(activeTool)) setMeasurement(null);
+  }, [activeTool]);
+
+  const activeAnnotations = useMemo(
+    () => savedProjects.find(p => p.id === activeProjectId)?.annotations || [],
+    [savedProjects, activeProjectId]
+  );
+
+  const handleSaveMeasurement = useCallback(() => {
+    if (!activeProjectId || !measurement) return;
+    addAnnotation(activeProjectId, { kind: measurement.kind, coordinates: measurement.coordinates });
+    setMeasurement(null);
+  }, [activeProjectId, measurement, addAnnotation]);
+
+  // Saved and current measurements as map features, labelled in the chosen units
+  const measurementFeatures = useMemo((): FeatureCollection => {
+    const shapes: Measurement[] = activeAnnotations.map(a => measure(a.kind, a.coordinates));
+    if (measurement) shapes.push(measurement);
+    return {
+      type: "FeatureCollection",
+      features: shapes.flatMap((shape): Feature[] => {
+        const geometry: LineString | Polygon = shape.kind === "distance"
+          ? { type: "LineString", coordinates: shape.coordinates }
+          : { type: "Polygon", coordinates: [shape.coordinates] };
+        const label = formatMeasurement(shape, measurementUnits);
+        const anchor = shape.kind === "distance"
+          ? shape.coordinates[shape.coordinates.length - 1]
+          : centroid({ type: "Feature", properties: {}, geometry }).geometry.coordinates;
+        return [
+          { type: "Feature", properties: {}, geometry },
+          { type: "Feature", properties: { label }, geometry: { type: "Point", coordinates: anchor } },
+        ];
+      }),
+    };
+  }, [activeAnnotations, measurement, measurementUnits]);
+
+  // While a tool is active, clicks and drags draw instead of selecting or panning
+  const handleMapMouseMove = useCallback((e: MapLayerMouseEvent) => {
+    if (activeTool) drawHandlers.onMouseMove(e);
+    handleMouseMove(e);
+  }, [activeTool, drawHandlers, handleMouseMove]);
+
   if (!MAPBOX_TOKEN) {
     return (
       <div className="w-full h-full flex items-center justify-center bg-slate-900 text-white">
@@ -689,12 +1559,18 @@ export default function MapView({
         }}
         style={{ width: "100%", height: "100%" }}
         mapStyle={mapStyleUrl}
-        onMouseMove={handleMouseMove}
+        onMouseMove={handleMapMouseMove}
         onMouseLeave={handleMouseLeave}
-        onClick={handleClick}
+        onMouseDown={activeTool ? drawHandlers.onMouseDown : undefined}
+        onMouseUp={activeTool ? drawHandlers.onMouseUp : undefined}
+        onClick={activeTool ? drawHandlers.onClick : handleClick}
+        onDblClick={activeTool ? drawHandlers.onDblClick : undefined}
+        dragPan={!activeTool || MAP_TOOL_SHAPES[activeTool] === "polygon"}
+        doubleClickZoom={!activeTool}
         onLoad={() => setMapLoaded(true)}
+        onMoveEnd={tableTracksView ? updateViewBounds : undefined}
         interactiveLayerIds={["parcels-fill"]}
-        cursor={hoveredFeature ? "pointer" : "grab"}
+        cursor={activeTool ? "crosshair" : hoveredFeature ? "pointer" : "grab"}
       >
         {/* Boundary Layer */}
         <Source id="boundary" type="geojson" data={manchesterNorthEasternBoundary}>
@@ -709,7 +1585,77 @@ export default function MapView({
           />
         </Source>
 
-        {/* Parcels Layer - Colored by division */}
+        {/* Parcels Layer (vector tiles) - filtered and coloured by style expressions */}
+        {PARCEL_TILES_ENABLED && (
+          <Source
+            id="parcels"
+            type="vector"
+            tiles={parcelTileUrls}
+            maxzoom={PARCEL_TILE_MAX_ZOOM}
+            promoteId="OBJECTID"
+          >
+            <Layer
+              id="parcels-fill"
+              type="fill"
+              source-layer={PARCEL_TILE_LAYER}
+              filter={parcelTileFilter}
+              paint={{
+                "fill-color": [
+                  "case",
+                  ["boolean", ["feature-state", "hover"], false],
+                  "rgba(255, 255, 255, 0.4)",
+                  parcelColorExpressions.fill,
+                ],
+                "fill-opacity": visibleLayers.parcels ? 0.5 : 0,
+              }}
+            />
+            <Layer
+              id="parcels-outline"
+              type="line"
+              source-layer={PARCEL_TILE_LAYER}
+              filter={parcelTileFilter}
+              paint={{
+                "line-color": [
+                  "case",
+                  ["boolean", ["feature-state", "hover"], false],
+                  "#ffffff",
+                  parcelColorExpressions.line,
+                ],
+                "line-width": [
+                  "case",
+                  ["boolean", ["feature-state", "hover"], false],
+                  3,
+                  1,
+                ],
+                "line-opacity": visibleLayers.parcels ? 1 : 0,
+              }}
+            />
+            {/* Selected parcels, matched by OBJECTID within the tiles */}
+            <Layer
+              id="selected-parcels-fill"
+              type="fill"
+              source-layer={PARCEL_TILE_LAYER}
+              filter={["in", ["get", "OBJECTID"], ["literal", selectedParcels.map(p => p.properties.OBJECTID)]]}
+              paint={{
+                "fill-color": "#00D4FF",
+                "fill-opacity": 0.3,
+              }}
+            />
+            <Layer
+              id="selected-parcels-outline"
+              type="line"
+              source-layer={PARCEL_TILE_LAYER}
+              filter={["in", ["get", "OBJECTID"], ["literal", selectedParcels.map(p => p.properties.OBJECTID)]]}
+              paint={{
+                "line-color": "#00D4FF",
+                "line-width": 3,
+                "line-opacity": 1,
+              }}
+            />
+          </Source>
+        )}
+
+        {/* Parcels Layer - Colored by division or allocation */}
         {parcelsWithIds && (
           <Source id="parcels" type="geojson" data={parcelsWithIds}>
             <Layer
@@ -720,14 +1666,7 @@ export default function MapView({
                   "case",
                   ["boolean", ["feature-state", "hover"], false],
                   "rgba(255, 255, 255, 0.4)",
-                  [
-                    "match",
-                    ["get", "_division"],
-                    "CRAIGHEAD", ELECTORAL_DIVISION_COLORS.CRAIGHEAD,
-                    "CHRISTIANA", ELECTORAL_DIVISION_COLORS.CHRISTIANA,
-                    "WALDERSTON", ELECTORAL_DIVISION_COLORS.WALDERSTON,
-                    "rgba(255, 255, 255, 0.2)" // fallback
-                  ],
+                  parcelColorExpressions.fill,
                 ],
                 "fill-opacity": visibleLayers.parcels ? 0.5 : 0,
               }}
@@ -740,14 +1679,7 @@ export default function MapView({
                   "case",
                   ["boolean", ["feature-state", "hover"], false],
                   "#ffffff",
-                  [
-                    "match",
-                    ["get", "_division"],
-                    "CRAIGHEAD", ELECTORAL_DIVISION_COLORS.CRAIGHEAD,
-                    "CHRISTIANA", ELECTORAL_DIVISION_COLORS.CHRISTIANA,
-                    "WALDERSTON", ELECTORAL_DIVISION_COLORS.WALDERSTON,
-                    "#888888" // fallback
-                  ],
+                  parcelColorExpressions.line,
                 ],
                 "line-width": [
                   "case",
@@ -761,6 +1693,29 @@ export default function MapView({
           </Source>
         )}
 
+        {/* Owner Portfolio Highlight Layer */}
+        {portfolioGeoJSON && (
+          <Source id="portfolio-parcels" type="geojson" data={portfolioGeoJSON}>
+            <Layer
+              id="portfolio-parcels-fill"
+              type="fill"
+              paint={{
+                "fill-color": "#F59E0B",
+                "fill-opacity": 0.35,
+              }}
+            />
+            <Layer
+              id="portfolio-parcels-outline"
+              type="line"
+              paint={{
+                "line-color": "#F59E0B",
+                "line-width": 2.5,
+                "line-opacity": 1,
+              }}
+            />
+          </Source>
+        )}
+
         {/* Selected Parcels Highlight Layer */}
         {selectedParcelsGeoJSON && selectedParcelsGeoJSON.features.length > 0 && (
           <Source id="selected-parcels" type="geojson" data={selectedParcelsGeoJSON}>
@@ -808,6 +1763,54 @@ export default function MapView({
           </>
         )}
 
+        {/* Community Boundaries with zoom-dependent labels */}
+        {communitiesData && visibleLayers.communities && (
+          <Source id="communities" type="geojson" data={communitiesData}>
+            <Layer
+              id="community-outline"
+              type="line"
+              paint={{
+                "line-color": "#E2E8F0",
+                "line-width": ["interpolate", ["linear"], ["zoom"], 10, 0.5, 15, 1.5],
+                "line-opacity": 0.6,
+                "line-dasharray": [3, 2],
+              }}
+            />
+            <Layer
+              id="community-labels"
+              type="symbol"
+              minzoom={12}
+              layout={{
+                "text-field": ["get", "COMM_NAME_"],
+                "text-size": ["interpolate", ["linear"], ["zoom"], 12, 11, 16, 16],
+                "text-transform": "uppercase",
+                "text-letter-spacing": 0.08,
+              }}
+              paint={{
+                "text-color": "#F8FAFC",
+                "text-halo-color": "#0F172A",
+                "text-halo-width": 1.5,
+                "text-opacity": ["interpolate", ["linear"], ["zoom"], 12, 0, 12.5, 0.9],
+              }}
+            />
+          </Source>
+        )}
+
+        {/* Active community highlight */}
+        {activeCommunity && (
+          <Source id="active-community" type="geojson" data={activeCommunity}>
+            <Layer
+              id="active-community-outline"
+              type="line"
+              paint={{
+                "line-color": "#FFFFFF",
+                "line-width": 3,
+                "line-opacity": 0.9,
+              }}
+            />
+          </Source>
+        )}
+
         {/* Addresses Layer - filtered by visible divisions */}
         {filteredAddresses && (
           <Source id="addresses" type="geojson" data={filteredAddresses}>
@@ -859,6 +1862,182 @@ export default function MapView({
           </>
         )}
 
+        {/* Dissolved outline of the selected site */}
+        {siteAnalysis && (
+          <Source id="site-outline" type="geojson" data={siteAnalysis.outline}>
+            <Layer
+              id="site-outline-line"
+              type="line"
+              paint={{
+                "line-color": "#FFFFFF",
+                "line-width": 3,
+                "line-opacity": 0.9,
+              }}
+            />
+          </Source>
+        )}
+
+        {/* Notification buffer around the selection */}
+        {notification && (
+          <Source id="notification-area" type="geojson" data={notification.area}>
+            <Layer
+              id="notification-area-fill"
+              type="fill"
+              paint={{
+                "fill-color": "#F59E0B",
+                "fill-opacity": 0.12,
+              }}
+            />
+            <Layer
+              id="notification-area-line"
+              type="line"
+              paint={{
+                "line-color": "#F59E0B",
+                "line-width": 2,
+                "line-dasharray": [2, 2],
+              }}
+            />
+          </Source>
+        )}
+
+        {/* Corridor right-of-way and alignment */}
+        {activeCorridor && (
+          <>
+            <Source id="corridor" type="geojson" data={activeCorridor.corridor}>
+              <Layer
+                id="corridor-fill"
+                type="fill"
+                paint={{
+                  "fill-color": "#A855F7",
+                  "fill-opacity": 0.25,
+                }}
+              />
+              <Layer
+                id="corridor-outline"
+                type="line"
+                paint={{
+                  "line-color": "#A855F7",
+                  "line-width": 1.5,
+                }}
+              />
+            </Source>
+            <Source
+              id="corridor-alignment"
+              type="geojson"
+              data={{ type: "Feature", properties: {}, geometry: { type: "LineString", coordinates: activeCorridor.path } }}
+            >
+              <Layer
+                id="corridor-alignment-line"
+                type="line"
+                paint={{
+                  "line-color": "#FFFFFF",
+                  "line-width": 2,
+                  "line-dasharray": [4, 2],
+                }}
+              />
+            </Source>
+          </>
+        )}
+
+        {/* Parcel fabric issues: overlaps, gaps and duplicates as areas, self-intersections as points */}
+        {topologyIssuesGeoJSON && (
+          <Source id="topology-issues" type="geojson" data={topologyIssuesGeoJSON}>
+            <Layer
+              id="topology-issues-fill"
+              type="fill"
+              filter={["match", ["geometry-type"], ["Polygon", "MultiPolygon"], true, false]}
+              paint={{
+                "fill-color": topologyIssueColor,
+                "fill-opacity": 0.45,
+              }}
+            />
+            <Layer
+              id="topology-issues-outline"
+              type="line"
+              filter={["match", ["geometry-type"], ["Polygon", "MultiPolygon"], true, false]}
+              paint={{
+                "line-color": topologyIssueColor,
+                "line-width": 2,
+              }}
+            />
+            <Layer
+              id="topology-issues-points"
+              type="circle"
+              filter={["match", ["geometry-type"], ["Point", "MultiPoint"], true, false]}
+              paint={{
+                "circle-color": topologyIssueColor,
+                "circle-radius": 5,
+                "circle-stroke-width": 1.5,
+                "circle-stroke-color": "#FFFFFF",
+              }}
+            />
+          </Source>
+        )}
+
+        {/* Measurements: saved on the active project and the current one */}
+        {measurementFeatures.features.length > 0 && (
+          <Source id="measurements" type="geojson" data={measurementFeatures}>
+            <Layer
+              id="measurements-fill"
+              type="fill"
+              filter={["==", ["geometry-type"], "Polygon"]}
+              paint={{
+                "fill-color": "#FACC15",
+                "fill-opacity": 0.12,
+              }}
+            />
+            <Layer
+              id="measurements-line"
+              type="line"
+              filter={["!=", ["geometry-type"], "Point"]}
+              paint={{
+                "line-color": "#FACC15",
+                "line-width": 2,
+              }}
+            />
+            <Layer
+              id="measurements-label"
+              type="symbol"
+              filter={["==", ["geometry-type"], "Point"]}
+              layout={{
+                "text-field": ["get", "label"],
+                "text-size": 12,
+                "text-offset": [0, -1],
+                "text-allow-overlap": true,
+              }}
+              paint={{
+                "text-color": "#FEF9C3",
+                "text-halo-color": "#0F172A",
+                "text-halo-width": 1.5,
+              }}
+            />
+          </Source>
+        )}
+
+        {/* Shape being drawn with the active tool */}
+        {drawDraft && (
+          <Source id="draw-draft" type="geojson" data={drawDraft}>
+            <Layer
+              id="draw-draft-fill"
+              type="fill"
+              filter={["==", ["geometry-type"], "Polygon"]}
+              paint={{
+                "fill-color": "#A855F7",
+                "fill-opacity": 0.15,
+              }}
+            />
+            <Layer
+              id="draw-draft-outline"
+              type="line"
+              paint={{
+                "line-color": "#A855F7",
+                "line-width": 2,
+                "line-dasharray": [2, 1],
+              }}
+            />
+          </Source>
+        )}
+
         {/* Selection Number Markers */}
         {selectedParcels.map((selected) => (
           <Marker
@@ -894,11 +2073,60 @@ export default function MapView({
         </div>
       )}
 
+      {/* Drawing tools */}
+      <MapToolbar
+        activeTool={activeTool}
+        onToolChange={setActiveTool}
+        selectionMode={selectionMode}
+        onSelectionModeChange={setSelectionMode}
+        corridorWidth={corridorWidth}
+        onCorridorWidthChange={setCorridorWidth}
+        measurementUnits={measurementUnits}
+        onMeasurementUnitsChange={setMeasurementUnits}
+        snapToVertices={snapToVertices}
+        onSnapToVerticesChange={setSnapToVertices}
+        isTableOpen={isTableOpen}
+        onToggleTable={() => setIsTableOpen(!isTableOpen)}
+        raised={isTableOpen && tableDock === "bottom"}
+      >
+        {isMeasureTool(activeTool) && (
+          <MeasurementPanel
+            measurement={displayedMeasurement}
+            isDrawing={isDrawing}
+            units={measurementUnits}
+            activeProjectName={activeProjectId ? activeProjectName : null}
+            annotations={activeAnnotations}
+            onSave={handleSaveMeasurement}
+            onClear={() => setMeasurement(null)}
+            onRemoveAnnotation={(id) => activeProjectId && removeAnnotation(activeProjectId, id)}
+          />
+        )}
+      </MapToolbar>
+
+      {/* Attribute Table - rows follow the map filters and selection */}
+      {isTableOpen && (
+        <AttributeTable
+          rows={attributeTableRows}
+          selectedIds={selectedParcelIds}
+          focusId={selectedParcels.length > 0 ? selectedParcels[selectedParcels.length - 1].properties.OBJECTID : null}
+          dock={tableDock}
+          onDockChange={setTableDock}
+          viewportOnly={PARCEL_TILES_ENABLED || tableViewportOnly}
+          onViewportOnlyChange={PARCEL_TILES_ENABLED ? undefined : setTableViewportOnly}
+          bounds={viewBounds}
+          onSelect={handleTableSelect}
+          onClose={() => setIsTableOpen(false)}
+        />
+      )}
+
       {/* Search Bar */}
       <SearchBar
         parcelsData={parcelsData}
         addressesData={addressesData}
         starlinkData={starlinkData}
+        communitiesData={communitiesData}
+        ownerPortfolios={portfolioIndex}
+        searchRemoteParcels={PARCEL_TILES_ENABLED ? searchParcels : undefined}
         onResultSelect={handleSearchResult}
       />
 
@@ -909,6 +2137,27 @@ export default function MapView({
         onLoadProject={handleLoadProject}
         onRenameProject={handleRenameProject}
         onDeleteProject={handleDeleteProject}
+        onExportProject={handleExportProject}
+        parcelQuery={parcelQuery}
+        onApplyParcelQuery={PARCEL_TILES_ENABLED ? undefined : setParcelQuery}
+        queryPresets={queryPresets}
+        onSaveQueryPreset={saveQueryPreset}
+        onDeleteQueryPreset={deleteQueryPreset}
+        ownerRules={ownerRules}
+        ownerLookup={ownerLookup}
+        onApplyOwnerRules={saveOwnerRules}
+        onResetOwnerRules={resetOwnerRules}
+        parcelsData={parcelsData}
+        addressLookup={addressLookup}
+        onSelectAuditIssue={handleSelectAuditIssue}
+        onFindSites={adjacency ? handleFindSites : undefined}
+        displayedParcelCount={parcelsWithIds?.features.length ?? 0}
+        onLoadSite={handleLoadSite}
+        onSaveSite={handleSaveSite}
+        topologyReport={topologyReport}
+        onCheckTopology={classifiedParcels ? handleCheckTopology : undefined}
+        onSelectTopologyIssue={handleSelectTopologyIssue}
+        onClearTopology={clearTopology}
       />
 
       {/* Layer Controls - offset for nav rail */}
@@ -921,12 +2170,26 @@ export default function MapView({
         onToggleNemOnly={() => setNemOnly(!nemOnly)}
         ownersOnly={ownersOnly}
         onToggleOwnersOnly={() => setOwnersOnly(!ownersOnly)}
+        sizeMismatchOnly={sizeMismatchOnly}
+        onToggleSizeMismatchOnly={() => setSizeMismatchOnly(!sizeMismatchOnly)}
+        sizeMismatchThreshold={sizeMismatchThreshold}
+        onSizeMismatchThresholdChange={setSizeMismatchThreshold}
         visibleDivisions={visibleDivisions}
         onToggleDivision={(division: DivisionName) => setVisibleDivisions(prev => ({ ...prev, [division]: !prev[division] }))}
+        unmatchedCommunities={unmatchedCommunities}
         parcelCounts={parcelCounts}
         sizeRange={sizeRange}
         sizeBounds={sizeBounds}
         onSizeRangeChange={setSizeRange}
+        parcelColorMode={parcelColorMode}
+        onParcelColorModeChange={setParcelColorMode}
+        visibleAllocations={visibleAllocations}
+        onToggleAllocation={(allocation: ParcelAllocation) => setVisibleAllocations(prev => ({ ...prev, [allocation]: !prev[allocation] }))}
+        valueMetric={valueMetric}
+        onValueMetricChange={setValueMetric}
+        classificationMethod={classificationMethod}
+        onClassificationMethodChange={setClassificationMethod}
+        valueLegend={valueLegend}
       />
 
       {/* Stats Card - Top Right */}
@@ -936,26 +2199,112 @@ export default function MapView({
             <div className="text-2xl font-bold text-teal-400">
               {parcelCounts.displayed.toLocaleString()}
             </div>
-            <div className="text-xs text-slate-400">parcels shown</div>
+            <div className="text-xs text-slate-400">{tileSummary ? "parcels in dataset" : "parcels shown"}</div>
+          </div>
+          {parcelQuery && (
+            <div className="flex items-center gap-1.5 mt-1.5 max-w-[200px] text-xs text-purple-300">
+              <span className="truncate" title={describeParcelQuery(parcelQuery)}>
+                Query: {describeParcelQuery(parcelQuery)}
+              </span>
+              <button
+                onClick={() => setParcelQuery(null)}
+                className="text-slate-400 hover:text-white transition-colors"
+                title="Clear query"
+              >
+                ×
+              </button>
+            </div>
+          )}
+          {parcelsWithIds && (
+            <div className="flex justify-center mt-2">
+              <ExportMenu
+                onExport={handleExportFiltered}
+                label="Export"
+                title="Export the parcels shown as a spreadsheet or GIS file"
+                disabled={parcelsWithIds.features.length === 0}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Preprocessing progress - the map stays usable meanwhile */}
+      {preprocessingProgress && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 glass-panel rounded-xl px-4 py-2.5 w-64 pointer-events-none">
+          <div className="flex items-center justify-between text-xs text-slate-300 mb-1.5">
+            <span>Processing parcels…</span>
+            <span className="text-teal-400 font-medium">
+              {preprocessingProgress.total > 0 ? Math.round((preprocessingProgress.done / preprocessingProgress.total) * 100) : 0}%
+            </span>
+          </div>
+          <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-teal-500 transition-all duration-300"
+              style={{ width: `${preprocessingProgress.total > 0 ? (preprocessingProgress.done / preprocessingProgress.total) * 100 : 0}%` }}
+            />
           </div>
         </div>
       )}
 
+      {/* Preprocessing failure - parcels are only drawn once preprocessing succeeds, so say why they are missing */}
+      {preprocessingError && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 glass-panel rounded-xl px-4 py-2.5 w-80 border border-red-500/40">
+          <div className="text-xs text-red-400 font-medium mb-1">Parcel processing failed</div>
+          <div className="text-xs text-slate-400 mb-2">
+            Parcels, divisions, communities and the analyses that use them are unavailable. {preprocessingError}
+          </div>
+          <button
+            onClick={() => window.location.reload()}
+            className="text-xs text-teal-400 hover:text-teal-300 transition-colors"
+          >
+            Reload
+          </button>
+        </div>
+      )}
+
+      {/* Owner Portfolio Panel - takes over the right-hand panel while open */}
+      {activePortfolio && (
+        <OwnerPortfolioPanel
+          portfolio={activePortfolio}
+          ownerLookup={ownerLookup}
+          onSelectAll={handleSelectPortfolio}
+          onFlyToParcel={handleFlyToParcel}
+          onClose={() => setActivePortfolioKey(null)}
+        />
+      )}
+
+      {/* Community Summary Card - while no parcels are selected */}
+      {!activePortfolio && activeCommunity && selectedParcels.length === 0 && (
+        <CommunitySummaryCard
+          name={communityName(activeCommunity)}
+          division={communityDivisions[activeCommunityId!] ?? null}
+          stats={communityStats?.get(activeCommunityId!) ?? null}
+          addressCount={activeCommunityAddressCount}
+          onClose={() => setActiveCommunityId(null)}
+        />
+      )}
+
       {/* Details Panel - for single selection */}
-      {selectedParcels.length === 1 && (
+      {!activePortfolio && !activeCorridor && selectedParcels.length === 1 && (
         <DetailsPanel
           parcel={selectedParcels[0].properties}
           linkedAddress={selectedParcels[0].properties.LV_NUMBER ? addressLookup.get(selectedParcels[0].properties.LV_NUMBER) || null : null}
           owner={selectedParcels[0].properties.LV_NUMBER ? ownerLookup.get(selectedParcels[0].properties.LV_NUMBER) || null : null}
+          allocation={getParcelAllocation(selectedParcels[0].properties.LV_NUMBER, allocationLookup)}
+          geodesicArea={selectedParcelArea}
+          sizeMismatchThreshold={sizeMismatchThreshold}
+          portfolioParcelCount={portfolioIndex ? getPortfolioForLvNumber(selectedParcels[0].properties.LV_NUMBER, ownerLookup, portfolioIndex)?.parcels.length ?? 0 : 0}
+          onViewPortfolio={() => handleViewPortfolio(selectedParcels[0].properties.LV_NUMBER)}
           onClose={handleClosePanel}
         />
       )}
 
-      {/* Multi-Parcel Panel - for multi-selection */}
-      {selectedParcels.length >= 2 && (
+      {/* Multi-Parcel Panel - for multi-selection or a corridor schedule */}
+      {!activePortfolio && (selectedParcels.length >= 2 || (activeCorridor && selectedParcels.length >= 1)) && (
         <MultiParcelPanel
           selectedParcels={selectedParcels}
           ownerLookup={ownerLookup}
+          addressLookup={addressLookup}
           onRemoveParcel={handleRemoveParcel}
           onClearAll={handleCloseAndClearActive}
           onReorderParcels={handleReorderParcels}
@@ -965,6 +2314,16 @@ export default function MapView({
           activeProjectName={activeProjectName}
           onExportReport={handleExportReport}
           isExporting={isExporting}
+          onExportData={handleExportSelection}
+          corridor={activeCorridor}
+          site={siteAnalysis}
+          onGrowSite={handleGrowSite}
+          onAddParcel={handleAddParcel}
+          notification={notification}
+          onFindNeighbours={handleFindNeighbours}
+          letterTemplate={letterTemplate}
+          onLetterTemplateChange={saveLetterTemplate}
+          onResetLetterTemplate={resetLetterTemplate}
         />
       )}
     </div>
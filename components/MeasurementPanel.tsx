@@ -0,0 +1,90 @@
+"use client";
+
+import type { ProjectAnnotation } from "@/lib/types/project";
+import { formatMeasurement, measure, type Measurement, type MeasurementUnits } from "@/lib/geo/measure";
+
+interface MeasurementPanelProps {
+  measurement: Measurement | null;  // The finished shape, or the one being drawn
+  isDrawing: boolean;
+  units: MeasurementUnits;
+  activeProjectName: string | null;
+  annotations: ProjectAnnotation[];
+  onSave: () => void;
+  onClear: () => void;
+  onRemoveAnnotation: (id: string) => void;
+}
+
+const KIND_LABELS: Record<Measurement["kind"], string> = {
+  distance: "Distance",
+  area: "Area",
+};
+
+export default function MeasurementPanel({
+  measurement,
+  isDrawing,
+  units,
+  activeProjectName,
+  annotations,
+  onSave,
+  onClear,
+  onRemoveAnnotation,
+}: MeasurementPanelProps) {
+  return (
+    <div className="glass-panel rounded-xl p-3 w-72 space-y-2">
+      {/* Current measurement */}
+      {measurement ? (
+        <div>
+          <div className="text-xs text-slate-400">{KIND_LABELS[measurement.kind]}</div>
+          <div className="text-sm text-white font-medium">{formatMeasurement(measurement, units)}</div>
+        </div>
+      ) : (
+        <div className="text-xs text-slate-500">Nothing measured yet</div>
+      )}
+
+      {measurement && !isDrawing && (
+        <div className="flex gap-2">
+          <button
+            onClick={onSave}
+            disabled={!activeProjectName}
+            className="flex-1 px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition-colors"
+            title={activeProjectName ? `Save to "${activeProjectName}"` : "Load or save a project to keep measurements"}
+          >
+            Save to project
+          </button>
+          <button
+            onClick={onClear}
+            className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      {/* Measurements saved on the active project */}
+      {activeProjectName && annotations.length > 0 && (
+        <div className="pt-2 border-t border-slate-700/50">
+          <div className="text-xs text-slate-400 mb-1">Saved on {activeProjectName}</div>
+          <div className="max-h-32 overflow-y-auto space-y-1 scrollbar-thin">
+            {annotations.map(annotation => (
+              <div
+                key={annotation.id}
+                className="flex items-center justify-between gap-2 px-2 py-1 rounded bg-slate-800/60 text-xs"
+              >
+                <span className="text-slate-300 truncate">
+                  {formatMeasurement(measure(annotation.kind, annotation.coordinates), units)}
+                </span>
+                <button
+                  onClick={() => onRemoveAnnotation(annotation.id)}
+                  className="flex-shrink-0 text-slate-500 hover:text-red-400 transition-colors"
+                  title="Remove measurement"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
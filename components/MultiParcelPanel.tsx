@@ -3,11 +3,26 @@
 import { useState, useCallback, useRef, useEffect } from "react";
 import type { ParcelProperties } from "@/lib/data/parcels";
 import type { Owner } from "@/lib/data/owners";
+import { formatLandValue, sumLandValue } from "@/lib/data/owners";
+import { formatChainage, type CorridorAnalysis, type CorridorScheduleRow } from "@/lib/data/corridor";
+import type { SiteAnalysis } from "@/lib/data/site";
+import type { Address } from "@/lib/data/addresses";
+import {
+  DEFAULT_NOTIFICATION_DISTANCE_METERS,
+  groupRecipientsByOwner,
+  type NeighbourNotification,
+} from "@/lib/data/notification";
+import { LETTER_FIELD_LABELS, type LetterField } from "@/lib/data/letters";
+import { generateLetters, downloadLetters } from "@/lib/pdf/generateLetters";
+import { generateNotificationLetters, downloadNotificationLetters } from "@/lib/pdf/generateNotificationLetters";
+import { toCsv, downloadCsv } from "@/lib/export/csv";
 import type { SelectedParcel } from "./MapView";
+import ExportMenu, { type ExportFormat } from "./ExportMenu";
 
 interface MultiParcelPanelProps {
   selectedParcels: SelectedParcel[];
   ownerLookup: Map<string, Owner>;
+  addressLookup: Map<string, Address>;
   onRemoveParcel: (objectId: number) => void;
   onClearAll: () => void;
   onReorderParcels: (reorderedParcels: SelectedParcel[]) => void;
@@ -19,6 +34,340 @@ interface MultiParcelPanelProps {
   // Export functionality
   onExportReport: () => Promise<void>;
   isExporting: boolean;
+  onExportData: (format: ExportFormat) => Promise<void>;
+  // Corridor analysis the selection came from, if any
+  corridor?: CorridorAnalysis | null;
+  // Contiguity and neighbours (needs the full parcel dataset)
+  site?: SiteAnalysis | null;
+  onGrowSite?: (targetAcres: number) => void;
+  onAddParcel?: (objectId: number) => void;
+  // Owners to notify within a buffer of the selection
+  notification?: NeighbourNotification | null;
+  onFindNeighbours?: (distanceMeters: number) => Promise<void>;
+  // Mail-merge letter template with {{field}} placeholders
+  letterTemplate: string;
+  onLetterTemplateChange: (template: string) => void;
+  onResetLetterTemplate: () => void;
+}
+
+const LETTER_FIELDS = Object.keys(LETTER_FIELD_LABELS) as LetterField[];
+
+// Letter template editor and one-letter-per-owner PDF for the selection
+function LetterSection({
+  selectedParcels,
+  ownerLookup,
+  addressLookup,
+  template,
+  onTemplateChange,
+  onResetTemplate,
+  projectName,
+}: {
+  selectedParcels: SelectedParcel[];
+  ownerLookup: Map<string, Owner>;
+  addressLookup: Map<string, Address>;
+  template: string;
+  onTemplateChange: (template: string) => void;
+  onResetTemplate: () => void;
+  projectName: string;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const recipients = isOpen
+    ? groupRecipientsByOwner(selectedParcels.map(p => p.properties), ownerLookup, addressLookup)
+    : [];
+
+  // Insert a placeholder at the cursor
+  const insertField = (field: LetterField) => {
+    const textarea = textareaRef.current;
+    const placeholder = `{{${field}}}`;
+    if (!textarea) {
+      onTemplateChange(template + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    onTemplateChange(template.slice(0, selectionStart) + placeholder + template.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  const handleGenerate = () => {
+    downloadLetters(
+      generateLetters(recipients, template, ownerLookup, projectName),
+      `${projectName} owner letters`
+    );
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-700/50 space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-xs text-slate-400 hover:text-white transition-colors"
+      >
+        {isOpen ? "▾" : "▸"} Owner letters
+      </button>
+
+      {isOpen && (
+        <>
+          <textarea
+            ref={textareaRef}
+            value={template}
+            onChange={(e) => onTemplateChange(e.target.value)}
+            rows={10}
+            className="w-full px-2 py-1.5 text-xs font-mono bg-slate-800 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-purple-500 scrollbar-thin"
+          />
+          <div className="flex flex-wrap gap-1">
+            {LETTER_FIELDS.map(field => (
+              <button
+                key={field}
+                onClick={() => insertField(field)}
+                className="px-1.5 py-0.5 text-[10px] font-mono bg-slate-800 text-purple-300 hover:bg-purple-600 hover:text-white rounded transition-colors"
+                title={LETTER_FIELD_LABELS[field]}
+              >
+                {`{{${field}}}`}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleGenerate}
+              disabled={recipients.length === 0 || !template.trim()}
+              className="flex-1 px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 disabled:hover:bg-slate-700 text-white rounded-lg transition-colors"
+              title="One letter per owner; parcels held by the same owner share a letter"
+            >
+              Letters PDF ({recipients.length} {recipients.length === 1 ? "owner" : "owners"})
+            </button>
+            <button
+              onClick={() => {
+                if (confirm("Replace the letter template with the built-in default?")) onResetTemplate();
+              }}
+              className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Contiguity, neighbours and grow-to-acreage for the selection
+function SiteSection({
+  site,
+  selectedParcels,
+  totalAcres,
+  onGrowSite,
+  onAddParcel,
+}: {
+  site: SiteAnalysis;
+  selectedParcels: SelectedParcel[];
+  totalAcres: number;
+  onGrowSite?: (targetAcres: number) => void;
+  onAddParcel?: (objectId: number) => void;
+}) {
+  const [showNeighbours, setShowNeighbours] = useState(false);
+  const [targetAcres, setTargetAcres] = useState("");
+
+  const orderById: Record<number, number> = {};
+  selectedParcels.forEach(p => {
+    orderById[p.properties.OBJECTID] = p.selectionOrder;
+  });
+  const target = Number(targetAcres);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-700/50 space-y-2">
+      {/* Contiguity */}
+      {site.pieces.length <= 1 ? (
+        <p className="text-xs text-emerald-400">✓ Contiguous site</p>
+      ) : (
+        <div className="text-xs text-amber-400">
+          <p>⚠ {site.pieces.length} separate pieces</p>
+          <p className="text-amber-400/70 mt-0.5">
+            {site.pieces
+              .map(piece => piece.map(id => `#${orderById[id]}`).join(", "))
+              .join(" | ")}
+          </p>
+        </div>
+      )}
+
+      {/* Neighbours */}
+      <button
+        onClick={() => setShowNeighbours(!showNeighbours)}
+        className="text-xs text-slate-400 hover:text-white transition-colors"
+      >
+        {showNeighbours ? "▾" : "▸"} {site.neighbours.length} neighbouring parcels
+      </button>
+      {showNeighbours && (
+        <div className="max-h-40 overflow-y-auto space-y-1 scrollbar-thin">
+          {site.neighbours.map(({ parcel, owner }) => (
+            <div
+              key={parcel.properties.OBJECTID}
+              className="flex items-center justify-between gap-2 px-2 py-1 rounded bg-slate-800/60 text-xs"
+            >
+              <div className="min-w-0">
+                <div className="text-slate-300 truncate">{owner?.ownerName || "Unknown owner"}</div>
+                <div className="text-slate-500">{parcel.properties.PID || "—"} · {formatAcres(parcel.properties.SIZE_SQMT)}</div>
+              </div>
+              {onAddParcel && (
+                <button
+                  onClick={() => onAddParcel(parcel.properties.OBJECTID)}
+                  className="flex-shrink-0 px-2 py-0.5 text-purple-300 hover:text-white hover:bg-purple-600 rounded transition-colors"
+                  title="Add to selection"
+                >
+                  + Add
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Grow to target acreage */}
+      {onGrowSite && (
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={0}
+            value={targetAcres}
+            onChange={(e) => setTargetAcres(e.target.value)}
+            placeholder="Target acres"
+            className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-slate-800 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-purple-500"
+          />
+          <button
+            onClick={() => onGrowSite(target)}
+            disabled={!(target > totalAcres)}
+            className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 disabled:hover:bg-slate-700 text-white rounded-lg transition-colors"
+            title="Add neighbouring parcels until the site reaches the target"
+          >
+            Grow
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Owners within a buffer distance of the selection, exported as a mailing list or letters
+function NotifySection({
+  notification,
+  onFindNeighbours,
+  projectName,
+}: {
+  notification: NeighbourNotification | null;
+  onFindNeighbours: (distanceMeters: number) => Promise<void>;
+  projectName: string;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [distance, setDistance] = useState(String(DEFAULT_NOTIFICATION_DISTANCE_METERS));
+  const [isSearching, setIsSearching] = useState(false);
+  const distanceMeters = Number(distance);
+
+  const handleFind = async () => {
+    setIsSearching(true);
+    try {
+      await onFindNeighbours(distanceMeters);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!notification) return;
+    const csv = toCsv(
+      ["Owner", "Property Address", "Parcels", "PIDs", "LV Numbers", "Volume/Folio", "Acres"],
+      notification.recipients.map(recipient => [
+        recipient.ownerName,
+        recipient.propertyAddress,
+        recipient.parcels.length,
+        recipient.parcels.map(p => p.parcel.PID).filter(Boolean).join(" "),
+        Array.from(new Set(recipient.parcels.map(p => p.parcel.LV_NUMBER).filter(Boolean))).join(" "),
+        recipient.parcels.map(p => p.parcel.VOL_FOL).filter(Boolean).join(" "),
+        (recipient.parcels.reduce((sum, p) => sum + (p.parcel.SIZE_SQMT || 0), 0) / 4046.86).toFixed(3),
+      ])
+    );
+    downloadCsv(csv, `${projectName} mailing list.csv`);
+  };
+
+  const handleExportLetters = () => {
+    if (!notification) return;
+    downloadNotificationLetters(generateNotificationLetters(notification, projectName), projectName);
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-700/50 space-y-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-xs text-slate-400 hover:text-white transition-colors"
+      >
+        {isOpen ? "▾" : "▸"} Notify neighbours
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="flex gap-2">
+            <label className="flex-1 flex items-center gap-1.5 text-xs text-slate-400">
+              Within
+              <input
+                type="number"
+                min={0}
+                value={distance}
+                onChange={(e) => setDistance(e.target.value)}
+                className="w-20 px-2 py-1.5 text-sm bg-slate-800 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-purple-500"
+              />
+              m
+            </label>
+            <button
+              onClick={handleFind}
+              disabled={isSearching || !(distanceMeters >= 0) || distance === ""}
+              className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 disabled:hover:bg-slate-700 text-white rounded-lg transition-colors"
+              title="Find every parcel within this distance of the selection"
+            >
+              {isSearching ? "Finding..." : "Find owners"}
+            </button>
+          </div>
+
+          {notification && (
+            <>
+              <p className="text-xs text-slate-300">
+                {notification.recipients.length} owners · {notification.parcelCount} parcels within {notification.distanceMeters} m
+              </p>
+              {notification.recipients.length > 0 && (
+                <>
+                  <div className="max-h-32 overflow-y-auto space-y-1 scrollbar-thin">
+                    {notification.recipients.map(recipient => (
+                      <div key={recipient.key} className="px-2 py-1 rounded bg-slate-800/60 text-xs">
+                        <div className="text-slate-300 truncate">{recipient.ownerName}</div>
+                        <div className="text-slate-500 truncate">
+                          {recipient.parcels.length} {recipient.parcels.length === 1 ? "parcel" : "parcels"} · {recipient.propertyAddress || "No address on record"}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleExportCsv}
+                      className="flex-1 px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+                    >
+                      Mailing list CSV
+                    </button>
+                    <button
+                      onClick={handleExportLetters}
+                      className="flex-1 px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+                    >
+                      Letters PDF
+                    </button>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
 }
 
 // Export/PDF icon component
@@ -85,6 +434,7 @@ function DragHandleIcon() {
 function ParcelCard({
   selected,
   owner,
+  take,
   onRemove,
   index,
   onDragStart,
@@ -96,6 +446,7 @@ function ParcelCard({
 }: {
   selected: SelectedParcel;
   owner: Owner | null;
+  take?: CorridorScheduleRow;
   onRemove: () => void;
   index: number;
   onDragStart: (e: React.DragEvent, index: number) => void;
@@ -162,12 +513,36 @@ function ParcelCard({
           </div>
 
           {/* Size */}
-          <div className="flex items-center justify-between">
+          <div className="flex items-center justify-between mb-1">
             <span className="text-xs text-slate-400">Size</span>
             <span className="text-sm text-teal-400 font-medium">
               {formatAcres(parcel.SIZE_SQMT)}
             </span>
           </div>
+
+          {/* Land Value */}
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-400">Value</span>
+            <span className="text-sm text-amber-400">
+              {formatLandValue(owner?.landValueAmount)}
+            </span>
+          </div>
+
+          {/* Corridor take */}
+          {take && (
+            <div className="mt-2 pt-2 border-t border-slate-700/50 space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-400">Taken @ {formatChainage(take.chainage)}</span>
+                <span className="text-sm text-purple-300 font-medium">
+                  {formatAcres(take.areaTakenSqmt)} · {take.percentTaken.toFixed(1)}%
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-400">Pro-rata value</span>
+                <span className="text-sm text-amber-400">{formatLandValue(take.proRataValue)}</span>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Remove Button */}
@@ -201,6 +576,7 @@ function ParcelCard({
 export default function MultiParcelPanel({
   selectedParcels,
   ownerLookup,
+  addressLookup,
   onRemoveParcel,
   onClearAll,
   onReorderParcels,
@@ -210,6 +586,16 @@ export default function MultiParcelPanel({
   activeProjectName,
   onExportReport,
   isExporting,
+  onExportData,
+  corridor,
+  site,
+  onGrowSite,
+  onAddParcel,
+  notification,
+  onFindNeighbours,
+  letterTemplate,
+  onLetterTemplateChange,
+  onResetLetterTemplate,
 }: MultiParcelPanelProps) {
   const [copied, setCopied] = useState(false);
   const [showSaveInput, setShowSaveInput] = useState(false);
@@ -288,6 +674,12 @@ export default function MultiParcelPanel({
     return sum + (sqmt && !isNaN(sqmt) ? sqmt / 4046.86 : 0);
   }, 0);
 
+  // Land value counted once per valuation number (several parcels can share one LV)
+  const totalLandValue = sumLandValue(
+    selectedParcels.map(p => p.properties.LV_NUMBER),
+    ownerLookup
+  );
+
   // Format acres for copy
   const formatAcresValue = (sqmt: number | undefined): string => {
     if (!sqmt || isNaN(sqmt)) return "N/A";
@@ -307,19 +699,20 @@ export default function MultiParcelPanel({
         lvNumber: parcel.LV_NUMBER || "—",
         volFolio: parcel.VOL_FOL || "—",
         sizeAcres: formatAcresValue(parcel.SIZE_SQMT),
+        landValue: owner?.landValueAmount != null ? owner.landValueAmount.toFixed(2) : "N/A",
       };
     });
 
     // Plain text format
-    const plainText = `Multi-Parcel Selection (${selectedParcels.length} parcels, ${totalAcres.toFixed(1)} acres total)\n\n` +
+    const plainText = `Multi-Parcel Selection (${selectedParcels.length} parcels, ${totalAcres.toFixed(1)} acres total, ${formatLandValue(totalLandValue)} land value)\n\n` +
       parcels.map(p => 
-        `${p.order}. PID: ${p.pid}\n   Owner: ${p.owner}\n   LV #: ${p.lvNumber}\n   Vol/Folio: ${p.volFolio}\n   Size: ${p.sizeAcres} ac`
+        `${p.order}. PID: ${p.pid}\n   Owner: ${p.owner}\n   LV #: ${p.lvNumber}\n   Vol/Folio: ${p.volFolio}\n   Size: ${p.sizeAcres} ac\n   Land Value: ${p.landValue}`
       ).join('\n\n');
 
     // TSV format (for spreadsheets)
-    const tsvHeader = "#\tPID\tOwner\tLV #\tVol/Folio\tSize (ac)";
+    const tsvHeader = "#\tPID\tOwner\tLV #\tVol/Folio\tSize (ac)\tLand Value";
     const tsvRows = parcels.map(p => 
-      `${p.order}\t${p.pid}\t${p.owner}\t${p.lvNumber}\t${p.volFolio}\t${p.sizeAcres}`
+      `${p.order}\t${p.pid}\t${p.owner}\t${p.lvNumber}\t${p.volFolio}\t${p.sizeAcres}\t${p.landValue}`
     ).join('\n');
     const tsvText = `${tsvHeader}\n${tsvRows}`;
 
@@ -327,7 +720,7 @@ export default function MultiParcelPanel({
     const htmlTable = `
       <table style="border-collapse: collapse; font-family: Arial, sans-serif;">
         <caption style="font-weight: bold; margin-bottom: 8px; text-align: left;">
-          Multi-Parcel Selection (${selectedParcels.length} parcels, ${totalAcres.toFixed(1)} acres total)
+          Multi-Parcel Selection (${selectedParcels.length} parcels, ${totalAcres.toFixed(1)} acres total, ${formatLandValue(totalLandValue)} land value)
         </caption>
         <thead>
           <tr style="background-color: #1e293b; color: white;">
@@ -337,6 +730,7 @@ export default function MultiParcelPanel({
             <th style="border: 1px solid #334155; padding: 8px;">LV #</th>
             <th style="border: 1px solid #334155; padding: 8px;">Vol/Folio</th>
             <th style="border: 1px solid #334155; padding: 8px;">Size (ac)</th>
+            <th style="border: 1px solid #334155; padding: 8px;">Land Value</th>
           </tr>
         </thead>
         <tbody>
@@ -348,6 +742,7 @@ export default function MultiParcelPanel({
               <td style="border: 1px solid #cbd5e1; padding: 8px;">${p.lvNumber}</td>
               <td style="border: 1px solid #cbd5e1; padding: 8px;">${p.volFolio}</td>
               <td style="border: 1px solid #cbd5e1; padding: 8px; text-align: right;">${p.sizeAcres}</td>
+              <td style="border: 1px solid #cbd5e1; padding: 8px; text-align: right;">${p.landValue}</td>
             </tr>
           `).join('')}
         </tbody>
@@ -355,13 +750,14 @@ export default function MultiParcelPanel({
           <tr style="background-color: #0d9488; color: white; font-weight: bold;">
             <td colspan="5" style="border: 1px solid #334155; padding: 8px;">Total</td>
             <td style="border: 1px solid #334155; padding: 8px; text-align: right;">${totalAcres.toFixed(2)} ac</td>
+            <td style="border: 1px solid #334155; padding: 8px; text-align: right;">${formatLandValue(totalLandValue)}</td>
           </tr>
         </tfoot>
       </table>
     `;
 
     return { plainText, tsvText, htmlTable };
-  }, [selectedParcels, ownerLookup, totalAcres]);
+  }, [selectedParcels, ownerLookup, totalAcres, totalLandValue]);
 
   // Copy to clipboard
   const handleCopy = useCallback(async () => {
@@ -395,8 +791,14 @@ export default function MultiParcelPanel({
     }
   }, [generateCopyData]);
 
-  // Show panel for multi-selection (2+)
-  if (selectedParcels.length < 2) return null;
+  // Corridor takes by parcel
+  const takes: Record<number, CorridorScheduleRow> = {};
+  corridor?.rows.forEach(row => {
+    takes[row.parcel.properties.OBJECTID] = row;
+  });
+
+  // Show panel for multi-selection (2+), or any corridor result
+  if (selectedParcels.length < 2 && !corridor) return null;
 
   return (
     <>
@@ -413,11 +815,16 @@ export default function MultiParcelPanel({
           <div className="flex items-center justify-between">
             <div>
               <h2 className="text-lg font-semibold text-white">
-                {activeProjectName || "Multi-Parcel Project"}
+                {activeProjectName || (corridor ? "Road Corridor" : "Multi-Parcel Project")}
               </h2>
               <p className="text-xs text-slate-400 mt-0.5">
-                {selectedParcels.length} parcels · {totalAcres.toFixed(1)} acres total
+                {selectedParcels.length} parcels · {totalAcres.toFixed(1)} acres · {formatLandValue(totalLandValue)}
               </p>
+              {corridor && (
+                <p className="text-xs text-purple-300 mt-0.5">
+                  {(corridor.lengthMeters / 1000).toFixed(2)} km × {corridor.widthMeters} m · {formatAcres(corridor.totalAreaTakenSqmt)} taken · {formatLandValue(corridor.totalProRataValue)}
+                </p>
+              )}
             </div>
             <div className="flex items-center gap-2">
               <button
@@ -445,6 +852,10 @@ export default function MultiParcelPanel({
                 {isExporting ? <LoadingSpinner /> : <ExportIcon />}
                 {isExporting ? 'Exporting...' : 'Export'}
               </button>
+              <ExportMenu
+                onExport={onExportData}
+                title="Export the selection as a spreadsheet or GIS file"
+              />
               <button
                 onClick={onClearAll}
                 className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
@@ -454,6 +865,34 @@ export default function MultiParcelPanel({
             </div>
           </div>
 
+          {site && (
+            <SiteSection
+              site={site}
+              selectedParcels={selectedParcels}
+              totalAcres={totalAcres}
+              onGrowSite={onGrowSite}
+              onAddParcel={onAddParcel}
+            />
+          )}
+
+          {onFindNeighbours && (
+            <NotifySection
+              notification={notification ?? null}
+              onFindNeighbours={onFindNeighbours}
+              projectName={activeProjectName || "Multi-Parcel Project"}
+            />
+          )}
+
+          <LetterSection
+            selectedParcels={selectedParcels}
+            ownerLookup={ownerLookup}
+            addressLookup={addressLookup}
+            template={letterTemplate}
+            onTemplateChange={onLetterTemplateChange}
+            onResetTemplate={onResetLetterTemplate}
+            projectName={activeProjectName || "Multi-Parcel Project"}
+          />
+
           {/* Save/Update Section */}
           <div className="mt-3 pt-3 border-t border-slate-700/50">
             {showSaveInput ? (
@@ -536,6 +975,7 @@ export default function MultiParcelPanel({
                   ? ownerLookup.get(selected.properties.LV_NUMBER) || null
                   : null
               }
+              take={takes[selected.properties.OBJECTID]}
               onRemove={() => onRemoveParcel(selected.properties.OBJECTID)}
               index={index}
               onDragStart={handleDragStart}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import type { ParcelFeature } from "@/lib/data/parcels";
+import type { Owner } from "@/lib/data/owners";
+import { formatLandValue } from "@/lib/data/owners";
+import type { OwnerPortfolio } from "@/lib/data/portfolio";
+
+interface OwnerPortfolioPanelProps {
+  portfolio: OwnerPortfolio;
+  ownerLookup: Map<string, Owner>;
+  onSelectAll: () => void;
+  onFlyToParcel: (parcel: ParcelFeature) => void;
+  onClose: () => void;
+}
+
+type SortKey = "size" | "value" | "pid";
+
+function formatAcres(sqmt: number | undefined): string {
+  if (!sqmt || isNaN(sqmt)) return "N/A";
+  const acres = sqmt / 4046.86;
+  if (acres >= 10) return `${acres.toFixed(0)} ac`;
+  if (acres >= 1) return `${acres.toFixed(1)} ac`;
+  return `${acres.toFixed(2)} ac`;
+}
+
+export default function OwnerPortfolioPanel({
+  portfolio,
+  ownerLookup,
+  onSelectAll,
+  onFlyToParcel,
+  onClose,
+}: OwnerPortfolioPanelProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("size");
+
+  const landValueFor = (parcel: ParcelFeature): number | null => {
+    const lv = parcel.properties.LV_NUMBER;
+    const owner = lv ? ownerLookup.get(lv) : null;
+    return owner ? owner.landValueAmount : null;
+  };
+
+  const sortedParcels = [...portfolio.parcels].sort((a, b) => {
+    switch (sortKey) {
+      case "size":
+        return (b.properties.SIZE_SQMT || 0) - (a.properties.SIZE_SQMT || 0);
+      case "value":
+        return (landValueFor(b) ?? 0) - (landValueFor(a) ?? 0);
+      case "pid":
+        return (a.properties.PID || "").localeCompare(b.properties.PID || "");
+    }
+  });
+
+  const totalAcres = portfolio.totalSqmt / 4046.86;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/30 z-20 md:hidden"
+        onClick={onClose}
+      />
+
+      {/* Panel */}
+      <div className="absolute right-4 top-4 w-full max-w-sm z-30 glass-panel rounded-xl overflow-hidden flex flex-col animate-slide-in max-h-[calc(100vh-100px)]">
+        {/* Header */}
+        <div className="p-4 border-b border-slate-700">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <div className="text-xs text-slate-400 uppercase tracking-wider mb-1">Owner Portfolio</div>
+              <h2 className="text-lg font-semibold text-white truncate" title={portfolio.displayName}>
+                {portfolio.displayName}
+              </h2>
+              <p className="text-xs text-slate-400 mt-0.5">
+                {portfolio.parcels.length} parcels · {totalAcres.toFixed(1)} acres · {formatLandValue(portfolio.totalLandValue)}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-slate-700 transition-colors flex-shrink-0"
+            >
+              <svg className="w-5 h-5 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {portfolio.nameVariants.length > 1 && (
+            <div className="mt-2 text-xs text-slate-500">
+              Also recorded as: {portfolio.nameVariants.slice(1).join("; ")}
+            </div>
+          )}
+
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={onSelectAll}
+              className="flex-1 px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-500 text-white rounded-lg transition-colors"
+              title="Replace the current selection with every parcel in this portfolio"
+            >
+              Select all {portfolio.parcels.length} parcels
+            </button>
+            <select
+              value={sortKey}
+              onChange={(e) => setSortKey(e.target.value as SortKey)}
+              className="px-2 py-1.5 text-xs bg-slate-800 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-purple-500"
+            >
+              <option value="size">Sort by size</option>
+              <option value="value">Sort by value</option>
+              <option value="pid">Sort by PID</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Parcel list */}
+        <div className="flex-1 overflow-y-auto p-3 space-y-1.5 scrollbar-thin">
+          {sortedParcels.map((parcel) => (
+            <button
+              key={parcel.properties.OBJECTID}
+              onClick={() => onFlyToParcel(parcel)}
+              className="w-full text-left glass-panel rounded-lg px-3 py-2 border border-slate-700/50 hover:border-amber-500/50 transition-colors"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-white font-medium">{parcel.properties.PID || "—"}</span>
+                <span className="text-sm text-teal-400">{formatAcres(parcel.properties.SIZE_SQMT)}</span>
+              </div>
+              <div className="flex items-center justify-between text-xs text-slate-400 mt-0.5">
+                <span className="truncate">LV {parcel.properties.LV_NUMBER} · {parcel.properties.LOCATION || parcel.properties.VOL_FOL || ""}</span>
+                <span className="flex-shrink-0 ml-2">{formatLandValue(landValueFor(parcel))}</span>
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-3 border-t border-slate-700 text-xs text-slate-500 text-center">
+          {portfolio.lvNumbers.length} valuation numbers · highlighted in amber on the map
+        </div>
+      </div>
+
+      <style jsx>{`
+        @keyframes slideIn {
+          from {
+            transform: translateX(100%);
+          }
+          to {
+            transform: translateX(0);
+          }
+        }
+        .animate-slide-in {
+          animation: slideIn 0.3s ease-out;
+        }
+      `}</style>
+    </>
+  );
+}
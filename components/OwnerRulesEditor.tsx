@@ -0,0 +1,300 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import type { Owner } from "@/lib/data/owners";
+import type { OwnerRule, OwnerRuleMatchType } from "@/lib/types/ownerRules";
+import {
+  countOwnerRuleMatches,
+  OWNER_RULE_MATCH_TYPE_LABELS,
+  type OwnerRuleMatchStats,
+} from "@/lib/data/ownerRules";
+import {
+  ALLOCATION_COLORS,
+  ALLOCATION_LABELS,
+  type ParcelAllocation,
+} from "@/lib/data/allocation";
+import { generateId } from "@/lib/utils/generateId";
+
+interface OwnerRulesEditorProps {
+  rules: OwnerRule[];
+  ownerLookup: Map<string, Owner>;
+  onApply: (rules: OwnerRule[]) => void;
+  onReset: () => void;
+}
+
+// Share of all owner records above which a rule is flagged as possibly over-broad
+const OVER_BROAD_SHARE = 0.05;
+
+const MATCH_TYPES: OwnerRuleMatchType[] = ["exact", "prefix", "regex", "lvList"];
+const RULE_ALLOCATIONS: ParcelAllocation[] = ["government", "bauxite", "private"];
+
+function RuleRow({
+  rule,
+  stats,
+  totalOwners,
+  isFirst,
+  isLast,
+  onChange,
+  onMove,
+  onDelete,
+}: {
+  rule: OwnerRule;
+  stats: OwnerRuleMatchStats | undefined;
+  totalOwners: number;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (rule: OwnerRule) => void;
+  onMove: (direction: -1 | 1) => void;
+  onDelete: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(!rule.pattern);
+  const isOverBroad = !!stats && totalOwners > 0 && stats.owners / totalOwners > OVER_BROAD_SHARE;
+
+  return (
+    <div
+      className={`rounded-lg p-2.5 border ${
+        stats?.error
+          ? "border-red-500/50 bg-red-500/5"
+          : isOverBroad
+            ? "border-amber-500/50 bg-amber-500/5"
+            : "border-slate-700/50 bg-slate-800/50"
+      } ${rule.enabled ? "" : "opacity-60"}`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className="flex-1 min-w-0 text-left"
+        >
+          <div className="flex items-center gap-2">
+            <span
+              className="w-2 h-2 rounded-full flex-shrink-0"
+              style={{ backgroundColor: ALLOCATION_COLORS[rule.allocation] }}
+            />
+            <span className="text-sm text-white font-medium truncate">
+              {rule.label || "Untitled rule"}
+            </span>
+          </div>
+          <div className="text-xs text-slate-500 mt-0.5 truncate">
+            {OWNER_RULE_MATCH_TYPE_LABELS[rule.matchType]} · {rule.pattern || "—"}
+          </div>
+        </button>
+        <div className="flex items-center gap-0.5 flex-shrink-0">
+          <button
+            onClick={() => onMove(-1)}
+            disabled={isFirst}
+            className="p-1 text-slate-400 hover:text-white disabled:opacity-30 rounded transition-colors"
+            title="Move up (evaluated earlier)"
+          >
+            ↑
+          </button>
+          <button
+            onClick={() => onMove(1)}
+            disabled={isLast}
+            className="p-1 text-slate-400 hover:text-white disabled:opacity-30 rounded transition-colors"
+            title="Move down (evaluated later)"
+          >
+            ↓
+          </button>
+          <div
+            onClick={() => onChange({ ...rule, enabled: !rule.enabled })}
+            className={`toggle-switch ${rule.enabled ? "active" : ""}`}
+            style={{ transform: "scale(0.6)" }}
+            title={rule.enabled ? "Disable rule" : "Enable rule"}
+          />
+        </div>
+      </div>
+
+      {/* Match counts */}
+      <div className="mt-1.5 text-xs">
+        {stats?.error ? (
+          <span className="text-red-400">{stats.error}</span>
+        ) : (
+          <span className={isOverBroad ? "text-amber-400" : "text-slate-400"}>
+            Matches {stats?.owners.toLocaleString() ?? 0} owners
+            {stats && stats.effective !== stats.owners && rule.enabled && (
+              <> · {stats.effective.toLocaleString()} after earlier rules</>
+            )}
+            {isOverBroad && " · possibly over-broad"}
+          </span>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="mt-2 pt-2 border-t border-slate-700/50 space-y-2">
+          <input
+            type="text"
+            value={rule.label}
+            onChange={(e) => onChange({ ...rule, label: e.target.value })}
+            placeholder="Rule label"
+            className="w-full px-2 py-1 text-sm bg-slate-900 border border-slate-600 rounded text-white placeholder-slate-500 focus:outline-none focus:border-purple-500"
+          />
+          <div className="flex gap-2">
+            <select
+              value={rule.matchType}
+              onChange={(e) => onChange({ ...rule, matchType: e.target.value as OwnerRuleMatchType })}
+              className="flex-1 px-2 py-1 text-xs bg-slate-900 border border-slate-600 rounded text-white focus:outline-none focus:border-purple-500"
+            >
+              {MATCH_TYPES.map((type) => (
+                <option key={type} value={type}>{OWNER_RULE_MATCH_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <select
+              value={rule.allocation}
+              onChange={(e) => onChange({ ...rule, allocation: e.target.value as ParcelAllocation })}
+              className="flex-1 px-2 py-1 text-xs bg-slate-900 border border-slate-600 rounded text-white focus:outline-none focus:border-purple-500"
+            >
+              {RULE_ALLOCATIONS.map((allocation) => (
+                <option key={allocation} value={allocation}>{ALLOCATION_LABELS[allocation]}</option>
+              ))}
+            </select>
+          </div>
+          {rule.matchType === "lvList" ? (
+            <textarea
+              value={rule.pattern}
+              onChange={(e) => onChange({ ...rule, pattern: e.target.value })}
+              placeholder="LV numbers, one per line or comma-separated"
+              rows={3}
+              className="w-full px-2 py-1 text-xs font-mono bg-slate-900 border border-slate-600 rounded text-white placeholder-slate-500 focus:outline-none focus:border-purple-500"
+            />
+          ) : (
+            <input
+              type="text"
+              value={rule.pattern}
+              onChange={(e) => onChange({ ...rule, pattern: e.target.value })}
+              placeholder={rule.matchType === "regex" ? "e.g. \\bALPART\\b" : "Owner name"}
+              className="w-full px-2 py-1 text-xs font-mono bg-slate-900 border border-slate-600 rounded text-white placeholder-slate-500 focus:outline-none focus:border-purple-500"
+            />
+          )}
+          {stats && stats.sampleNames.length > 0 && (
+            <div className="text-xs text-slate-500">
+              e.g. {stats.sampleNames.join(", ")}
+            </div>
+          )}
+          <button
+            onClick={() => {
+              if (confirm(`Delete rule "${rule.label || "Untitled rule"}"?`)) {
+                onDelete();
+              }
+            }}
+            className="text-xs text-red-400 hover:text-red-300 transition-colors"
+          >
+            Delete rule
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function OwnerRulesEditor({
+  rules,
+  ownerLookup,
+  onApply,
+  onReset,
+}: OwnerRulesEditorProps) {
+  // Edits are made to a draft so match counts can be reviewed before recolouring the map
+  const [draft, setDraft] = useState<OwnerRule[]>(rules);
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const matchStats = useMemo(
+    () => countOwnerRuleMatches(draft, ownerLookup),
+    [draft, ownerLookup]
+  );
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+  const hasErrors = Object.values(matchStats).some(stats => stats.error);
+
+  const updateRule = (updated: OwnerRule) => {
+    setDraft(prev => prev.map(rule => (rule.id === updated.id ? updated : rule)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    setDraft(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const addRule = () => {
+    setDraft(prev => [
+      ...prev,
+      {
+        id: generateId(),
+        label: "",
+        matchType: "prefix",
+        pattern: "",
+        allocation: "government",
+        enabled: true,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400">
+          Owner Classification Rules
+        </h3>
+        <p className="text-xs text-slate-500 mt-1">
+          Evaluated top to bottom; the first matching rule sets the allocation. Unmatched owners are private.
+        </p>
+      </div>
+
+      <div className="space-y-1.5">
+        {draft.map((rule, index) => (
+          <RuleRow
+            key={rule.id}
+            rule={rule}
+            stats={matchStats[rule.id]}
+            totalOwners={ownerLookup.size}
+            isFirst={index === 0}
+            isLast={index === draft.length - 1}
+            onChange={updateRule}
+            onMove={(direction) => moveRule(index, direction)}
+            onDelete={() => setDraft(prev => prev.filter(r => r.id !== rule.id))}
+          />
+        ))}
+      </div>
+
+      <button
+        onClick={addRule}
+        className="w-full px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+      >
+        + Add rule
+      </button>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onApply(draft)}
+          disabled={!isDirty || hasErrors}
+          className="flex-1 px-3 py-1.5 text-xs bg-purple-600 hover:bg-purple-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition-colors"
+        >
+          Apply
+        </button>
+        <button
+          onClick={() => setDraft(rules)}
+          disabled={!isDirty}
+          className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 text-white rounded-lg transition-colors"
+        >
+          Discard
+        </button>
+        <button
+          onClick={() => {
+            if (confirm("Replace all rules with the built-in defaults?")) {
+              onReset();
+            }
+          }}
+          className="px-3 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+        >
+          Defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import type {
+  ParcelQuery,
+  ParcelQueryCondition,
+  ParcelQueryField,
+  ParcelQueryGroup,
+  ParcelQueryJoin,
+  ParcelQueryOperator,
+  ParcelQueryPreset,
+} from "@/lib/types/parcelQuery";
+import {
+  createParcelQuery,
+  createQueryCondition,
+  createQueryGroup,
+  describeParcelQuery,
+  isQueryEmpty,
+  operatorsForField,
+  queryFieldsFrom,
+  validateParcelQuery,
+  PARCEL_QUERY_FIELDS,
+  PARCEL_QUERY_OPERATOR_LABELS,
+  PARCEL_QUERY_SOURCES,
+  PARCEL_QUERY_SOURCE_LABELS,
+} from "@/lib/data/parcelQuery";
+
+interface QueryBuilderPanelProps {
+  query: ParcelQuery | null;  // The query applied to the map
+  // Undefined when the full parcel dataset is not loaded in the browser (e.g. vector-tile mode)
+  onApply?: (query: ParcelQuery | null) => void;
+  displayedParcelCount: number;
+  presets: ParcelQueryPreset[];
+  onSavePreset: (name: string, query: ParcelQuery) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+const INPUT_CLASS = "px-2 py-1 text-xs bg-slate-900 border border-slate-600 rounded text-white placeholder-slate-500 focus:outline-none focus:border-purple-500";
+
+function JoinToggle({ join, onChange }: { join: ParcelQueryJoin; onChange: (join: ParcelQueryJoin) => void }) {
+  return (
+    <div className="inline-flex rounded-md bg-slate-800 p-0.5">
+      {(["and", "or"] as const).map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`px-2 py-0.5 text-[10px] font-semibold rounded transition-colors ${
+            join === option ? "bg-purple-600 text-white" : "text-slate-400 hover:text-white"
+          }`}
+        >
+          {option.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ConditionRow({
+  condition,
+  error,
+  onChange,
+  onDelete,
+}: {
+  condition: ParcelQueryCondition;
+  error: string | undefined;
+  onChange: (condition: ParcelQueryCondition) => void;
+  onDelete: () => void;
+}) {
+  const operators = operatorsForField(condition.field);
+  const isNumber = PARCEL_QUERY_FIELDS[condition.field].type === "number";
+  const needsValue = condition.operator !== "empty" && condition.operator !== "notEmpty";
+
+  const changeField = (field: ParcelQueryField) => {
+    // Keep the operator when the new field's type supports it
+    const operator = operatorsForField(field).includes(condition.operator) ? condition.operator : operatorsForField(field)[0];
+    onChange({ ...condition, field, operator });
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1.5">
+        <select
+          value={condition.field}
+          onChange={(e) => changeField(e.target.value as ParcelQueryField)}
+          className={`flex-1 min-w-0 ${INPUT_CLASS}`}
+        >
+          {PARCEL_QUERY_SOURCES.map(source => (
+            <optgroup key={source} label={PARCEL_QUERY_SOURCE_LABELS[source]}>
+              {queryFieldsFrom(source).map(field => (
+                <option key={field} value={field}>{PARCEL_QUERY_FIELDS[field].label}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <select
+          value={condition.operator}
+          onChange={(e) => onChange({ ...condition, operator: e.target.value as ParcelQueryOperator })}
+          className={`w-28 ${INPUT_CLASS}`}
+        >
+          {operators.map(operator => (
+            <option key={operator} value={operator}>{PARCEL_QUERY_OPERATOR_LABELS[operator]}</option>
+          ))}
+        </select>
+        <button
+          onClick={onDelete}
+          className="p-1 text-slate-500 hover:text-red-400 rounded transition-colors"
+          title="Remove condition"
+        >
+          ×
+        </button>
+      </div>
+
+      {needsValue && (
+        condition.operator === "range" ? (
+          <div className="flex items-center gap-1.5">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={condition.value}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+              placeholder="Min"
+              className={`flex-1 min-w-0 ${INPUT_CLASS}`}
+            />
+            <span className="text-xs text-slate-500">to</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={condition.max}
+              onChange={(e) => onChange({ ...condition, max: e.target.value })}
+              placeholder="Max"
+              className={`flex-1 min-w-0 ${INPUT_CLASS}`}
+            />
+          </div>
+        ) : (
+          <input
+            type="text"
+            inputMode={isNumber ? "decimal" : undefined}
+            value={condition.value}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            placeholder={condition.operator === "regex" ? "e.g. \\bALPART\\b" : isNumber ? "Number" : "Text"}
+            className={`w-full ${condition.operator === "regex" ? "font-mono " : ""}${INPUT_CLASS}`}
+          />
+        )
+      )}
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+export default function QueryBuilderPanel({
+  query,
+  onApply,
+  displayedParcelCount,
+  presets,
+  onSavePreset,
+  onDeletePreset,
+}: QueryBuilderPanelProps) {
+  // Edits are made to a draft; the map only refilters on Apply
+  const [draft, setDraft] = useState<ParcelQuery>(query || createParcelQuery());
+  const [presetName, setPresetName] = useState("");
+
+  useEffect(() => {
+    if (query) setDraft(query);
+  }, [query]);
+
+  const errors = useMemo(() => validateParcelQuery(draft), [draft]);
+  const hasErrors = Object.keys(errors).length > 0;
+  const isEmpty = isQueryEmpty(draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(query);
+
+  const updateGroup = (updated: ParcelQueryGroup) => {
+    setDraft(prev => ({ ...prev, groups: prev.groups.map(group => group.id === updated.id ? updated : group) }));
+  };
+
+  const removeGroup = (id: string) => {
+    setDraft(prev => ({ ...prev, groups: prev.groups.filter(group => group.id !== id) }));
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim() || hasErrors || isEmpty) return;
+    onSavePreset(presetName, draft);
+    setPresetName("");
+  };
+
+  const handleClear = () => {
+    setDraft(createParcelQuery());
+    onApply?.(null);
+  };
+
+  if (!onApply) {
+    return (
+      <div className="text-xs text-slate-500 text-center py-6 px-3">
+        The query builder needs the full parcel dataset loaded in the browser
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 pb-2">
+      <div>
+        <div className="text-sm text-white font-medium">Parcel Query</div>
+        <div className="text-xs text-slate-500">
+          Filter the map, counts and exports by parcel, owner and linked address fields, on top of the layer filters
+        </div>
+      </div>
+
+      {/* Groups */}
+      <div className="space-y-2">
+        {draft.groups.map((group, index) => (
+          <div key={group.id}>
+            {index > 0 && (
+              <div className="flex justify-center mb-2">
+                <JoinToggle join={draft.join} onChange={(join) => setDraft(prev => ({ ...prev, join }))} />
+              </div>
+            )}
+            <div className="rounded-lg p-2.5 border border-slate-700/50 bg-slate-800/50 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  Match
+                  <JoinToggle join={group.join} onChange={(join) => updateGroup({ ...group, join })} />
+                  of
+                </div>
+                {draft.groups.length > 1 && (
+                  <button
+                    onClick={() => removeGroup(group.id)}
+                    className="text-xs text-slate-500 hover:text-red-400 transition-colors"
+                  >
+                    Remove group
+                  </button>
+                )}
+              </div>
+
+              {group.conditions.map(condition => (
+                <ConditionRow
+                  key={condition.id}
+                  condition={condition}
+                  error={errors[condition.id]}
+                  onChange={(updated) => updateGroup({
+                    ...group,
+                    conditions: group.conditions.map(c => c.id === updated.id ? updated : c),
+                  })}
+                  onDelete={() => updateGroup({ ...group, conditions: group.conditions.filter(c => c.id !== condition.id) })}
+                />
+              ))}
+
+              <button
+                onClick={() => updateGroup({ ...group, conditions: [...group.conditions, createQueryCondition()] })}
+                className="text-xs text-purple-400 hover:text-purple-300 transition-colors"
+              >
+                + Condition
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={() => setDraft(prev => ({ ...prev, groups: [...prev.groups, createQueryGroup()] }))}
+          className="w-full py-1.5 text-xs text-slate-400 hover:text-white border border-dashed border-slate-600 hover:border-slate-500 rounded-lg transition-colors"
+        >
+          + Group
+        </button>
+      </div>
+
+      {!isEmpty && (
+        <div className="text-xs text-slate-400 break-words">{describeParcelQuery(draft)}</div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onApply(isEmpty ? null : draft)}
+          disabled={hasErrors || !isDirty}
+          className="flex-1 py-2 text-sm bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+        >
+          Apply
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={!query && isEmpty}
+          className="px-3 py-2 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+        >
+          Clear
+        </button>
+      </div>
+
+      {query && (
+        <div className="text-xs text-teal-400">
+          {displayedParcelCount.toLocaleString()} parcels shown{isDirty && " · unapplied changes"}
+        </div>
+      )}
+
+      {/* Presets */}
+      <div className="pt-3 border-t border-slate-700/50 space-y-2">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-400">Saved Queries</h3>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSavePreset()}
+            placeholder="Preset name"
+            className={`flex-1 min-w-0 ${INPUT_CLASS}`}
+          />
+          <button
+            onClick={handleSavePreset}
+            disabled={!presetName.trim() || hasErrors || isEmpty}
+            className="px-3 py-1 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            Save
+          </button>
+        </div>
+
+        {presets.length === 0 ? (
+          <div className="text-xs text-slate-500">No saved queries yet</div>
+        ) : (
+          <div className="space-y-1">
+            {presets.map(preset => (
+              <div key={preset.id} className="group flex items-start gap-2 rounded-lg px-2.5 py-1.5 hover:bg-slate-700/50">
+                <button
+                  onClick={() => {
+                    setDraft(preset.query);
+                    onApply(preset.query);
+                  }}
+                  className="flex-1 min-w-0 text-left"
+                  title="Apply this query"
+                >
+                  <div className="text-sm text-white truncate">{preset.name}</div>
+                  <div className="text-xs text-slate-500 truncate">{describeParcelQuery(preset.query)}</div>
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm(`Delete saved query "${preset.name}"?`)) onDeletePreset(preset.id);
+                  }}
+                  className="p-1 text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 rounded transition-all"
+                  title="Delete preset"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,17 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import type { FeatureCollection, Point, Polygon } from "geojson";
-import type { ParcelProperties } from "@/lib/data/parcels";
+import type { FeatureCollection, MultiPolygon, Point, Polygon } from "geojson";
+import centroid from "@turf/centroid";
+import type { ParcelFeature, ParcelFeatureCollection } from "@/lib/data/parcels";
+import { formatParcelSize } from "@/lib/data/parcels";
+import { searchOwnerPortfolios, type OwnerPortfolio } from "@/lib/data/portfolio";
 import type { DivisionName } from "@/lib/geo/electoral-divisions";
-import { ELECTORAL_DIVISION_COLORS } from "@/lib/geo/electoral-divisions";
+import { ELECTORAL_DIVISION_COLORS, communityId, communityName } from "@/lib/geo/electoral-divisions";
+import { labelPoint } from "@/lib/geo/labelPoint";
 
 // Search result types
-export type SearchResultType = "parcel" | "address" | "division" | "starlink";
+export type SearchResultType = "parcel" | "owner" | "address" | "division" | "community" | "starlink";
 
 export interface SearchResult {
   id: string;
@@ -20,12 +24,47 @@ export interface SearchResult {
 }
 
 interface SearchBarProps {
-  parcelsData: FeatureCollection<Polygon, ParcelProperties> | null;
+  parcelsData: ParcelFeatureCollection | null;
   addressesData: FeatureCollection<Point> | null;
   starlinkData: FeatureCollection<Point> | null;
+  communitiesData: FeatureCollection<Polygon | MultiPolygon> | null;
+  ownerPortfolios: Map<string, OwnerPortfolio> | null;
+  searchRemoteParcels?: (query: string, limit: number) => Promise<ParcelFeature[]>;  // Vector-tile mode
   onResultSelect: (result: SearchResult) => void;
 }
 
+const MAX_PER_CATEGORY = 5;
+
+// Builds a parcel result when one of its address/reference fields matches the query
+function matchParcel(feature: ParcelFeature, q: string): SearchResult | null {
+  const props = feature.properties;
+
+  const searchableFields = [
+    { field: "LV Number", value: props.LV_NUMBER },
+    { field: "PID", value: props.PID },
+    { field: "Vol/Folio", value: props.VOL_FOL },
+    { field: "Street Address", value: props.STREET_ADD },
+    { field: "Scheme Address", value: props.SCHEME_ADD },
+    { field: "Full Address", value: props.FULLADDRES },
+    { field: "Location", value: props.LOCATION },
+  ];
+
+  for (const { field, value } of searchableFields) {
+    if (value && value.toLowerCase().includes(q)) {
+      return {
+        id: `parcel-${props.OBJECTID}`,
+        type: "parcel",
+        title: props.SCHEME_ADD || props.STREET_ADD || `Parcel ${props.PID}`,
+        subtitle: props.LV_NUMBER ? `LV: ${props.LV_NUMBER}` : props.LOCATION,
+        matchedField: field,
+        coordinates: labelPoint(feature.geometry),
+        data: feature,
+      };
+    }
+  }
+  return null;
+}
+
 // Debounce hook
 function useDebounce<T>(value: T, delay: number): T {
   const [debouncedValue, setDebouncedValue] = useState<T>(value);
@@ -77,6 +116,14 @@ function ParcelIcon() {
   );
 }
 
+function OwnerIcon() {
+  return (
+    <svg className="w-3.5 h-3.5 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+    </svg>
+  );
+}
+
 function AddressIcon() {
   return (
     <svg width="14" height="14" viewBox="0 0 14 14" className="text-amber-400">
@@ -99,6 +146,20 @@ function DivisionIcon({ color }: { color: string }) {
   );
 }
 
+function CommunityIcon() {
+  return (
+    <svg width="14" height="12" viewBox="0 0 16 14" className="text-slate-200">
+      <polygon
+        points="2,12 1,5 4,1 12,2 15,7 13,12 6,13"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="1.5"
+        strokeDasharray="3 2"
+      />
+    </svg>
+  );
+}
+
 function StarlinkIcon() {
   return (
     <svg width="14" height="14" viewBox="0 0 16 16" className="text-cyan-400">
@@ -113,6 +174,9 @@ export default function SearchBar({
   parcelsData,
   addressesData,
   starlinkData,
+  communitiesData,
+  ownerPortfolios,
+  searchRemoteParcels,
   onResultSelect,
 }: SearchBarProps) {
   const [query, setQuery] = useState("");
@@ -130,7 +194,6 @@ export default function SearchBar({
 
     const q = searchQuery.toLowerCase().trim();
     const searchResults: SearchResult[] = [];
-    const MAX_PER_CATEGORY = 5;
 
     // Search divisions first (quick)
     const divisions: DivisionName[] = ["CRAIGHEAD", "CHRISTIANA", "WALDERSTON"];
@@ -154,6 +217,28 @@ export default function SearchBar({
       }
     });
 
+    // Search communities
+    if (communitiesData) {
+      let communityCount = 0;
+      for (const feature of communitiesData.features) {
+        if (communityCount >= MAX_PER_CATEGORY) break;
+        const name = communityName(feature);
+        const id = communityId(feature);
+        if (id !== null && name.toLowerCase().includes(q)) {
+          searchResults.push({
+            id: `community-${id}`,
+            type: "community",
+            title: name,
+            subtitle: "Community",
+            matchedField: "Community name",
+            coordinates: centroid(feature).geometry.coordinates as [number, number],
+            data: id,
+          });
+          communityCount++;
+        }
+      }
+    }
+
     // Search Starlink sites
     if (starlinkData) {
       let starlinkCount = 0;
@@ -176,41 +261,34 @@ export default function SearchBar({
       }
     }
 
+    // Search owners (normalized names, tolerating small spelling differences).
+    // Results carry the portfolio itself; owners without parcels have nothing to select.
+    if (ownerPortfolios) {
+      const portfolios = searchOwnerPortfolios(ownerPortfolios, searchQuery, MAX_PER_CATEGORY)
+        .filter(portfolio => portfolio.parcels.length > 0);
+      for (const portfolio of portfolios) {
+        const count = portfolio.parcels.length;
+        searchResults.push({
+          id: `owner-${portfolio.key}`,
+          type: "owner",
+          title: portfolio.displayName,
+          subtitle: `${count} parcel${count === 1 ? "" : "s"} · ${formatParcelSize(portfolio.totalSqmt)}`,
+          matchedField: "Owner name",
+          coordinates: labelPoint(portfolio.parcels[0].geometry),
+          data: portfolio,
+        });
+      }
+    }
+
     // Search parcels
     if (parcelsData) {
       let parcelCount = 0;
       for (const feature of parcelsData.features) {
         if (parcelCount >= MAX_PER_CATEGORY) break;
-        const props = feature.properties;
-        
-        const searchableFields = [
-          { field: "LV Number", value: props.LV_NUMBER },
-          { field: "PID", value: props.PID },
-          { field: "Street Address", value: props.STREET_ADD },
-          { field: "Scheme Address", value: props.SCHEME_ADD },
-          { field: "Full Address", value: props.FULLADDRES },
-          { field: "Location", value: props.LOCATION },
-        ];
-
-        for (const { field, value } of searchableFields) {
-          if (value && value.toLowerCase().includes(q)) {
-            // Calculate centroid for parcel
-            const coords = feature.geometry.coordinates[0];
-            const centerLng = coords.reduce((sum, c) => sum + c[0], 0) / coords.length;
-            const centerLat = coords.reduce((sum, c) => sum + c[1], 0) / coords.length;
-
-            searchResults.push({
-              id: `parcel-${props.OBJECTID}`,
-              type: "parcel",
-              title: props.SCHEME_ADD || props.STREET_ADD || `Parcel ${props.PID}`,
-              subtitle: props.LV_NUMBER ? `LV: ${props.LV_NUMBER}` : props.LOCATION,
-              matchedField: field,
-              coordinates: [centerLng, centerLat],
-              data: feature,
-            });
-            parcelCount++;
-            break; // Only add each parcel once
-          }
+        const result = matchParcel(feature, q);
+        if (result) {
+          searchResults.push(result);
+          parcelCount++;
         }
       }
     }
@@ -226,10 +304,12 @@ export default function SearchBar({
           fullAddress?: string;
           landValuation?: string;
           location?: string;
+          titleReference?: string;
         };
 
         const searchableFields = [
           { field: "Land Valuation", value: props.landValuation },
+          { field: "Title Reference", value: props.titleReference },
           { field: "Street Address", value: props.streetAddress },
           { field: "Scheme Address", value: props.schemeAddress },
           { field: "Full Address", value: props.fullAddress },
@@ -255,7 +335,7 @@ export default function SearchBar({
     }
 
     return searchResults;
-  }, [parcelsData, addressesData, starlinkData]);
+  }, [parcelsData, addressesData, starlinkData, communitiesData, ownerPortfolios]);
 
   // Run search when debounced query changes
   useEffect(() => {
@@ -263,7 +343,24 @@ export default function SearchBar({
     setResults(searchResults);
     setSelectedIndex(-1);
     setIsOpen(searchResults.length > 0 || debouncedQuery.length >= 2);
-  }, [debouncedQuery, performSearch]);
+
+    // Parcels are not held locally in vector-tile mode - append server matches when they arrive
+    if (!searchRemoteParcels || debouncedQuery.length < 2) return;
+    let cancelled = false;
+    const q = debouncedQuery.toLowerCase().trim();
+    searchRemoteParcels(debouncedQuery, MAX_PER_CATEGORY)
+      .then(features => {
+        if (cancelled) return;
+        const parcelResults = features
+          .map(feature => matchParcel(feature, q))
+          .filter((result): result is SearchResult => result !== null);
+        if (parcelResults.length > 0) setResults(prev => [...prev, ...parcelResults]);
+      })
+      .catch(err => console.error("Parcel search failed:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, performSearch, searchRemoteParcels]);
 
   // Keyboard navigation
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
@@ -332,9 +429,11 @@ export default function SearchBar({
     return acc;
   }, {} as Record<SearchResultType, SearchResult[]>);
 
-  const categoryOrder: SearchResultType[] = ["division", "parcel", "address", "starlink"];
+  const categoryOrder: SearchResultType[] = ["division", "community", "owner", "parcel", "address", "starlink"];
   const categoryLabels: Record<SearchResultType, string> = {
     division: "Divisions",
+    community: "Communities",
+    owner: "Owners",
     parcel: "Parcels",
     address: "Addresses",
     starlink: "Starlink Sites",
@@ -344,10 +443,14 @@ export default function SearchBar({
     switch (result.type) {
       case "parcel":
         return <ParcelIcon />;
+      case "owner":
+        return <OwnerIcon />;
       case "address":
         return <AddressIcon />;
       case "division":
         return <DivisionIcon color={ELECTORAL_DIVISION_COLORS[result.data as DivisionName]} />;
+      case "community":
+        return <CommunityIcon />;
       case "starlink":
         return <StarlinkIcon />;
     }
@@ -369,7 +472,7 @@ export default function SearchBar({
             onChange={(e) => setQuery(e.target.value)}
             onKeyDown={handleKeyDown}
             onFocus={() => results.length > 0 && setIsOpen(true)}
-            placeholder="Search parcels, addresses, divisions..."
+            placeholder="Search parcels, owners, addresses, communities..."
             className="flex-1 bg-transparent text-white placeholder-slate-400 text-sm focus:outline-none"
           />
           {query && (
@@ -2,6 +2,21 @@
 
 import { useState, useEffect, useRef } from "react";
 import type { SavedProject } from "@/lib/types/project";
+import type { OwnerRule } from "@/lib/types/ownerRules";
+import type { Owner } from "@/lib/data/owners";
+import type { Address } from "@/lib/data/addresses";
+import type { ParcelFeatureCollection } from "@/lib/data/parcels";
+import type { AuditIssue } from "@/lib/data/audit";
+import type { CandidateSite, SiteSearchCriteria } from "@/lib/data/siteFinder";
+import type { TopologyIssue, TopologyReport } from "@/lib/data/topology";
+import type { ParcelQuery, ParcelQueryPreset } from "@/lib/types/parcelQuery";
+import { clearDataCache } from "@/lib/data/cache";
+import OwnerRulesEditor from "./OwnerRulesEditor";
+import DataAuditPanel from "./DataAuditPanel";
+import SiteFinderPanel from "./SiteFinderPanel";
+import TopologyPanel from "./TopologyPanel";
+import QueryBuilderPanel from "./QueryBuilderPanel";
+import ExportMenu, { type ExportFormat } from "./ExportMenu";
 
 interface SideNavProps {
   savedProjects: SavedProject[];
@@ -9,8 +24,42 @@ interface SideNavProps {
   onLoadProject: (id: string) => void;
   onRenameProject: (id: string, name: string) => void;
   onDeleteProject: (id: string) => void;
+  onExportProject: (id: string, format: ExportFormat) => Promise<void>;
+  // Query builder
+  parcelQuery: ParcelQuery | null;
+  onApplyParcelQuery?: (query: ParcelQuery | null) => void;
+  queryPresets: ParcelQueryPreset[];
+  onSaveQueryPreset: (name: string, query: ParcelQuery) => void;
+  onDeleteQueryPreset: (id: string) => void;
+  // Settings
+  ownerRules: OwnerRule[];
+  ownerLookup: Map<string, Owner>;
+  onApplyOwnerRules: (rules: OwnerRule[]) => void;
+  onResetOwnerRules: () => void;
+  // Data audit
+  parcelsData: ParcelFeatureCollection | null;
+  addressLookup: Map<string, Address>;
+  onSelectAuditIssue: (issue: AuditIssue) => void;
+  // Site finder
+  onFindSites?: (
+    criteria: SiteSearchCriteria,
+    onProgress: (done: number, total: number) => void
+  ) => Promise<CandidateSite[]>;
+  displayedParcelCount: number;
+  onLoadSite: (site: CandidateSite) => void;
+  onSaveSite: (site: CandidateSite, name: string) => void;
+  // Topology check
+  topologyReport: TopologyReport | null;
+  onCheckTopology?: (
+    maxGapSqmt: number,
+    onProgress: (done: number, total: number) => void
+  ) => Promise<TopologyReport>;
+  onSelectTopologyIssue: (issue: TopologyIssue) => void;
+  onClearTopology: () => void;
 }
 
+type NavSection = "projects" | "audit" | "sites" | "topology" | "query" | "settings";
+
 const NAV_STORAGE_KEY = "land-mapping-nav-expanded";
 
 // Icons
@@ -30,6 +79,38 @@ function ProjectsIcon() {
   );
 }
 
+function AuditIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+    </svg>
+  );
+}
+
+function SitesIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5h7v6H4zM13 5h7v9h-7zM4 13h7v6H4zM13 16h7v3h-7z" />
+    </svg>
+  );
+}
+
+function TopologyIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4h9v9H4zM11 11h9v9h-9z" />
+    </svg>
+  );
+}
+
+function QueryIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h18l-7 8.5V19l-4 2v-8.5L3 4z" />
+    </svg>
+  );
+}
+
 function AccountIcon() {
   return (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -85,6 +166,7 @@ function ProjectItem({
   onLoad,
   onRename,
   onDelete,
+  onExport,
 }: {
   project: SavedProject;
   isActive: boolean;
@@ -92,6 +174,7 @@ function ProjectItem({
   onLoad: () => void;
   onRename: (name: string) => void;
   onDelete: () => void;
+  onExport: (format: ExportFormat) => Promise<void>;
 }) {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(project.name);
@@ -159,8 +242,16 @@ function ProjectItem({
             </div>
           </div>
           
-          {/* Action buttons - show on hover */}
-          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {/* Action buttons - show on hover (and while the export menu is open) */}
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <div onClick={(e) => e.stopPropagation()}>
+              <ExportMenu
+                onExport={onExport}
+                label="Export"
+                title="Export the project's parcels as a spreadsheet or GIS file"
+                className="px-1.5 py-1 hover:bg-slate-600"
+              />
+            </div>
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -194,6 +285,47 @@ function ProjectItem({
   );
 }
 
+// Cached data controls (Settings section)
+function CachedDataSettings() {
+  const [status, setStatus] = useState<"idle" | "clearing" | "cleared" | "error">("idle");
+
+  const handleClear = async () => {
+    setStatus("clearing");
+    try {
+      await clearDataCache();
+      setStatus("cleared");
+    } catch (error) {
+      console.error("Failed to clear cached data:", error);
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-3 border-t border-slate-700/50">
+      <div className="text-sm text-white font-medium">Cached Data</div>
+      <p className="text-xs text-slate-500 mt-0.5">
+        Parcels, addresses, owners and preprocessing results are cached in this browser and
+        rebuilt automatically when a source file changes.
+      </p>
+      <div className="flex items-center gap-2 mt-2">
+        <button
+          onClick={handleClear}
+          disabled={status === "clearing"}
+          className="px-2.5 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+        >
+          {status === "clearing" ? "Clearing..." : "Clear cached data"}
+        </button>
+        {status === "cleared" && (
+          <span className="text-xs text-emerald-400">Cleared · rebuilt on next load</span>
+        )}
+        {status === "error" && (
+          <span className="text-xs text-red-400">Could not clear the cache</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // Nav Item Button (for collapsed state)
 function NavButton({
   icon,
@@ -246,9 +378,30 @@ export default function SideNav({
   onLoadProject,
   onRenameProject,
   onDeleteProject,
+  onExportProject,
+  parcelQuery,
+  onApplyParcelQuery,
+  queryPresets,
+  onSaveQueryPreset,
+  onDeleteQueryPreset,
+  ownerRules,
+  ownerLookup,
+  onApplyOwnerRules,
+  onResetOwnerRules,
+  parcelsData,
+  addressLookup,
+  onSelectAuditIssue,
+  onFindSites,
+  displayedParcelCount,
+  onLoadSite,
+  onSaveSite,
+  topologyReport,
+  onCheckTopology,
+  onSelectTopologyIssue,
+  onClearTopology,
 }: SideNavProps) {
   const [isExpanded, setIsExpanded] = useState(false);
-  const [activeSection, setActiveSection] = useState<"projects" | null>(null);
+  const [activeSection, setActiveSection] = useState<NavSection | null>(null);
 
   // Load preference from localStorage
   useEffect(() => {
@@ -274,15 +427,15 @@ export default function SideNav({
     }
   };
 
-  const handleProjectsClick = () => {
+  const handleSectionClick = (section: NavSection) => {
     if (!isExpanded) {
       setIsExpanded(true);
-      setActiveSection("projects");
-    } else if (activeSection === "projects") {
+      setActiveSection(section);
+    } else if (activeSection === section) {
       setIsExpanded(false);
       setActiveSection(null);
     } else {
-      setActiveSection("projects");
+      setActiveSection(section);
     }
   };
 
@@ -299,7 +452,7 @@ export default function SideNav({
       {/* Navigation Rail */}
       <div
         className={`fixed left-0 top-0 h-full z-50 flex flex-col glass-panel border-r border-slate-700/50 transition-all duration-300 ease-in-out ${
-          isExpanded ? "w-72" : "w-14"
+          isExpanded ? (activeSection === "settings" || activeSection === "audit" || activeSection === "sites" || activeSection === "topology" || activeSection === "query" ? "w-96" : "w-72") : "w-14"
         }`}
       >
         {/* Header */}
@@ -340,7 +493,43 @@ export default function SideNav({
             badge={savedProjects.length}
             isActive={activeSection === "projects"}
             isExpanded={isExpanded}
-            onClick={handleProjectsClick}
+            onClick={() => handleSectionClick("projects")}
+          />
+
+          {/* Data Audit Button */}
+          <NavButton
+            icon={<AuditIcon />}
+            label="Data Audit"
+            isActive={activeSection === "audit"}
+            isExpanded={isExpanded}
+            onClick={() => handleSectionClick("audit")}
+          />
+
+          {/* Site Finder Button */}
+          <NavButton
+            icon={<SitesIcon />}
+            label="Site Finder"
+            isActive={activeSection === "sites"}
+            isExpanded={isExpanded}
+            onClick={() => handleSectionClick("sites")}
+          />
+
+          {/* Topology Button */}
+          <NavButton
+            icon={<TopologyIcon />}
+            label="Topology"
+            isActive={activeSection === "topology"}
+            isExpanded={isExpanded}
+            onClick={() => handleSectionClick("topology")}
+          />
+
+          {/* Query Builder Button */}
+          <NavButton
+            icon={<QueryIcon />}
+            label="Query"
+            isActive={activeSection === "query"}
+            isExpanded={isExpanded}
+            onClick={() => handleSectionClick("query")}
           />
 
           {/* Projects List (when expanded and section is active) */}
@@ -364,12 +553,76 @@ export default function SideNav({
                       onLoad={() => onLoadProject(project.id)}
                       onRename={(name) => onRenameProject(project.id, name)}
                       onDelete={() => onDeleteProject(project.id)}
+                      onExport={(format) => onExportProject(project.id, format)}
                     />
                   ))}
                 </div>
               )}
             </div>
           )}
+
+          {/* Data Audit (when expanded and section is active) */}
+          {isExpanded && activeSection === "audit" && (
+            <div className="mt-2 flex-1 overflow-y-auto scrollbar-thin px-1">
+              <DataAuditPanel
+                parcelsData={parcelsData}
+                addressLookup={addressLookup}
+                ownerLookup={ownerLookup}
+                onSelectIssue={onSelectAuditIssue}
+              />
+            </div>
+          )}
+
+          {/* Site Finder (when expanded and section is active) */}
+          {isExpanded && activeSection === "sites" && (
+            <div className="mt-2 flex-1 overflow-y-auto scrollbar-thin px-1">
+              <SiteFinderPanel
+                onFindSites={onFindSites}
+                displayedParcelCount={displayedParcelCount}
+                onLoadSite={onLoadSite}
+                onSaveSite={onSaveSite}
+              />
+            </div>
+          )}
+
+          {/* Topology check (when expanded and section is active) */}
+          {isExpanded && activeSection === "topology" && (
+            <div className="mt-2 flex-1 overflow-y-auto scrollbar-thin px-1">
+              <TopologyPanel
+                report={topologyReport}
+                onCheck={onCheckTopology}
+                onSelectIssue={onSelectTopologyIssue}
+                onClear={onClearTopology}
+              />
+            </div>
+          )}
+
+          {/* Query builder (when expanded and section is active) */}
+          {isExpanded && activeSection === "query" && (
+            <div className="mt-2 flex-1 overflow-y-auto scrollbar-thin px-1">
+              <QueryBuilderPanel
+                query={parcelQuery}
+                onApply={onApplyParcelQuery}
+                displayedParcelCount={displayedParcelCount}
+                presets={queryPresets}
+                onSavePreset={onSaveQueryPreset}
+                onDeletePreset={onDeleteQueryPreset}
+              />
+            </div>
+          )}
+
+          {/* Settings (when expanded and section is active) */}
+          {isExpanded && activeSection === "settings" && (
+            <div className="mt-2 flex-1 overflow-y-auto scrollbar-thin px-1">
+              <OwnerRulesEditor
+                rules={ownerRules}
+                ownerLookup={ownerLookup}
+                onApply={onApplyOwnerRules}
+                onReset={onResetOwnerRules}
+              />
+              <CachedDataSettings />
+            </div>
+          )}
         </div>
 
         {/* Footer - Future items */}
@@ -383,8 +636,9 @@ export default function SideNav({
           <NavButton
             icon={<SettingsIcon />}
             label="Settings"
+            isActive={activeSection === "settings"}
             isExpanded={isExpanded}
-            onClick={() => {/* Future: open settings */}}
+            onClick={() => handleSectionClick("settings")}
           />
         </div>
       </div>
@@ -0,0 +1,257 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import {
+  DEFAULT_SITE_CRITERIA,
+  SITE_RANKING_LABELS,
+  rankCandidateSites,
+  siteValuation,
+  siteValuePerAcre,
+  type CandidateSite,
+  type SiteRanking,
+  type SiteSearchCriteria,
+} from "@/lib/data/siteFinder";
+import { formatLandValue } from "@/lib/data/owners";
+
+interface SiteFinderPanelProps {
+  // Undefined when the full parcel dataset is not loaded in the browser (e.g. vector-tile mode)
+  onFindSites?: (
+    criteria: SiteSearchCriteria,
+    onProgress: (done: number, total: number) => void
+  ) => Promise<CandidateSite[]>;
+  displayedParcelCount: number;
+  onLoadSite: (site: CandidateSite) => void;
+  onSaveSite: (site: CandidateSite, name: string) => void;
+}
+
+const RANKINGS: SiteRanking[] = ["owners", "acreage", "landValue"];
+
+function defaultSiteName(site: CandidateSite): string {
+  return `${site.acreage.toFixed(1)} ac site - ${site.owners[0]}`;
+}
+
+// Value per acre of the valued land, flagging sites whose valuation is incomplete
+function SiteValue({ site }: { site: CandidateSite }) {
+  const valuation = siteValuation(site);
+  const perAcre = siteValuePerAcre(site);
+  if (valuation === "none" || perAcre === null) {
+    return <span className="text-amber-400">No valuation</span>;
+  }
+  return (
+    <span title={`Total known value ${formatLandValue(site.landValue)}`}>
+      {formatLandValue(perAcre)}/ac
+      {valuation === "partial" && (
+        <span className="text-amber-400"> ({Math.round((site.valuedAcreage / site.acreage) * 100)}% valued)</span>
+      )}
+    </span>
+  );
+}
+
+export default function SiteFinderPanel({
+  onFindSites,
+  displayedParcelCount,
+  onLoadSite,
+  onSaveSite,
+}: SiteFinderPanelProps) {
+  const [criteria, setCriteria] = useState<SiteSearchCriteria>(DEFAULT_SITE_CRITERIA);
+  const [ranking, setRanking] = useState<SiteRanking>("owners");
+  const [sites, setSites] = useState<CandidateSite[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [savedKeys, setSavedKeys] = useState<Set<string>>(new Set());
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [saveName, setSaveName] = useState("");
+
+  const rankedSites = useMemo(
+    () => (sites ? rankCandidateSites(sites, ranking, criteria.preferGovernment) : []),
+    [sites, ranking, criteria.preferGovernment]
+  );
+
+  const isSearching = progress !== null;
+  const isValid = criteria.minAcres > 0 && criteria.maxAcres >= criteria.minAcres;
+
+  const handleFind = async () => {
+    if (!onFindSites || !isValid) return;
+    setError(null);
+    setActiveKey(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      setSites(await onFindSites(criteria, (done, total) => setProgress({ done, total })));
+    } catch (err) {
+      console.error("Site search failed:", err);
+      setError("The site search failed");
+    }
+    setProgress(null);
+  };
+
+  const handleSave = (site: CandidateSite) => {
+    if (!saveName.trim()) return;
+    onSaveSite(site, saveName.trim());
+    setSavedKeys(prev => new Set(prev).add(site.key));
+    setSavingKey(null);
+  };
+
+  if (!onFindSites) {
+    return (
+      <div className="text-xs text-slate-500 text-center py-6 px-3">
+        The site finder needs the full parcel dataset loaded in the browser
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 pb-2">
+      {/* Criteria */}
+      <div>
+        <div className="text-sm text-white font-medium">Site Finder</div>
+        <div className="text-xs text-slate-500">
+          Contiguous clusters among the {displayedParcelCount.toLocaleString()} parcels matching the map filters
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <label className="flex items-center gap-1">
+          <input
+            type="number"
+            min={1}
+            value={criteria.minAcres}
+            onChange={(e) => setCriteria({ ...criteria, minAcres: Number(e.target.value) })}
+            className="w-16 px-1.5 py-1 bg-slate-800 border border-slate-600 rounded-md text-white text-xs focus:outline-none focus:border-purple-500"
+          />
+        </label>
+        to
+        <label className="flex items-center gap-1">
+          <input
+            type="number"
+            min={1}
+            value={criteria.maxAcres}
+            onChange={(e) => setCriteria({ ...criteria, maxAcres: Number(e.target.value) })}
+            className="w-16 px-1.5 py-1 bg-slate-800 border border-slate-600 rounded-md text-white text-xs focus:outline-none focus:border-purple-500"
+          />
+          acres
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-300">
+        <input
+          type="checkbox"
+          checked={criteria.preferGovernment}
+          onChange={(e) => setCriteria({ ...criteria, preferGovernment: e.target.checked })}
+          className="accent-purple-500"
+        />
+        Prefer government-held parcels
+      </label>
+
+      <button
+        onClick={handleFind}
+        disabled={isSearching || !isValid}
+        className="w-full py-2 text-sm bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+      >
+        {isSearching
+          ? `Searching... ${progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0}%`
+          : "Find sites"}
+      </button>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {/* Results */}
+      {sites && !isSearching && (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-400">
+              {sites.length === 0 ? "No candidate sites" : `${sites.length} candidate sites`}
+            </span>
+            <select
+              value={ranking}
+              onChange={(e) => setRanking(e.target.value as SiteRanking)}
+              className="px-1.5 py-1 bg-slate-800 border border-slate-600 rounded-md text-white text-xs focus:outline-none focus:border-purple-500"
+            >
+              {RANKINGS.map(r => (
+                <option key={r} value={r}>{SITE_RANKING_LABELS[r]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            {rankedSites.map((site, i) => (
+              <div
+                key={site.key}
+                className={`rounded-lg px-2.5 py-2 border transition-colors ${
+                  activeKey === site.key
+                    ? "bg-purple-600/20 border-purple-500/50"
+                    : "bg-slate-800/50 border-transparent hover:bg-slate-700/50 hover:border-slate-600"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-white">
+                    #{i + 1} · {site.acreage.toFixed(1)} ac
+                  </span>
+                  <span className="text-xs text-slate-400">
+                    {site.owners.length} {site.owners.length === 1 ? "owner" : "owners"} · {site.objectIds.length} parcels
+                  </span>
+                </div>
+                <div className="text-xs text-slate-400 mt-0.5 truncate" title={site.owners.join("\n")}>
+                  {site.owners.join(", ")}
+                </div>
+                <div className="flex items-center justify-between gap-2 mt-1.5">
+                  <span className="text-xs text-slate-500">
+                    <SiteValue site={site} />
+                    {site.governmentAcreage > 0 && (
+                      <> · <span className="text-blue-400">{Math.round((site.governmentAcreage / site.acreage) * 100)}% gov</span></>
+                    )}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => {
+                        setActiveKey(site.key);
+                        onLoadSite(site);
+                      }}
+                      className="px-2 py-1 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded-md transition-colors"
+                    >
+                      Select
+                    </button>
+                    <button
+                      onClick={() => {
+                        setSavingKey(site.key);
+                        setSaveName(defaultSiteName(site));
+                      }}
+                      disabled={savedKeys.has(site.key)}
+                      className="px-2 py-1 text-xs bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-md transition-colors"
+                    >
+                      {savedKeys.has(site.key) ? "Saved" : "Save"}
+                    </button>
+                  </div>
+                </div>
+
+                {/* Project name for saving */}
+                {savingKey === site.key && (
+                  <div className="flex gap-1.5 mt-2">
+                    <input
+                      autoFocus
+                      type="text"
+                      value={saveName}
+                      onChange={(e) => setSaveName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleSave(site);
+                        if (e.key === "Escape") setSavingKey(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 text-xs bg-slate-900 border border-purple-500 rounded-md text-white focus:outline-none"
+                    />
+                    <button
+                      onClick={() => handleSave(site)}
+                      disabled={!saveName.trim()}
+                      className="px-2 py-1 text-xs bg-purple-600 hover:bg-purple-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-md transition-colors"
+                    >
+                      Save
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import {
+  DEFAULT_MAX_GAP_SQMT,
+  FABRIC_SUMMARY_KEYS,
+  TOPOLOGY_ISSUE_COLORS,
+  TOPOLOGY_ISSUE_LABELS,
+  TOPOLOGY_ISSUE_TYPES,
+  type TopologyIssue,
+  type TopologyIssueType,
+  type TopologyReport,
+} from "@/lib/data/topology";
+import { toCsv, downloadCsv } from "@/lib/export/csv";
+
+interface TopologyPanelProps {
+  report: TopologyReport | null;
+  // Undefined when the full parcel dataset is not loaded in the browser (e.g. vector-tile mode)
+  onCheck?: (
+    maxGapSqmt: number,
+    onProgress: (done: number, total: number) => void
+  ) => Promise<TopologyReport>;
+  onSelectIssue: (issue: TopologyIssue) => void;
+  onClear: () => void;
+}
+
+// Rendering thousands of rows at once stalls the nav; grow the list on demand
+const PAGE_SIZE = 200;
+
+function formatSqmt(sqmt: number): string {
+  return sqmt > 0 ? `${Math.round(sqmt).toLocaleString()} m²` : "—";
+}
+
+export default function TopologyPanel({
+  report,
+  onCheck,
+  onSelectIssue,
+  onClear,
+}: TopologyPanelProps) {
+  const [maxGapSqmt, setMaxGapSqmt] = useState(DEFAULT_MAX_GAP_SQMT);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<TopologyIssueType | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [activeIssueId, setActiveIssueId] = useState<string | null>(null);
+
+  const issues = report?.issues || [];
+
+  const countsByType = useMemo(() => {
+    const counts = {} as Record<TopologyIssueType, number>;
+    for (const type of TOPOLOGY_ISSUE_TYPES) counts[type] = 0;
+    for (const issue of issues) counts[issue.type]++;
+    return counts;
+  }, [issues]);
+
+  const filteredIssues = typeFilter ? issues.filter(issue => issue.type === typeFilter) : issues;
+
+  const isChecking = progress !== null;
+  const isValid = maxGapSqmt > 0;
+
+  const handleCheck = async () => {
+    if (!onCheck || !isValid) return;
+    setError(null);
+    setActiveIssueId(null);
+    setVisibleCount(PAGE_SIZE);
+    setProgress({ done: 0, total: 0 });
+    try {
+      await onCheck(maxGapSqmt, (done, total) => setProgress({ done, total }));
+    } catch (err) {
+      console.error("Topology check failed:", err);
+      setError("The topology check failed");
+    }
+    setProgress(null);
+  };
+
+  const handleFilter = (type: TopologyIssueType) => {
+    setTypeFilter(typeFilter === type ? null : type);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleExport = () => {
+    const csv = toCsv(
+      ["Issue", "Title", "Detail", "Division", "Area (m²)", "Parcel OBJECTIDs", "Longitude", "Latitude"],
+      issues.map(issue => [
+        TOPOLOGY_ISSUE_LABELS[issue.type],
+        issue.title,
+        issue.detail,
+        issue.division,
+        issue.areaSqmt !== null ? issue.areaSqmt.toFixed(1) : null,
+        issue.objectIds.join(" "),
+        issue.coordinates[0],
+        issue.coordinates[1],
+      ])
+    );
+    downloadCsv(csv, "parcel topology.csv");
+  };
+
+  if (!onCheck) {
+    return (
+      <div className="text-xs text-slate-500 text-center py-6 px-3">
+        The topology check needs the full parcel dataset loaded in the browser
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 pb-2">
+      {/* Check settings */}
+      <div>
+        <div className="text-sm text-white font-medium">Parcel Topology</div>
+        <div className="text-xs text-slate-500">
+          Overlaps, gaps, self-intersecting rings and duplicate geometries in the parcel fabric
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-400">
+        Report gaps up to
+        <input
+          type="number"
+          min={1}
+          value={maxGapSqmt}
+          onChange={(e) => setMaxGapSqmt(Number(e.target.value))}
+          className="w-20 px-1.5 py-1 bg-slate-800 border border-slate-600 rounded-md text-white text-xs focus:outline-none focus:border-purple-500"
+        />
+        m²
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleCheck}
+          disabled={isChecking || !isValid}
+          className="flex-1 py-2 text-sm bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+        >
+          {isChecking
+            ? `Checking... ${progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0}%`
+            : "Check topology"}
+        </button>
+        {report && !isChecking && (
+          <button
+            onClick={() => {
+              setActiveIssueId(null);
+              onClear();
+            }}
+            className="px-3 py-2 text-sm bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+
+      {report && !isChecking && (
+        <>
+          {/* Per-division fabric quality */}
+          <div className="rounded-lg bg-slate-800/50 p-2">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="text-left font-normal">Division</th>
+                  <th className="text-right font-normal">Parcels</th>
+                  <th className="text-right font-normal">Clean</th>
+                  <th className="text-right font-normal">Overlap</th>
+                  <th className="text-right font-normal">Gaps</th>
+                </tr>
+              </thead>
+              <tbody>
+                {FABRIC_SUMMARY_KEYS.filter(key => report.divisions[key].parcels > 0).map(key => {
+                  const summary = report.divisions[key];
+                  const cleanPercent = (summary.cleanParcels / summary.parcels) * 100;
+                  return (
+                    <tr key={key} className="text-slate-300">
+                      <td className="py-0.5 truncate max-w-[7rem]" title={key === "unassigned" ? "Outside every division" : key}>
+                        {key === "unassigned" ? "Unassigned" : key}
+                      </td>
+                      <td className="text-right">{summary.parcels.toLocaleString()}</td>
+                      <td className={`text-right ${cleanPercent >= 99 ? "text-emerald-400" : cleanPercent >= 95 ? "text-amber-400" : "text-red-400"}`}>
+                        {cleanPercent.toFixed(1)}%
+                      </td>
+                      <td className="text-right">{formatSqmt(summary.overlapSqmt)}</td>
+                      <td className="text-right">{formatSqmt(summary.gapSqmt)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {report.failedGapCells.length > 0 && (
+            <div
+              className="text-xs text-amber-400"
+              title={report.failedGapCells.map(cell => `${cell.parcels} parcels: ${cell.message}`).join("\n")}
+            >
+              Gaps could not be checked in {report.failedGapCells.length} of the map areas (
+              {report.failedGapCells.reduce((sum, cell) => sum + cell.parcels, 0).toLocaleString()} parcels), usually
+              because of invalid geometry listed below
+            </div>
+          )}
+
+          {/* Issue type filters */}
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-400">
+              {issues.length.toLocaleString()} issues · gaps up to {report.maxGapSqmt.toLocaleString()} m²
+            </span>
+            <button
+              onClick={handleExport}
+              disabled={issues.length === 0}
+              className="px-2.5 py-1.5 text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+              title="Download every issue as CSV"
+            >
+              Export CSV
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            {TOPOLOGY_ISSUE_TYPES.map((type) => (
+              <button
+                key={type}
+                onClick={() => handleFilter(type)}
+                className={`w-full flex items-center justify-between px-2.5 py-1.5 rounded-lg text-xs transition-colors ${
+                  typeFilter === type
+                    ? "bg-purple-600/20 text-purple-300 border border-purple-500/50"
+                    : "bg-slate-800/50 text-slate-300 border border-transparent hover:bg-slate-700/50"
+                }`}
+              >
+                <span className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: TOPOLOGY_ISSUE_COLORS[type] }} />
+                  {TOPOLOGY_ISSUE_LABELS[type]}
+                </span>
+                <span className={countsByType[type] > 0 ? "text-amber-400" : "text-slate-500"}>
+                  {countsByType[type].toLocaleString()}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Issue list */}
+          {filteredIssues.length === 0 ? (
+            <div className="text-xs text-slate-500 text-center py-4">No issues found</div>
+          ) : (
+            <div className="space-y-1.5">
+              {filteredIssues.slice(0, visibleCount).map((issue) => (
+                <button
+                  key={issue.id}
+                  onClick={() => {
+                    setActiveIssueId(issue.id);
+                    onSelectIssue(issue);
+                  }}
+                  className={`w-full text-left rounded-lg px-2.5 py-2 border transition-colors ${
+                    activeIssueId === issue.id
+                      ? "bg-purple-600/20 border-purple-500/50"
+                      : "bg-slate-800/50 border-transparent hover:bg-slate-700/50 hover:border-slate-600"
+                  }`}
+                  title="Fly to this issue"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-white truncate">{issue.title}</span>
+                    {!typeFilter && (
+                      <span className="text-[10px] flex-shrink-0" style={{ color: TOPOLOGY_ISSUE_COLORS[issue.type] }}>
+                        {TOPOLOGY_ISSUE_LABELS[issue.type]}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-slate-400 mt-0.5 truncate">
+                    {issue.detail}{issue.division && ` · ${issue.division}`}
+                  </div>
+                </button>
+              ))}
+              {filteredIssues.length > visibleCount && (
+                <button
+                  onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                  className="w-full py-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+                >
+                  Show more ({(filteredIssues.length - visibleCount).toLocaleString()} remaining)
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
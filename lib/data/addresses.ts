@@ -24,10 +24,14 @@ export interface AddressCSVRow {
   Longitude: string;
 }
 
+export const ADDRESSES_URL = "/data/jamaica_processed_addresses.csv";
+
 export async function loadAddresses(): Promise<Address[]> {
-  const response = await fetch("/data/jamaica_processed_addresses.csv");
-  const csvText = await response.text();
+  const response = await fetch(ADDRESSES_URL);
+  return parseAddressesCsv(await response.text());
+}
 
+export function parseAddressesCsv(csvText: string): Promise<Address[]> {
   return new Promise((resolve, reject) => {
     Papa.parse<AddressCSVRow>(csvText, {
       header: true,
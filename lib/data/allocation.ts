@@ -0,0 +1,51 @@
+import type { Owner } from "./owners";
+import type { OwnerRule } from "../types/ownerRules";
+import { classifyOwner, compileOwnerRules, DEFAULT_OWNER_RULES } from "./ownerRules";
+
+/**
+ * Who a parcel is allocated to, derived from the owner name on the valuation roll.
+ * "unknown" is used for parcels with no linked owner record.
+ */
+export type ParcelAllocation = "government" | "bauxite" | "private" | "unknown";
+
+export const PARCEL_ALLOCATIONS: ParcelAllocation[] = ["government", "bauxite", "private", "unknown"];
+
+export const ALLOCATION_COLORS: Record<ParcelAllocation, string> = {
+  government: "#3B82F6", // Blue
+  bauxite: "#EF4444",    // Red
+  private: "#22C55E",    // Green
+  unknown: "#94A3B8",    // Slate
+};
+
+export const ALLOCATION_LABELS: Record<ParcelAllocation, string> = {
+  government: "Government",
+  bauxite: "Bauxite Company",
+  private: "Private",
+  unknown: "No Owner Record",
+};
+
+/**
+ * Builds an LV_NUMBER -> allocation lookup from the owner lookup using the classification rules
+ */
+export function createAllocationLookup(
+  ownerLookup: Map<string, Owner>,
+  rules: OwnerRule[] = DEFAULT_OWNER_RULES
+): Map<string, ParcelAllocation> {
+  const compiledRules = compileOwnerRules(rules);
+  const lookup = new Map<string, ParcelAllocation>();
+  ownerLookup.forEach((owner, lvNumber) => {
+    lookup.set(lvNumber, classifyOwner(owner, compiledRules));
+  });
+  return lookup;
+}
+
+/**
+ * Resolves the allocation for a parcel by its LV_NUMBER
+ */
+export function getParcelAllocation(
+  lvNumber: string | null | undefined,
+  allocationLookup: Map<string, ParcelAllocation>
+): ParcelAllocation {
+  if (!lvNumber) return "unknown";
+  return allocationLookup.get(lvNumber) || "unknown";
+}
@@ -0,0 +1,136 @@
+import type { Owner } from "./owners";
+import type { ParcelRecord } from "./parcels";
+import { bboxesIntersect, geometryBBox, type BBox } from "../geo/spatialIndex";
+
+export type AttributeColumnKey = "pid" | "lvNumber" | "volFolio" | "acres" | "owner" | "landValue" | "division";
+
+export interface AttributeColumn {
+  key: AttributeColumnKey;
+  label: string;
+  numeric: boolean;  // Sorted by value and filtered with comparisons like ">10" or "5-20"
+  width: number;     // Pixels
+}
+
+export const ATTRIBUTE_COLUMNS: AttributeColumn[] = [
+  { key: "pid", label: "PID", numeric: false, width: 110 },
+  { key: "lvNumber", label: "LV Number", numeric: false, width: 120 },
+  { key: "volFolio", label: "Vol/Folio", numeric: false, width: 100 },
+  { key: "acres", label: "Acres", numeric: true, width: 80 },
+  { key: "owner", label: "Owner", numeric: false, width: 200 },
+  { key: "landValue", label: "Land Value", numeric: true, width: 110 },
+  { key: "division", label: "Division", numeric: false, width: 110 },
+];
+
+export type AttributeValue = string | number | null;
+
+export interface AttributeRow {
+  parcel: ParcelRecord;
+  bbox: BBox;
+  values: Record<AttributeColumnKey, AttributeValue>;
+}
+
+export type ColumnFilters = Partial<Record<AttributeColumnKey, string>>;
+
+export interface AttributeSort {
+  key: AttributeColumnKey;
+  direction: "asc" | "desc";
+}
+
+/**
+ * One table row per parcel, with the owner and land value joined on by LV number
+ */
+export function attributeRows(parcels: ParcelRecord[], ownerLookup: Map<string, Owner>): AttributeRow[] {
+  return parcels.map(parcel => {
+    const p = parcel.properties;
+    const owner = p.LV_NUMBER ? ownerLookup.get(p.LV_NUMBER) : undefined;
+    return {
+      parcel,
+      bbox: geometryBBox(parcel.geometry),
+      values: {
+        pid: p.PID || null,
+        lvNumber: p.LV_NUMBER || null,
+        volFolio: p.VOL_FOL || null,
+        acres: p.SIZE_SQMT && !isNaN(p.SIZE_SQMT) ? p.SIZE_SQMT / 4046.86 : null,
+        owner: owner?.ownerName || null,
+        landValue: owner?.landValueAmount ?? null,
+        division: p._division ?? null,
+      },
+    };
+  });
+}
+
+export function formatAttributeValue(key: AttributeColumnKey, value: AttributeValue): string {
+  if (value === null) return "";
+  if (key === "acres") return (value as number).toFixed(value as number >= 1 ? 2 : 3);
+  if (key === "landValue") return `$${(value as number).toLocaleString()}`;
+  return String(value);
+}
+
+const COMPARISON = /^(<=|>=|<|>|=)\s*(-?[\d,.]+)$/;
+const RANGE = /^(-?[\d,.]+)\s*-\s*(-?[\d,.]+)$/;
+
+function parseNumber(text: string): number {
+  return Number(text.replace(/,/g, ""));
+}
+
+// Numeric filters: ">10", "<=5", "=0", "5-20"; anything else matches the displayed text
+function matchesNumber(value: number | null, key: AttributeColumnKey, filter: string): boolean {
+  const comparison = filter.match(COMPARISON);
+  if (comparison) {
+    if (value === null) return false;
+    const target = parseNumber(comparison[2]);
+    switch (comparison[1]) {
+      case "<": return value < target;
+      case "<=": return value <= target;
+      case ">": return value > target;
+      case ">=": return value >= target;
+      default: return value === target;
+    }
+  }
+  const range = filter.match(RANGE);
+  if (range) {
+    if (value === null) return false;
+    const [min, max] = [parseNumber(range[1]), parseNumber(range[2])].sort((a, b) => a - b);
+    return value >= min && value <= max;
+  }
+  return formatAttributeValue(key, value).toLowerCase().includes(filter.toLowerCase());
+}
+
+function matchesFilters(row: AttributeRow, filters: ColumnFilters): boolean {
+  return ATTRIBUTE_COLUMNS.every(column => {
+    const filter = filters[column.key]?.trim();
+    if (!filter) return true;
+    const value = row.values[column.key];
+    if (column.numeric) return matchesNumber(value as number | null, column.key, filter);
+    return value !== null && String(value).toLowerCase().includes(filter.toLowerCase());
+  });
+}
+
+// Empty values sort last in either direction
+function compareValues(a: AttributeValue, b: AttributeValue): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" });
+}
+
+/**
+ * Rows passing the column filters (and inside the bounds, when given), in sort order
+ */
+export function filterAttributeRows(
+  rows: AttributeRow[],
+  filters: ColumnFilters,
+  sort: AttributeSort | null,
+  bounds: BBox | null = null
+): AttributeRow[] {
+  const filtered = rows.filter(row =>
+    (!bounds || bboxesIntersect(row.bbox, bounds)) && matchesFilters(row, filters)
+  );
+  if (!sort) return filtered;
+
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return filtered.sort((a, b) => {
+    const x = a.values[sort.key];
+    const y = b.values[sort.key];
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    return sign * compareValues(x, y);
+  });
+}
@@ -0,0 +1,173 @@
+import booleanPointInPolygon from "@turf/boolean-point-in-polygon";
+import type { ParcelFeature, ParcelFeatureCollection } from "./parcels";
+import type { Address } from "./addresses";
+import type { Owner } from "./owners";
+import { labelPoint } from "../geo/labelPoint";
+
+/**
+ * Kinds of parcel ↔ owner ↔ address linkage problems
+ */
+export type AuditIssueType =
+  | "parcelMissingLv"
+  | "lvMissingOwner"
+  | "lvMissingAddress"
+  | "orphanOwner"
+  | "duplicateLv"
+  | "addressOutsideParcel";
+
+export const AUDIT_ISSUE_TYPES: AuditIssueType[] = [
+  "parcelMissingLv",
+  "lvMissingOwner",
+  "lvMissingAddress",
+  "orphanOwner",
+  "duplicateLv",
+  "addressOutsideParcel",
+];
+
+export const AUDIT_ISSUE_LABELS: Record<AuditIssueType, string> = {
+  parcelMissingLv: "Parcels with no LV number",
+  lvMissingOwner: "LV numbers with no owner",
+  lvMissingAddress: "LV numbers with no address",
+  orphanOwner: "Owner rows matching no parcel",
+  duplicateLv: "Duplicate LV numbers",
+  addressOutsideParcel: "Addresses outside their parcel",
+};
+
+export interface AuditIssue {
+  id: string;
+  type: AuditIssueType;
+  title: string;
+  detail: string;
+  lvNumber: string | null;
+  objectIds: number[];                   // Parcels involved (empty for owner-only issues)
+  coordinates: [number, number] | null;  // Where to fly to, if the issue has a location
+}
+
+function parcelCenter(feature: ParcelFeature): [number, number] | null {
+  try {
+    const center = labelPoint(feature.geometry);
+    return isNaN(center[0]) ? null : center;
+  } catch {
+    return null;
+  }
+}
+
+function addressCoordinates(address: Address | undefined): [number, number] | null {
+  if (!address || isNaN(address.longitude) || isNaN(address.latitude)) return null;
+  return [address.longitude, address.latitude];
+}
+
+/**
+ * Cross-checks parcels, owners and addresses and lists every linkage problem found
+ */
+export function runLinkageAudit(
+  parcelsData: ParcelFeatureCollection,
+  addressLookup: Map<string, Address>,
+  ownerLookup: Map<string, Owner>
+): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+  const parcelsByLv = new Map<string, ParcelFeature[]>();
+
+  for (const feature of parcelsData.features) {
+    const props = feature.properties;
+    const lvNumber = props?.LV_NUMBER?.trim();
+
+    if (!lvNumber) {
+      issues.push({
+        id: `parcelMissingLv-${props.OBJECTID}`,
+        type: "parcelMissingLv",
+        title: `Parcel ${props.PID || props.OBJECTID}`,
+        detail: props.LOCATION || props.FULLADDRES || "No LV_NUMBER recorded",
+        lvNumber: null,
+        objectIds: [props.OBJECTID],
+        coordinates: parcelCenter(feature),
+      });
+      continue;
+    }
+
+    const group = parcelsByLv.get(lvNumber);
+    if (group) {
+      group.push(feature);
+    } else {
+      parcelsByLv.set(lvNumber, [feature]);
+    }
+  }
+
+  parcelsByLv.forEach((parcels, lvNumber) => {
+    const first = parcels[0];
+    const objectIds = parcels.map(p => p.properties.OBJECTID);
+    const pids = parcels.map(p => p.properties.PID || p.properties.OBJECTID).join(", ");
+
+    if (!ownerLookup.has(lvNumber)) {
+      issues.push({
+        id: `lvMissingOwner-${lvNumber}`,
+        type: "lvMissingOwner",
+        title: `LV ${lvNumber}`,
+        detail: `Parcel ${pids} has no owner record`,
+        lvNumber,
+        objectIds,
+        coordinates: parcelCenter(first),
+      });
+    }
+
+    const address = addressLookup.get(lvNumber);
+    if (!address) {
+      issues.push({
+        id: `lvMissingAddress-${lvNumber}`,
+        type: "lvMissingAddress",
+        title: `LV ${lvNumber}`,
+        detail: `Parcel ${pids} has no address record`,
+        lvNumber,
+        objectIds,
+        coordinates: parcelCenter(first),
+      });
+    } else {
+      const point = addressCoordinates(address);
+      const inside = point !== null && parcels.some((parcel) => {
+        try {
+          return booleanPointInPolygon(point, parcel);
+        } catch {
+          return false;
+        }
+      });
+      if (point && !inside) {
+        issues.push({
+          id: `addressOutsideParcel-${lvNumber}`,
+          type: "addressOutsideParcel",
+          title: address.fullAddress || address.streetAddress || `LV ${lvNumber}`,
+          detail: `Address point for LV ${lvNumber} lies outside parcel ${pids}`,
+          lvNumber,
+          objectIds,
+          coordinates: point,
+        });
+      }
+    }
+
+    if (parcels.length > 1) {
+      issues.push({
+        id: `duplicateLv-${lvNumber}`,
+        type: "duplicateLv",
+        title: `LV ${lvNumber}`,
+        detail: `Shared by ${parcels.length} parcels: ${pids}`,
+        lvNumber,
+        objectIds,
+        coordinates: parcelCenter(first),
+      });
+    }
+  });
+
+  ownerLookup.forEach((owner, lvNumber) => {
+    if (parcelsByLv.has(lvNumber)) return;
+    issues.push({
+      id: `orphanOwner-${lvNumber}`,
+      type: "orphanOwner",
+      title: owner.ownerName.replace(/\s+/g, " ").trim() || `LV ${lvNumber}`,
+      detail: `Valuation number ${lvNumber} matches no parcel`,
+      lvNumber,
+      objectIds: [],
+      coordinates: addressCoordinates(addressLookup.get(lvNumber)),
+    });
+  });
+
+  return issues;
+}
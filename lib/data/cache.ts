@@ -0,0 +1,158 @@
+/**
+ * IndexedDB cache for loaded and preprocessed datasets.
+ * Each entry is stored with the version (ETag or content hash) of the source
+ * file(s) it was built from, and is only reused while that version still matches.
+ */
+
+const DB_NAME = "land-mapping-cache";
+const DB_VERSION = 1;
+const STORE_NAME = "datasets";
+
+interface CacheEntry<T> {
+  key: string;
+  version: string;
+  value: T;
+  cachedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openCacheDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openCacheDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Content hashes of source bodies already downloaded this session, for servers that send no validators
+const bodyVersions = new Map<string, string>();
+
+function validatorVersion(headers: Headers): string | null {
+  const etag = headers.get("ETag");
+  if (etag) return `etag:${etag}`;
+  const modified = headers.get("Last-Modified");
+  if (modified) return `modified:${modified}:${headers.get("Content-Length") || ""}`;
+  return null;
+}
+
+// The ETag or Last-Modified version from a HEAD request, or null when the server sends neither
+async function headVersion(url: string): Promise<string | null> {
+  const head = await fetch(url, { method: "HEAD", cache: "no-cache" });
+  return head.ok ? validatorVersion(head.headers) : null;
+}
+
+/**
+ * Downloads a source file with its version: the response's ETag or Last-Modified,
+ * else a SHA-256 of the body (remembered so getSourceVersion need not download it again)
+ */
+export async function fetchSourceText(url: string): Promise<{ text: string; version: string }> {
+  const response = await fetch(url, { cache: "no-cache" });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}`);
+  }
+  const text = await response.text();
+  const version = validatorVersion(response.headers) || `sha256:${await hashText(text)}`;
+  bodyVersions.set(url, version);
+  return { text, version };
+}
+
+/**
+ * Identifies the current version of a source file: the ETag, else Last-Modified plus
+ * length, else the hash of the body fetched earlier this session. Only downloads the
+ * file when it has no validators and has not been fetched yet.
+ */
+export async function getSourceVersion(url: string): Promise<string> {
+  const version = await headVersion(url).catch(() => null);
+  if (version) return version;
+  return bodyVersions.get(url) || (await fetchSourceText(url)).version;
+}
+
+/**
+ * Returns the cached value for a key if it was built from the given version
+ */
+export async function readCache<T>(key: string, version: string): Promise<T | null> {
+  try {
+    const entry = await runRequest<CacheEntry<T> | undefined>("readonly", store => store.get(key));
+    return entry && entry.version === version ? entry.value : null;
+  } catch (error) {
+    console.warn(`Cache read failed for ${key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Stores a value for a key, replacing whatever version was cached before
+ */
+export async function writeCache<T>(key: string, version: string, value: T): Promise<void> {
+  try {
+    const entry: CacheEntry<T> = { key, version, value, cachedAt: Date.now() };
+    await runRequest("readwrite", store => store.put(entry));
+  } catch (error) {
+    console.warn(`Cache write failed for ${key}:`, error);
+  }
+}
+
+/**
+ * Loads a dataset from the cache when its source file is unchanged, otherwise parses the
+ * downloaded file and caches the result. Sources without validators are downloaded once
+ * and identified by their content hash.
+ */
+export async function loadWithCache<T>(key: string, url: string, parse: (text: string) => T | Promise<T>): Promise<T> {
+  let version: string | null = null;
+  try {
+    version = await headVersion(url);
+  } catch (error) {
+    console.warn(`Could not determine version of ${url}:`, error);
+  }
+
+  if (version) {
+    const cached = await readCache<T>(key, version);
+    if (cached !== null) return cached;
+  }
+
+  const source = await fetchSourceText(url);
+  if (!version) {
+    // Already downloaded, but an unchanged body still spares the parse
+    const cached = await readCache<T>(key, source.version);
+    if (cached !== null) return cached;
+  }
+
+  const value = await parse(source.text);
+  await writeCache(key, source.version, value);
+  return value;
+}
+
+/**
+ * Removes every cached dataset; they are rebuilt on the next load
+ */
+export async function clearDataCache(): Promise<void> {
+  await runRequest("readwrite", store => store.clear());
+}
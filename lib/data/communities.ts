@@ -0,0 +1,56 @@
+import type { ParcelAllocation } from "./allocation";
+
+/**
+ * The preprocessed parcel properties community statistics are built from
+ */
+export interface CommunityParcelProperties {
+  SIZE_SQMT: number;
+  _community: number | null;
+  _hasOwner: boolean;
+  _allocation: ParcelAllocation;
+}
+
+/**
+ * Parcel totals for one community
+ */
+export interface CommunityStats {
+  parcelCount: number;
+  totalSqmt: number;
+  ownerLinkedCount: number;
+  governmentCount: number;
+  governmentSqmt: number;
+}
+
+function emptyStats(): CommunityStats {
+  return { parcelCount: 0, totalSqmt: 0, ownerLinkedCount: 0, governmentCount: 0, governmentSqmt: 0 };
+}
+
+/**
+ * Totals parcels per community (keyed by COMM_ID) in a single pass
+ */
+export function computeCommunityStats(
+  parcels: { properties: CommunityParcelProperties }[]
+): Map<number, CommunityStats> {
+  const statsByCommunity = new Map<number, CommunityStats>();
+
+  for (const { properties } of parcels) {
+    if (properties._community === null) continue;
+
+    let stats = statsByCommunity.get(properties._community);
+    if (!stats) {
+      stats = emptyStats();
+      statsByCommunity.set(properties._community, stats);
+    }
+
+    const sqmt = properties.SIZE_SQMT && !isNaN(properties.SIZE_SQMT) ? properties.SIZE_SQMT : 0;
+    stats.parcelCount++;
+    stats.totalSqmt += sqmt;
+    if (properties._hasOwner) stats.ownerLinkedCount++;
+    if (properties._allocation === "government") {
+      stats.governmentCount++;
+      stats.governmentSqmt += sqmt;
+    }
+  }
+
+  return statsByCommunity;
+}
@@ -0,0 +1,102 @@
+import type { Feature, Polygon, MultiPolygon, Position } from "geojson";
+import type { ParcelFeature } from "./parcels";
+import type { Owner } from "./owners";
+import { corridorPolygon, measureCorridorTakes, pathLength } from "../geo/corridor";
+
+/**
+ * One affected parcel in a corridor schedule
+ */
+export interface CorridorScheduleRow {
+  parcel: ParcelFeature;
+  owner: Owner | null;
+  chainage: number;             // Metres along the alignment
+  areaTakenSqmt: number;
+  parcelAreaSqmt: number;
+  percentTaken: number;
+  proRataValue: number | null;  // Share of the land value for the area taken
+}
+
+/**
+ * A drawn road/pipeline alignment and every parcel its right-of-way cuts through
+ */
+export interface CorridorAnalysis {
+  path: Position[];
+  widthMeters: number;
+  lengthMeters: number;
+  corridor: Feature<Polygon | MultiPolygon>;
+  rows: CorridorScheduleRow[];
+  totalAreaTakenSqmt: number;
+  totalProRataValue: number;
+}
+
+export const DEFAULT_CORRIDOR_WIDTH_METERS = 20;
+
+/**
+ * Land value attributable to the area taken. The roll values a whole valuation number,
+ * which can span several parcels, so its value per acre is used where known; otherwise
+ * the parcel's share of the value is taken as proportional to the percentage taken.
+ */
+function proRataValue(owner: Owner | null, areaTakenSqmt: number, percentTaken: number): number | null {
+  if (!owner || owner.landValueAmount === null) return null;
+  if (owner.valuePerAcre) return owner.valuePerAcre * (areaTakenSqmt / 4046.86);
+  return owner.landValueAmount * (percentTaken / 100);
+}
+
+/**
+ * Buffers the alignment to the right-of-way width and schedules every parcel it affects
+ */
+export function analyseCorridor(
+  path: Position[],
+  widthMeters: number,
+  parcels: ParcelFeature[],
+  ownerLookup: Map<string, Owner>
+): CorridorAnalysis | null {
+  const corridor = corridorPolygon(path, widthMeters);
+  if (!corridor) return null;
+
+  const rows = measureCorridorTakes(parcels, corridor, path).map((take): CorridorScheduleRow => {
+    const lvNumber = take.parcel.properties.LV_NUMBER;
+    const owner = lvNumber ? ownerLookup.get(lvNumber) || null : null;
+    return {
+      parcel: take.parcel,
+      owner,
+      chainage: take.chainage,
+      areaTakenSqmt: take.areaTakenSqmt,
+      parcelAreaSqmt: take.parcelAreaSqmt,
+      percentTaken: take.percentTaken,
+      proRataValue: proRataValue(owner, take.areaTakenSqmt, take.percentTaken),
+    };
+  });
+
+  return {
+    path,
+    widthMeters,
+    lengthMeters: pathLength(path),
+    corridor,
+    rows,
+    totalAreaTakenSqmt: rows.reduce((sum, row) => sum + row.areaTakenSqmt, 0),
+    totalProRataValue: rows.reduce((sum, row) => sum + (row.proRataValue ?? 0), 0),
+  };
+}
+
+/**
+ * Formats a chainage in the usual km+m notation, e.g. 1+250
+ */
+export function formatChainage(meters: number): string {
+  const rounded = Math.round(meters);
+  return `${Math.floor(rounded / 1000)}+${String(rounded % 1000).padStart(3, "0")}`;
+}
+
+/**
+ * The analysis limited to the given parcels (e.g. after some were removed from the selection)
+ */
+export function restrictCorridorAnalysis(analysis: CorridorAnalysis, objectIds: number[]): CorridorAnalysis {
+  const keep = new Set(objectIds);
+  const rows = analysis.rows.filter(row => keep.has(row.parcel.properties.OBJECTID));
+  return {
+    ...analysis,
+    rows,
+    totalAreaTakenSqmt: rows.reduce((sum, row) => sum + row.areaTakenSqmt, 0),
+    totalProRataValue: rows.reduce((sum, row) => sum + (row.proRataValue ?? 0), 0),
+  };
+}
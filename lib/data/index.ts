@@ -1,3 +1,18 @@
 export * from "./addresses";
+export * from "./allocation";
+export * from "./attributeTable";
+export * from "./audit";
+export * from "./cache";
+export * from "./communities";
+export * from "./corridor";
+export * from "./letters";
+export * from "./notification";
+export * from "./ownerRules";
+export * from "./parcelQuery";
 export * from "./owners";
 export * from "./parcels";
+export * from "./portfolio";
+export * from "./site";
+export * from "./siteFinder";
+export * from "./topology";
+export * from "./valuation";
@@ -0,0 +1,109 @@
+import type { Owner } from "./owners";
+import { formatLandValue, sumLandValue } from "./owners";
+import type { NotificationRecipient } from "./notification";
+import { formatAcres } from "../pdf/format";
+
+/**
+ * Placeholders available in letter templates, written as {{name}}
+ */
+export type LetterField =
+  | "ownerName"
+  | "pid"
+  | "lvNumber"
+  | "volFolio"
+  | "acreage"
+  | "address"
+  | "landValue"
+  | "parcels"
+  | "projectName"
+  | "date";
+
+export const LETTER_FIELD_LABELS: Record<LetterField, string> = {
+  ownerName: "Owner name",
+  pid: "PID(s)",
+  lvNumber: "LV number(s)",
+  volFolio: "Volume/Folio",
+  acreage: "Total acreage",
+  address: "Property address",
+  landValue: "Total land value",
+  parcels: "Parcel list (one line each)",
+  projectName: "Project name",
+  date: "Today's date",
+};
+
+export const DEFAULT_LETTER_TEMPLATE = `{{date}}
+
+{{ownerName}}
+{{address}}
+
+Re: {{projectName}}
+
+Dear {{ownerName}},
+
+We are writing about the proposed development "{{projectName}}". Our records show that you hold the following land in the area (Volume/Folio {{volFolio}}, {{acreage}}):
+
+{{parcels}}
+
+If you have any questions or would like to comment on the proposal, please contact us quoting the reference above.
+
+Yours faithfully,`;
+
+// Distinct non-empty values, in order
+function distinct(values: (string | null | undefined)[]): string[] {
+  return Array.from(new Set(values.filter((v): v is string => !!v && !!v.trim())));
+}
+
+/**
+ * Placeholder values for one recipient; multi-parcel owners get joined lists and totals
+ */
+export function letterFieldValues(
+  recipient: NotificationRecipient,
+  ownerLookup: Map<string, Owner>,
+  context: { projectName: string; date: string }
+): Record<LetterField, string> {
+  const parcels = recipient.parcels.map(p => p.parcel);
+  const totalSqmt = parcels.reduce((sum, p) => sum + (p.SIZE_SQMT || 0), 0);
+  const lvNumbers = distinct(parcels.map(p => p.LV_NUMBER));
+
+  return {
+    ownerName: recipient.ownerName,
+    pid: distinct(parcels.map(p => p.PID)).join(", ") || "N/A",
+    lvNumber: lvNumbers.join(", ") || "N/A",
+    volFolio: distinct(parcels.map(p => p.VOL_FOL)).join(", ") || "N/A",
+    acreage: formatAcres(totalSqmt),
+    address: recipient.propertyAddress,
+    landValue: lvNumbers.some(lv => ownerLookup.get(lv)?.landValueAmount != null)
+      ? formatLandValue(sumLandValue(lvNumbers, ownerLookup))
+      : "N/A",
+    parcels: recipient.parcels
+      .map(({ parcel, address }) =>
+        [
+          `PID ${parcel.PID || "N/A"}`,
+          `LV ${parcel.LV_NUMBER || "N/A"}`,
+          `Vol/Folio ${parcel.VOL_FOL || "N/A"}`,
+          formatAcres(parcel.SIZE_SQMT),
+          address,
+        ].filter(Boolean).join(" · ")
+      )
+      .map(line => `- ${line}`)
+      .join("\n"),
+    projectName: context.projectName,
+    date: context.date,
+  };
+}
+
+/**
+ * Fills {{field}} placeholders; unknown placeholders are left as written so mistakes show up.
+ * Lines that are empty only because their placeholder had no value (e.g. no address) are dropped.
+ */
+export function renderLetterTemplate(template: string, values: Record<LetterField, string>): string {
+  return template
+    .split("\n")
+    .flatMap(line => {
+      const rendered = line.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name as LetterField] : match
+      );
+      return rendered.trim() === "" && line.trim() !== "" ? [] : [rendered];
+    })
+    .join("\n");
+}
@@ -0,0 +1,105 @@
+import type { Feature, MultiPolygon } from "geojson";
+import type { ParcelFeature, ParcelProperties } from "./parcels";
+import type { Owner } from "./owners";
+import type { Address } from "./addresses";
+import { normalizeOwnerName } from "./owners";
+import { featuresIntersecting } from "../geo/proximity";
+
+/**
+ * A parcel within the notification area, with its roll and address records
+ */
+export interface NotifiedParcel {
+  parcel: ParcelProperties;
+  owner: Owner | null;
+  address: string;  // Property address ("" when neither record has one)
+}
+
+/**
+ * One addressee: every notified parcel held by the same owner
+ */
+export interface NotificationRecipient {
+  key: string;
+  ownerName: string;    // "Owner / Occupier" for parcels with no owner record
+  // The roll holds no postal addresses, so letters go to the first of their parcels with an address
+  propertyAddress: string;
+  parcels: NotifiedParcel[];
+}
+
+/**
+ * Owners to notify around a project site
+ */
+export interface NeighbourNotification {
+  distanceMeters: number;
+  area: Feature<MultiPolygon>;  // The buffered selection
+  recipients: NotificationRecipient[];
+  parcelCount: number;
+}
+
+export const DEFAULT_NOTIFICATION_DISTANCE_METERS = 100;
+
+const UNKNOWN_OWNER = "Owner / Occupier";
+
+function parcelAddress(parcel: ParcelProperties, addressLookup: Map<string, Address>): string {
+  const address = parcel.LV_NUMBER ? addressLookup.get(parcel.LV_NUMBER) : undefined;
+  return (address?.fullAddress || parcel.FULLADDRES || "").trim();
+}
+
+/**
+ * Groups parcels into one recipient per owner (by normalized roll name).
+ * Parcels without an owner record are addressed to the occupier of each valuation number.
+ */
+export function groupRecipientsByOwner(
+  parcels: ParcelProperties[],
+  ownerLookup: Map<string, Owner>,
+  addressLookup: Map<string, Address>
+): NotificationRecipient[] {
+  const recipients = new Map<string, NotificationRecipient>();
+  for (const parcel of parcels) {
+    const owner = parcel.LV_NUMBER ? ownerLookup.get(parcel.LV_NUMBER) || null : null;
+    const key = owner?.ownerName
+      ? normalizeOwnerName(owner.ownerName)
+      : `lv:${parcel.LV_NUMBER || parcel.OBJECTID}`;
+    const address = parcelAddress(parcel, addressLookup);
+
+    let recipient = recipients.get(key);
+    if (!recipient) {
+      recipient = {
+        key,
+        ownerName: owner?.ownerName.replace(/\s+/g, " ").trim() || UNKNOWN_OWNER,
+        propertyAddress: address,
+        parcels: [],
+      };
+      recipients.set(key, recipient);
+    }
+    if (!recipient.propertyAddress) recipient.propertyAddress = address;
+    recipient.parcels.push({ parcel, owner, address });
+  }
+
+  return Array.from(recipients.values()).sort((a, b) => a.ownerName.localeCompare(b.ownerName));
+}
+
+/**
+ * Finds every candidate parcel intersecting the buffered selection (other than the
+ * selected parcels themselves) and groups them into one recipient per owner.
+ */
+export function findNotificationRecipients(
+  selected: ParcelFeature[],
+  candidates: ParcelFeature[],
+  area: Feature<MultiPolygon>,
+  distanceMeters: number,
+  ownerLookup: Map<string, Owner>,
+  addressLookup: Map<string, Address>
+): NeighbourNotification {
+  const selectedIds = new Set(selected.map(f => f.properties.OBJECTID));
+  const affected = featuresIntersecting(
+    candidates.filter(f => !selectedIds.has(f.properties.OBJECTID)),
+    area
+  );
+
+  return {
+    distanceMeters,
+    area,
+    recipients: groupRecipientsByOwner(affected.map(f => f.properties), ownerLookup, addressLookup),
+    parcelCount: affected.length,
+  };
+}
@@ -0,0 +1,199 @@
+import type { Owner } from "./owners";
+import type { ParcelAllocation } from "./allocation";
+import type { OwnerRule, OwnerRuleMatchType } from "../types/ownerRules";
+
+export const OWNER_RULE_MATCH_TYPE_LABELS: Record<OwnerRuleMatchType, string> = {
+  exact: "Exact name",
+  prefix: "Starts with",
+  regex: "Regex",
+  lvList: "LV numbers",
+};
+
+/**
+ * Built-in rules covering the institutional owners found in the valuation roll.
+ * Used until the user saves their own rule set.
+ */
+export const DEFAULT_OWNER_RULES: OwnerRule[] = [
+  {
+    id: "default-commissioner-of-lands",
+    label: "Commissioner of Lands",
+    matchType: "regex",
+    pattern: "COMMISSIONER OF LANDS",
+    allocation: "government",
+    enabled: true,
+  },
+  {
+    id: "default-ministries",
+    label: "Ministers & ministries",
+    matchType: "regex",
+    pattern: "\\bMINIST(ER|RY) OF\\b|GOVERNMENT OF JAMAICA",
+    allocation: "government",
+    enabled: true,
+  },
+  {
+    id: "default-local-authorities",
+    label: "Parish council / municipal corporation",
+    matchType: "regex",
+    pattern: "PARISH COUNCIL|MUNICIPAL CORPORATION",
+    allocation: "government",
+    enabled: true,
+  },
+  {
+    id: "default-statutory-bodies",
+    label: "Statutory bodies",
+    matchType: "regex",
+    pattern: "NATIONAL WATER COMMISSION|NATIONAL ROAD OPERATING|NATIONAL HOUSING TRUST|URBAN DEVELOPMENT CORPORATION|JAMAICA RAILWAY CORPORATION|SUGAR INDUSTRY AUTHORITY|HEALTH AUTHORITY|LAND AUTHORITY|JAMAICA LIBRARY BOARD",
+    allocation: "government",
+    enabled: true,
+  },
+  {
+    id: "default-bauxite-companies",
+    label: "Bauxite & alumina companies",
+    matchType: "regex",
+    pattern: "\\b(ALPART|JISCO|ALCOA|ALCAN|RUSAL|GLENCORE|ANACONDA|KAISER|WINDALCO)\\b|REYNOLDS METAL|RIO TINTO",
+    allocation: "bauxite",
+    enabled: true,
+  },
+  {
+    id: "default-alumina-names",
+    label: "Alumina / aluminium in name",
+    matchType: "regex",
+    pattern: "ALUMIN(A|UM|IUM)|BAUXITE",
+    allocation: "bauxite",
+    enabled: true,
+  },
+];
+
+/**
+ * A rule prepared for fast matching. Invalid regexes are kept with an error so the editor can flag them.
+ */
+interface CompiledOwnerRule {
+  rule: OwnerRule;
+  test: (normalizedName: string, valuationNumber: string) => boolean;
+  error: string | null;
+}
+
+/**
+ * Uppercases and collapses whitespace so rule patterns match regardless of roll formatting
+ */
+function normalizeForMatching(value: string): string {
+  return value.toUpperCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Splits an LV number list on commas, whitespace or newlines
+ */
+export function parseLvNumberList(pattern: string): string[] {
+  return pattern
+    .split(/[\s,;]+/)
+    .map(lv => lv.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Compiles a single rule into a matcher
+ */
+export function compileOwnerRule(rule: OwnerRule): CompiledOwnerRule {
+  const pattern = rule.pattern.trim();
+  if (!pattern) {
+    return { rule, test: () => false, error: "Pattern is empty" };
+  }
+
+  switch (rule.matchType) {
+    case "exact": {
+      const expected = normalizeForMatching(pattern);
+      return { rule, test: (name) => name === expected, error: null };
+    }
+    case "prefix": {
+      const prefix = normalizeForMatching(pattern);
+      return { rule, test: (name) => name.startsWith(prefix), error: null };
+    }
+    case "regex": {
+      try {
+        const regex = new RegExp(pattern, "i");
+        return { rule, test: (name) => regex.test(name), error: null };
+      } catch (e) {
+        return {
+          rule,
+          test: () => false,
+          error: e instanceof Error ? e.message : "Invalid regular expression",
+        };
+      }
+    }
+    case "lvList": {
+      const lvNumbers = new Set(parseLvNumberList(pattern));
+      return { rule, test: (_name, lv) => lvNumbers.has(lv), error: null };
+    }
+  }
+}
+
+/**
+ * Compiles the enabled rules in evaluation order
+ */
+export function compileOwnerRules(rules: OwnerRule[]): CompiledOwnerRule[] {
+  return rules.filter(rule => rule.enabled).map(compileOwnerRule);
+}
+
+/**
+ * Classifies an owner with the first matching rule; owners matching no rule are private
+ */
+export function classifyOwner(owner: Owner, compiledRules: CompiledOwnerRule[]): ParcelAllocation {
+  const name = normalizeForMatching(owner.ownerName);
+  for (const compiled of compiledRules) {
+    if (compiled.test(name, owner.valuationNumber)) {
+      return compiled.rule.allocation;
+    }
+  }
+  return name ? "private" : "unknown";
+}
+
+export interface OwnerRuleMatchStats {
+  owners: number;          // Owner records matched by this rule on its own
+  effective: number;       // Owner records this rule actually classifies (no earlier rule matched)
+  sampleNames: string[];   // A few distinct matched names for spotting over-broad patterns
+  error: string | null;
+}
+
+const SAMPLE_NAME_LIMIT = 5;
+
+/**
+ * Counts how many owners in the lookup each rule matches.
+ * Disabled rules are still counted (without claiming owners) so they can be previewed before enabling.
+ */
+export function countOwnerRuleMatches(
+  rules: OwnerRule[],
+  ownerLookup: Map<string, Owner>
+): Record<string, OwnerRuleMatchStats> {
+  const compiled = rules.map(compileOwnerRule);
+  const stats: Record<string, OwnerRuleMatchStats> = {};
+  const samples: Record<string, Set<string>> = {};
+
+  for (const { rule, error } of compiled) {
+    stats[rule.id] = { owners: 0, effective: 0, sampleNames: [], error };
+    samples[rule.id] = new Set();
+  }
+
+  ownerLookup.forEach((owner) => {
+    const name = normalizeForMatching(owner.ownerName);
+    let claimed = false;
+
+    for (const { rule, test } of compiled) {
+      if (!test(name, owner.valuationNumber)) continue;
+
+      stats[rule.id].owners++;
+      if (samples[rule.id].size < SAMPLE_NAME_LIMIT) {
+        samples[rule.id].add(name || owner.valuationNumber);
+      }
+      if (!claimed && rule.enabled) {
+        stats[rule.id].effective++;
+        claimed = true;
+      }
+    }
+  });
+
+  for (const id of Object.keys(stats)) {
+    stats[id].sampleNames = Array.from(samples[id]);
+  }
+
+  return stats;
+}
@@ -1,9 +1,12 @@
 import Papa from "papaparse";
+import type { ParcelFeatureCollection } from "./parcels";
 
 export interface Owner {
   valuationNumber: string;
   ownerName: string;
-  landValue: string;
+  landValue: string;              // Display string as recorded, e.g. "$3,100,000.00"
+  landValueAmount: number | null; // Parsed numeric land value
+  valuePerAcre: number | null;    // Land value over the parcel area (set by applyValuePerAcre)
 }
 
 export interface OwnerCSVRow {
@@ -12,10 +15,17 @@ export interface OwnerCSVRow {
   "Land Value": string;
 }
 
+export const OWNERS_URL = "/data/pts_owners.csv";
+
 export async function loadOwners(): Promise<Owner[]> {
-  const response = await fetch("/data/pts_owners.csv");
-  const csvText = await response.text();
+  const response = await fetch(OWNERS_URL);
+  return parseOwnersCsv(await response.text());
+}
 
+/**
+ * Parses the owner roll CSV (shared by the browser loader and the tile server)
+ */
+export function parseOwnersCsv(csvText: string): Promise<Owner[]> {
   return new Promise((resolve, reject) => {
     Papa.parse<OwnerCSVRow>(csvText, {
       header: true,
@@ -27,6 +37,8 @@ export async function loadOwners(): Promise<Owner[]> {
             valuationNumber: row["Valuation Number"] || "",
             ownerName: row["Owner Name"] || "",
             landValue: row["Land Value"] || "",
+            landValueAmount: parseLandValue(row["Land Value"] || ""),
+            valuePerAcre: null,
           }));
         resolve(owners);
       },
@@ -37,6 +49,28 @@ export async function loadOwners(): Promise<Owner[]> {
   });
 }
 
+/**
+ * Fills in value-per-acre from the SIZE_SQMT of the parcels carrying each valuation number.
+ * Parcels sharing an LV number are summed, since the roll values them as one holding.
+ */
+export function applyValuePerAcre(owners: Owner[], parcelsData: ParcelFeatureCollection): Owner[] {
+  const sqmtByLv = new Map<string, number>();
+  for (const feature of parcelsData.features) {
+    const lvNumber = feature.properties?.LV_NUMBER;
+    const sqmt = feature.properties?.SIZE_SQMT;
+    if (!lvNumber || !sqmt || isNaN(sqmt)) continue;
+    sqmtByLv.set(lvNumber, (sqmtByLv.get(lvNumber) || 0) + sqmt);
+  }
+
+  return owners.map((owner) => {
+    const sqmt = sqmtByLv.get(owner.valuationNumber);
+    const valuePerAcre = owner.landValueAmount !== null && sqmt
+      ? owner.landValueAmount / (sqmt / 4046.86)
+      : null;
+    return { ...owner, valuePerAcre };
+  });
+}
+
 export function createOwnerLookup(owners: Owner[]): Map<string, Owner> {
   const lookup = new Map<string, Owner>();
   for (const owner of owners) {
@@ -46,3 +80,57 @@ export function createOwnerLookup(owners: Owner[]): Map<string, Owner> {
   }
   return lookup;
 }
+
+/**
+ * Normalizes an owner name for grouping: uppercases, collapses the double spaces
+ * used in the roll ("ALFRED  HARRIOTT"), drops a leading "THE" and strips
+ * trailing joint-ownership/estate suffixes (ET AL, EST).
+ */
+export function normalizeOwnerName(name: string): string {
+  let normalized = name.toUpperCase().replace(/\s+/g, " ").trim();
+  normalized = normalized.replace(/^THE /, "");
+
+  // Suffixes can stack ("SMITH EST ET AL"); also catches the roll's truncated "... ET"
+  let previous: string;
+  do {
+    previous = normalized;
+    normalized = normalized.replace(/[\s,.]+(ET\s*AL|ETAL|EST|ET)\.?$/, "").trim();
+  } while (normalized !== previous);
+
+  return normalized.replace(/[,.]+$/, "").trim();
+}
+
+/**
+ * Parses a display land value such as "$3,100,000.00" into a number (null when blank or invalid)
+ */
+export function parseLandValue(value: string): number | null {
+  const cleaned = value.replace(/[^0-9.-]/g, "");
+  if (!cleaned) return null;
+  const parsed = parseFloat(cleaned);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Formats a numeric land value the way the roll displays it ("$3,100,000")
+ */
+export function formatLandValue(value: number | null | undefined): string {
+  if (value === null || value === undefined || isNaN(value)) return "N/A";
+  return `$${Math.round(value).toLocaleString("en-US")}`;
+}
+
+/**
+ * Totals land value across valuation numbers, counting each LV number once
+ */
+export function sumLandValue(
+  lvNumbers: (string | null | undefined)[],
+  ownerLookup: Map<string, Owner>
+): number {
+  const seen = new Set<string>();
+  let total = 0;
+  for (const lvNumber of lvNumbers) {
+    if (!lvNumber || seen.has(lvNumber)) continue;
+    seen.add(lvNumber);
+    total += ownerLookup.get(lvNumber)?.landValueAmount ?? 0;
+  }
+  return total;
+}
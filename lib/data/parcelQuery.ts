@@ -0,0 +1,268 @@
+import type { Owner } from "./owners";
+import type { Address } from "./addresses";
+import type { ParcelRecord, ParcelRecordProperties } from "./parcels";
+import type {
+  ParcelQuery,
+  ParcelQueryCondition,
+  ParcelQueryField,
+  ParcelQueryGroup,
+  ParcelQueryJoin,
+  ParcelQueryOperator,
+} from "../types/parcelQuery";
+import { generateId } from "../utils/generateId";
+
+export type ParcelQueryFieldSource = "parcel" | "owner" | "address";
+
+/**
+ * A parcel with the owner and address records linked to its LV number
+ */
+interface QueryRecord {
+  parcel: ParcelRecordProperties;
+  owner: Owner | undefined;
+  address: Address | undefined;
+}
+
+type FieldValue = string | number | null | undefined;
+
+interface ParcelQueryFieldDefinition {
+  label: string;
+  source: ParcelQueryFieldSource;
+  type: "text" | "number";
+  get: (record: QueryRecord) => FieldValue;
+}
+
+export const PARCEL_QUERY_FIELDS: Record<ParcelQueryField, ParcelQueryFieldDefinition> = {
+  pid: { label: "PID", source: "parcel", type: "text", get: r => r.parcel.PID },
+  lvNumber: { label: "LV number", source: "parcel", type: "text", get: r => r.parcel.LV_NUMBER },
+  volFolio: { label: "Vol/Folio", source: "parcel", type: "text", get: r => r.parcel.VOL_FOL },
+  sizeSqmt: { label: "Size (m²)", source: "parcel", type: "number", get: r => r.parcel.SIZE_SQMT || null },
+  acres: {
+    label: "Size (acres)",
+    source: "parcel",
+    type: "number",
+    get: r => r.parcel.SIZE_SQMT ? r.parcel.SIZE_SQMT / 4046.86 : null,
+  },
+  streetAddress: { label: "STREET_ADD", source: "parcel", type: "text", get: r => r.parcel.STREET_ADD },
+  schemeAddress: { label: "SCHEME_ADD", source: "parcel", type: "text", get: r => r.parcel.SCHEME_ADD },
+  fullAddress: { label: "FULLADDRES", source: "parcel", type: "text", get: r => r.parcel.FULLADDRES },
+  location: { label: "LOCATION", source: "parcel", type: "text", get: r => r.parcel.LOCATION },
+  parish: { label: "PARISH", source: "parcel", type: "text", get: r => r.parcel.PARISH },
+  division: { label: "Division", source: "parcel", type: "text", get: r => r.parcel._division },
+  ownerName: { label: "Owner name", source: "owner", type: "text", get: r => r.owner?.ownerName },
+  landValue: { label: "Land value", source: "owner", type: "number", get: r => r.owner?.landValueAmount },
+  valuePerAcre: { label: "Value per acre", source: "owner", type: "number", get: r => r.owner?.valuePerAcre },
+  addressFull: { label: "Full address", source: "address", type: "text", get: r => r.address?.fullAddress },
+  addressLocation: { label: "Location", source: "address", type: "text", get: r => r.address?.location },
+  addressParish: { label: "Parish", source: "address", type: "text", get: r => r.address?.parish },
+  titleReference: { label: "Title reference", source: "address", type: "text", get: r => r.address?.titleReference },
+};
+
+export const PARCEL_QUERY_SOURCES: ParcelQueryFieldSource[] = ["parcel", "owner", "address"];
+
+export const PARCEL_QUERY_SOURCE_LABELS: Record<ParcelQueryFieldSource, string> = {
+  parcel: "Parcel",
+  owner: "Owner",
+  address: "Linked address",
+};
+
+/**
+ * Fields of one source, in definition order
+ */
+export function queryFieldsFrom(source: ParcelQueryFieldSource): ParcelQueryField[] {
+  return (Object.keys(PARCEL_QUERY_FIELDS) as ParcelQueryField[]).filter(field => PARCEL_QUERY_FIELDS[field].source === source);
+}
+
+export const PARCEL_QUERY_OPERATOR_LABELS: Record<ParcelQueryOperator, string> = {
+  equals: "equals",
+  contains: "contains",
+  regex: "matches regex",
+  range: "between",
+  empty: "is empty",
+  notEmpty: "is not empty",
+};
+
+const TEXT_OPERATORS: ParcelQueryOperator[] = ["equals", "contains", "regex", "empty", "notEmpty"];
+const NUMBER_OPERATORS: ParcelQueryOperator[] = ["equals", "range", "empty", "notEmpty"];
+
+/**
+ * Operators that apply to a field's type
+ */
+export function operatorsForField(field: ParcelQueryField): ParcelQueryOperator[] {
+  return PARCEL_QUERY_FIELDS[field].type === "number" ? NUMBER_OPERATORS : TEXT_OPERATORS;
+}
+
+export function createQueryCondition(field: ParcelQueryField = "ownerName"): ParcelQueryCondition {
+  return { id: generateId(), field, operator: operatorsForField(field)[0], value: "", max: "" };
+}
+
+export function createQueryGroup(join: ParcelQueryJoin = "and"): ParcelQueryGroup {
+  return { id: generateId(), join, conditions: [createQueryCondition()] };
+}
+
+export function createParcelQuery(): ParcelQuery {
+  return { join: "or", groups: [createQueryGroup()] };
+}
+
+/**
+ * Whether the query has no conditions (and so matches every parcel)
+ */
+export function isQueryEmpty(query: ParcelQuery): boolean {
+  return query.groups.every(group => group.conditions.length === 0);
+}
+
+function normalizeText(value: string): string {
+  return value.toUpperCase().replace(/\s+/g, " ").trim();
+}
+
+function isBlank(value: FieldValue): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function parseNumber(text: string): number | null {
+  const trimmed = text.replace(/,/g, "").trim();
+  if (!trimmed) return null;
+  const value = Number(trimmed);
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * A condition prepared for fast matching. Invalid conditions match nothing and carry an error for the editor.
+ */
+interface CompiledCondition {
+  test: (record: QueryRecord) => boolean;
+  error: string | null;
+}
+
+const NEVER = () => false;
+
+function compileCondition(condition: ParcelQueryCondition): CompiledCondition {
+  const { get, type } = PARCEL_QUERY_FIELDS[condition.field];
+
+  switch (condition.operator) {
+    case "empty":
+      return { test: r => isBlank(get(r)), error: null };
+    case "notEmpty":
+      return { test: r => !isBlank(get(r)), error: null };
+    case "range": {
+      const min = parseNumber(condition.value);
+      const max = parseNumber(condition.max);
+      if ((condition.value.trim() && min === null) || (condition.max.trim() && max === null)) {
+        return { test: NEVER, error: "Range bounds must be numbers" };
+      }
+      if (min === null && max === null) return { test: NEVER, error: "Enter a minimum, a maximum or both" };
+      return {
+        test: r => {
+          const value = get(r);
+          return typeof value === "number" && (min === null || value >= min) && (max === null || value <= max);
+        },
+        error: null,
+      };
+    }
+  }
+
+  if (!condition.value.trim()) return { test: NEVER, error: "Value is empty" };
+
+  if (type === "number") {
+    const expected = parseNumber(condition.value);
+    if (expected === null) return { test: NEVER, error: "Value must be a number" };
+    return { test: r => get(r) === expected, error: null };
+  }
+
+  switch (condition.operator) {
+    case "equals": {
+      const expected = normalizeText(condition.value);
+      return { test: r => normalizeText(String(get(r) ?? "")) === expected, error: null };
+    }
+    case "contains": {
+      const expected = normalizeText(condition.value);
+      return { test: r => normalizeText(String(get(r) ?? "")).includes(expected), error: null };
+    }
+    case "regex": {
+      try {
+        const regex = new RegExp(condition.value, "i");
+        return { test: r => regex.test(String(get(r) ?? "")), error: null };
+      } catch (e) {
+        return { test: NEVER, error: e instanceof Error ? e.message : "Invalid regular expression" };
+      }
+    }
+  }
+}
+
+/**
+ * Problems that stop conditions from matching, by condition id
+ */
+export function validateParcelQuery(query: ParcelQuery): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const group of query.groups) {
+    for (const condition of group.conditions) {
+      const { error } = compileCondition(condition);
+      if (error) errors[condition.id] = error;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Compiles a query into a parcel matcher. Empty groups are ignored, so a query without
+ * conditions matches every parcel; invalid conditions match nothing.
+ */
+export function compileParcelQuery(
+  query: ParcelQuery,
+  ownerLookup: Map<string, Owner>,
+  addressLookup: Map<string, Address>
+): (parcel: ParcelRecord) => boolean {
+  const groups = query.groups
+    .filter(group => group.conditions.length > 0)
+    .map(group => {
+      const tests = group.conditions.map(condition => compileCondition(condition).test);
+      return group.join === "and"
+        ? (record: QueryRecord) => tests.every(test => test(record))
+        : (record: QueryRecord) => tests.some(test => test(record));
+    });
+
+  if (groups.length === 0) return () => true;
+
+  return (parcel) => {
+    const p = parcel.properties;
+    const record: QueryRecord = {
+      parcel: p,
+      owner: p.LV_NUMBER ? ownerLookup.get(p.LV_NUMBER) : undefined,
+      address: p.LV_NUMBER ? addressLookup.get(p.LV_NUMBER) : undefined,
+    };
+    return query.join === "and"
+      ? groups.every(group => group(record))
+      : groups.some(group => group(record));
+  };
+}
+
+function describeCondition(condition: ParcelQueryCondition): string {
+  const label = PARCEL_QUERY_FIELDS[condition.field].label;
+  switch (condition.operator) {
+    case "range": {
+      const min = condition.value.trim();
+      const max = condition.max.trim();
+      if (min && max) return `${label} ${min}–${max}`;
+      return min ? `${label} ≥ ${min}` : `${label} ≤ ${max}`;
+    }
+    case "regex":
+      return `${label} matches /${condition.value}/`;
+    case "empty":
+    case "notEmpty":
+      return `${label} ${PARCEL_QUERY_OPERATOR_LABELS[condition.operator]}`;
+    default:
+      return `${label} ${PARCEL_QUERY_OPERATOR_LABELS[condition.operator]} "${condition.value.trim()}"`;
+  }
+}
+
+/**
+ * One-line summary, e.g. `Owner name contains "ALPART" AND Size (acres) ≥ 10`
+ */
+export function describeParcelQuery(query: ParcelQuery): string {
+  const groups = query.groups.filter(group => group.conditions.length > 0);
+  return groups
+    .map(group => {
+      const text = group.conditions.map(describeCondition).join(` ${group.join.toUpperCase()} `);
+      return groups.length > 1 && group.conditions.length > 1 ? `(${text})` : text;
+    })
+    .join(` ${query.join.toUpperCase()} `);
+}
@@ -0,0 +1,151 @@
+import type { Feature } from "geojson";
+import type { ParcelGeometry, ParcelProperties } from "./parcels";
+import type { ValueMetric } from "./valuation";
+import { PARCEL_ALLOCATIONS, type ParcelAllocation } from "./allocation";
+import { DEFAULT_OWNER_RULES, OWNER_RULE_MATCH_TYPE_LABELS } from "./ownerRules";
+import type { OwnerRule, OwnerRuleMatchType } from "../types/ownerRules";
+import type { DivisionName } from "../geo/electoral-divisions";
+import type { BBox } from "../geo/spatialIndex";
+
+/**
+ * Vector-tile mode: parcels are served as MVT by /api/parcels/tiles instead of
+ * one GeoJSON download. Enabled with NEXT_PUBLIC_PARCEL_TILES=true.
+ */
+export const PARCEL_TILES_ENABLED = process.env.NEXT_PUBLIC_PARCEL_TILES === "true";
+
+export const PARCEL_TILE_LAYER = "parcels";
+export const PARCEL_TILE_MAX_ZOOM = 16;
+
+/**
+ * Parcel attributes as encoded in tiles and returned by the lookup endpoint.
+ * Vector tiles cannot hold nulls, so absent values are omitted.
+ */
+export interface ParcelTileProperties extends ParcelProperties {
+  _isInNem: boolean;
+  _hasOwner: boolean;
+  _allocation: ParcelAllocation;  // By the owner rules sent with the tile request (built-in rules elsewhere)
+  _division?: DivisionName;
+  _community?: number;
+  _landValue?: number;
+  _valuePerAcre?: number;
+  _geodesicArea?: number;
+  _sizeDiscrepancy?: number;  // Percent difference from SIZE_SQMT
+}
+
+/**
+ * Whole-dataset figures the tile client cannot derive from the tiles in view
+ */
+export interface ParcelTileSummary {
+  total: number;
+  nem: number;
+  withOwners: number;
+  sizeMin: number;
+  sizeMax: number;
+  valueSamples: Record<ValueMetric, number[]>;  // Evenly spaced sorted samples for class breaks
+}
+
+// Keeps lookup URLs comfortably short
+const IDS_PER_REQUEST = 400;
+// Longest owner rules parameter the tile route accepts
+export const MAX_OWNER_RULES_PARAM_LENGTH = 8000;
+
+// Enabled rules as compact [matchType, pattern, allocation] tuples, in evaluation order
+function ownerRulesParam(rules: OwnerRule[]): string {
+  return JSON.stringify(rules.filter(rule => rule.enabled).map(rule => [rule.matchType, rule.pattern, rule.allocation]));
+}
+
+const DEFAULT_OWNER_RULES_PARAM = ownerRulesParam(DEFAULT_OWNER_RULES);
+
+/**
+ * Owner rules from a tile request's `rules` parameter; throws when malformed
+ */
+export function parseOwnerRulesParam(param: string): OwnerRule[] {
+  if (param.length > MAX_OWNER_RULES_PARAM_LENGTH) {
+    throw new Error("Owner rules are too long");
+  }
+  const tuples: unknown = JSON.parse(param);
+  if (!Array.isArray(tuples)) {
+    throw new Error("Owner rules must be an array");
+  }
+  return tuples.map((tuple, index): OwnerRule => {
+    const [matchType, pattern, allocation] = Array.isArray(tuple) ? tuple : [];
+    if (!Object.prototype.hasOwnProperty.call(OWNER_RULE_MATCH_TYPE_LABELS, matchType)
+      || typeof pattern !== "string"
+      || !PARCEL_ALLOCATIONS.includes(allocation)) {
+      throw new Error(`Owner rule ${index + 1} is malformed`);
+    }
+    return {
+      id: `tile-rule-${index}`,
+      label: "",
+      matchType: matchType as OwnerRuleMatchType,
+      pattern,
+      allocation: allocation as ParcelAllocation,
+      enabled: true,
+    };
+  });
+}
+
+/**
+ * Absolute tile URL template (Mapbox does not resolve relative tile URLs).
+ * Custom owner rules travel with the request so the tiles carry the user's allocations.
+ */
+export function getParcelTileUrl(rules: OwnerRule[] = DEFAULT_OWNER_RULES): string {
+  const template = `${window.location.origin}/api/parcels/tiles/{z}/{x}/{y}`;
+  const param = ownerRulesParam(rules);
+  if (param === DEFAULT_OWNER_RULES_PARAM) return template;
+  if (param.length > MAX_OWNER_RULES_PARAM_LENGTH) {
+    console.warn("Owner rules are too long to send with tile requests; parcel tiles use the built-in rules");
+    return template;
+  }
+  return `${template}?${new URLSearchParams({ rules: param })}`;
+}
+
+async function fetchLookup(params: URLSearchParams): Promise<Feature<ParcelGeometry, ParcelTileProperties>[]> {
+  const response = await fetch(`/api/parcels/lookup?${params}`);
+  if (!response.ok) {
+    throw new Error(`Parcel lookup failed (${response.status})`);
+  }
+  const data = await response.json() as { features: Feature<ParcelGeometry, ParcelTileProperties>[] };
+  return data.features;
+}
+
+/**
+ * Full parcel features (with geometry) for a list of OBJECTIDs, in the order requested
+ */
+export async function fetchParcelsById(objectIds: number[]): Promise<Feature<ParcelGeometry, ParcelTileProperties>[]> {
+  const batches: number[][] = [];
+  for (let i = 0; i < objectIds.length; i += IDS_PER_REQUEST) {
+    batches.push(objectIds.slice(i, i + IDS_PER_REQUEST));
+  }
+  const results = await Promise.all(
+    batches.map(batch => fetchLookup(new URLSearchParams({ ids: batch.join(",") })))
+  );
+
+  const byId = new Map<number, Feature<ParcelGeometry, ParcelTileProperties>>();
+  results.flat().forEach(feature => byId.set(feature.properties.OBJECTID, feature));
+  return objectIds
+    .map(id => byId.get(id))
+    .filter((feature): feature is Feature<ParcelGeometry, ParcelTileProperties> => !!feature);
+}
+
+/**
+ * Full parcel features whose bounding boxes overlap an area, ignoring the map's filters and view
+ */
+export function fetchParcelsInBBox(bbox: BBox): Promise<Feature<ParcelGeometry, ParcelTileProperties>[]> {
+  return fetchLookup(new URLSearchParams({ bbox: bbox.join(",") }));
+}
+
+/**
+ * Server-side parcel search over the same fields the search bar checks locally
+ */
+export function searchParcels(query: string, limit: number): Promise<Feature<ParcelGeometry, ParcelTileProperties>[]> {
+  return fetchLookup(new URLSearchParams({ q: query, limit: String(limit) }));
+}
+
+export async function fetchParcelTileSummary(): Promise<ParcelTileSummary> {
+  const response = await fetch("/api/parcels/summary");
+  if (!response.ok) {
+    throw new Error(`Parcel summary failed (${response.status})`);
+  }
+  return response.json();
+}
@@ -1,5 +1,6 @@
-import type { FeatureCollection, Polygon } from "geojson";
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from "geojson";
 import type { Address } from "./addresses";
+import type { DivisionName } from "../geo/electoral-divisions";
 
 export interface ParcelProperties {
   OBJECTID: number;
@@ -14,12 +15,49 @@ export interface ParcelProperties {
   PARISH: string;
 }
 
-export type ParcelFeatureCollection = FeatureCollection<Polygon, ParcelProperties>;
+/**
+ * Parcel outlines: split parcels are MultiPolygons, and either kind may have holes
+ */
+export type ParcelGeometry = Polygon | MultiPolygon;
+
+export type ParcelFeature = Feature<ParcelGeometry, ParcelProperties>;
+
+export type ParcelFeatureCollection = FeatureCollection<ParcelGeometry, ParcelProperties>;
+
+/**
+ * Parcel attributes plus the map's derived fields, when the source has them
+ * (classified parcels in the browser, or features from the tile server)
+ */
+export interface ParcelRecordProperties extends ParcelProperties {
+  _division?: DivisionName | null;
+  _community?: number | null;
+  _geodesicArea?: number | null;
+}
+
+export type ParcelRecord = Feature<ParcelGeometry, ParcelRecordProperties>;
+
+export const PARCELS_URL = "/data/manchester_parcels.geojson";
+
+/**
+ * Keeps the features with polygon geometry; null or non-areal geometry cannot be drawn or measured
+ */
+export function withParcelGeometry(data: FeatureCollection): ParcelFeatureCollection {
+  const features = data.features.filter(
+    f => f.geometry?.type === "Polygon" || f.geometry?.type === "MultiPolygon"
+  ) as ParcelFeature[];
+  if (features.length < data.features.length) {
+    console.warn(`Skipped ${data.features.length - features.length} parcels without polygon geometry`);
+  }
+  return { ...data, features };
+}
 
 export async function loadParcels(): Promise<ParcelFeatureCollection> {
-  const response = await fetch("/data/manchester_parcels.geojson");
-  const data = await response.json();
-  return data as ParcelFeatureCollection;
+  const response = await fetch(PARCELS_URL);
+  return parseParcels(await response.text());
+}
+
+export function parseParcels(geojsonText: string): ParcelFeatureCollection {
+  return withParcelGeometry(JSON.parse(geojsonText) as FeatureCollection);
 }
 
 export interface LinkedParcelData {
@@ -57,6 +95,26 @@ export function formatParcelSize(sqmt: number): string {
   return `${sqmt.toLocaleString()} m²`;
 }
 
+// Digitized areas further than this from the recorded size are flagged as mismatches
+export const DEFAULT_SIZE_MISMATCH_PERCENT = 10;
+
+/**
+ * Digitized (geodesic) area minus the recorded size, as a percentage of the recorded size.
+ * Null when either figure is missing.
+ */
+export function sizeDiscrepancyPercent(recordedSqmt: number | null | undefined, geodesicSqmt: number | null | undefined): number | null {
+  if (!recordedSqmt || isNaN(recordedSqmt) || recordedSqmt <= 0) return null;
+  if (geodesicSqmt == null || isNaN(geodesicSqmt) || geodesicSqmt <= 0) return null;
+  return ((geodesicSqmt - recordedSqmt) / recordedSqmt) * 100;
+}
+
+/**
+ * Formats a discrepancy with its sign, e.g. "+12.5%"
+ */
+export function formatSizeDiscrepancy(percent: number): string {
+  return `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`;
+}
+
 export function getParcelDisplayName(parcel: ParcelProperties): string {
   return parcel.SCHEME_ADD || parcel.STREET_ADD || parcel.LOCATION || `Parcel ${parcel.PID}`;
 }
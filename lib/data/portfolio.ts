@@ -0,0 +1,170 @@
+import type { ParcelFeature, ParcelFeatureCollection } from "./parcels";
+import { normalizeOwnerName, type Owner } from "./owners";
+
+/**
+ * All parcels held by one (normalized) owner name
+ */
+export interface OwnerPortfolio {
+  key: string;                                   // Normalized owner name
+  displayName: string;                           // Most common spelling in the roll
+  nameVariants: string[];                        // Distinct spellings grouped under this owner
+  parcels: ParcelFeature[];
+  lvNumbers: string[];                           // Distinct valuation numbers
+  totalSqmt: number;
+  totalLandValue: number;                        // Summed once per valuation number
+}
+
+/**
+ * Groups parcels by normalized owner name via their LV_NUMBER.
+ * Parcels sharing a valuation number contribute their land value only once.
+ */
+export function createOwnerPortfolioIndex(
+  parcelsData: ParcelFeatureCollection,
+  ownerLookup: Map<string, Owner>
+): Map<string, OwnerPortfolio> {
+  const index = new Map<string, OwnerPortfolio>();
+  const variantCounts = new Map<string, Map<string, number>>();
+
+  for (const feature of parcelsData.features) {
+    const lvNumber = feature.properties?.LV_NUMBER;
+    if (!lvNumber) continue;
+    const owner = ownerLookup.get(lvNumber);
+    if (!owner || !owner.ownerName.trim()) continue;
+
+    const key = normalizeOwnerName(owner.ownerName);
+    if (!key) continue;
+
+    let portfolio = index.get(key);
+    if (!portfolio) {
+      portfolio = {
+        key,
+        displayName: key,
+        nameVariants: [],
+        parcels: [],
+        lvNumbers: [],
+        totalSqmt: 0,
+        totalLandValue: 0,
+      };
+      index.set(key, portfolio);
+      variantCounts.set(key, new Map());
+    }
+
+    portfolio.parcels.push(feature);
+    const sqmt = feature.properties.SIZE_SQMT;
+    if (sqmt && !isNaN(sqmt)) portfolio.totalSqmt += sqmt;
+
+    if (!portfolio.lvNumbers.includes(lvNumber)) {
+      portfolio.lvNumbers.push(lvNumber);
+      portfolio.totalLandValue += owner.landValueAmount ?? 0;
+    }
+
+    const spelling = owner.ownerName.replace(/\s+/g, " ").trim();
+    const counts = variantCounts.get(key)!;
+    counts.set(spelling, (counts.get(spelling) || 0) + 1);
+  }
+
+  // Resolve display names from the most frequent spelling
+  index.forEach((portfolio, key) => {
+    const counts = variantCounts.get(key)!;
+    const variants = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    portfolio.nameVariants = variants.map(([spelling]) => spelling);
+    portfolio.displayName = variants[0]?.[0] || key;
+  });
+
+  return index;
+}
+
+/**
+ * Finds the portfolio for the owner of a given valuation number
+ */
+export function getPortfolioForLvNumber(
+  lvNumber: string | null | undefined,
+  ownerLookup: Map<string, Owner>,
+  portfolioIndex: Map<string, OwnerPortfolio>
+): OwnerPortfolio | null {
+  if (!lvNumber) return null;
+  const owner = ownerLookup.get(lvNumber);
+  if (!owner) return null;
+  return portfolioIndex.get(normalizeOwnerName(owner.ownerName)) || null;
+}
+
+/**
+ * Edit distance between two words, giving up once it exceeds the limit
+ */
+function withinEditDistance(a: string, b: string, limit: number): boolean {
+  if (Math.abs(a.length - b.length) > limit) return false;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return false;
+    previous = current;
+  }
+  return previous[b.length] <= limit;
+}
+
+// Longer words tolerate more typos; short ones must match exactly
+function typoAllowance(word: string): number {
+  return word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+}
+
+/**
+ * How well a normalized owner name matches the query words (0 = no match).
+ * Whole-name and substring hits rank first, then names where every query
+ * word starts a name word, then names matched only with typos.
+ */
+function ownerMatchScore(key: string, query: string, queryWords: string[]): number {
+  if (key === query) return 5;
+  if (key.startsWith(query)) return 4;
+  if (key.includes(query)) return 3;
+
+  const words = key.split(" ");
+  let typos = false;
+  for (const queryWord of queryWords) {
+    if (words.some(word => word.startsWith(queryWord))) continue;
+    const allowance = typoAllowance(queryWord);
+    // Compare against the start of each name word so partly typed words still match
+    const fuzzy = allowance > 0 && words.some(word => {
+      for (let length = queryWord.length - allowance; length <= queryWord.length + allowance; length++) {
+        if (length <= word.length && withinEditDistance(queryWord, word.slice(0, length), allowance)) return true;
+      }
+      return false;
+    });
+    if (!fuzzy) return 0;
+    typos = true;
+  }
+  return typos ? 1 : 2;
+}
+
+/**
+ * Owners whose normalized name matches the query, tolerating small spelling
+ * differences; best matches first, then owners with more parcels
+ */
+export function searchOwnerPortfolios(
+  portfolioIndex: Map<string, OwnerPortfolio>,
+  query: string,
+  limit: number
+): OwnerPortfolio[] {
+  const normalized = normalizeOwnerName(query);
+  if (normalized.length < 2) return [];
+  const queryWords = normalized.split(" ");
+
+  const matches: { portfolio: OwnerPortfolio; score: number }[] = [];
+  portfolioIndex.forEach(portfolio => {
+    const score = ownerMatchScore(portfolio.key, normalized, queryWords);
+    if (score > 0) matches.push({ portfolio, score });
+  });
+
+  return matches
+    .sort((a, b) => b.score - a.score || b.portfolio.parcels.length - a.portfolio.parcels.length)
+    .slice(0, limit)
+    .map(match => match.portfolio);
+}
@@ -0,0 +1,63 @@
+import type { Feature, FeatureCollection, Polygon } from "geojson";
+import dissolve from "@turf/dissolve";
+import type { ParcelFeature } from "./parcels";
+import type { Owner } from "./owners";
+import { connectedComponents, neighbouringParcels, type AdjacencyGraph } from "../geo/adjacency";
+
+/**
+ * Contiguity of a multi-parcel site and what surrounds it
+ */
+export interface SiteAnalysis {
+  pieces: number[][];  // OBJECTIDs of each contiguous piece, largest first
+  neighbours: { parcel: ParcelFeature; owner: Owner | null }[];
+  outline: FeatureCollection<Polygon>;  // Dissolved outline of the combined site
+}
+
+/**
+ * Analyses the selected parcels against the adjacency graph of the full parcel dataset
+ */
+export function analyseSite(
+  objectIds: number[],
+  parcels: ParcelFeature[],
+  indexByObjectId: Map<number, number>,
+  graph: AdjacencyGraph,
+  ownerLookup: Map<string, Owner>
+): SiteAnalysis {
+  const indices = objectIds
+    .map(id => indexByObjectId.get(id))
+    .filter((i): i is number => i !== undefined);
+
+  const pieces = connectedComponents(indices, graph)
+    .map(piece => piece.map(i => parcels[i].properties.OBJECTID));
+
+  const neighbours = neighbouringParcels(indices, graph).map(i => {
+    const parcel = parcels[i];
+    const lvNumber = parcel.properties.LV_NUMBER;
+    return { parcel, owner: lvNumber ? ownerLookup.get(lvNumber) || null : null };
+  });
+
+  let outline: FeatureCollection<Polygon> = { type: "FeatureCollection", features: [] };
+  try {
+    // Dissolve takes single polygons, so split parcels contribute each of their parts
+    const parts: Feature<Polygon>[] = [];
+    for (const i of indices) {
+      const geometry = parcels[i].geometry;
+      const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+      polygons.forEach(coordinates => parts.push({ type: "Feature", properties: {}, geometry: { type: "Polygon", coordinates } }));
+    }
+    outline = dissolve({ type: "FeatureCollection", features: parts });
+  } catch (error) {
+    console.error("Failed to dissolve site outline:", error);
+  }
+
+  return { pieces, neighbours, outline };
+}
+
+/**
+ * OBJECTID -> feature index for the parcel dataset
+ */
+export function createParcelIndex(parcels: ParcelFeature[]): Map<number, number> {
+  const index = new Map<number, number>();
+  parcels.forEach((feature, i) => index.set(feature.properties.OBJECTID, i));
+  return index;
+}
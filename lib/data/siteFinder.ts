@@ -0,0 +1,311 @@
+import type { ParcelFeature } from "./parcels";
+import type { Owner } from "./owners";
+import { normalizeOwnerName, sumLandValue } from "./owners";
+import { getParcelAllocation, type ParcelAllocation } from "./allocation";
+import type { AdjacencyGraph } from "../geo/adjacency";
+import { labelPoint } from "../geo/labelPoint";
+
+/**
+ * What a candidate site must satisfy
+ */
+export interface SiteSearchCriteria {
+  minAcres: number;
+  maxAcres: number;
+  preferGovernment: boolean;
+}
+
+export const DEFAULT_SITE_CRITERIA: SiteSearchCriteria = {
+  minAcres: 20,
+  maxAcres: 50,
+  preferGovernment: true,
+};
+
+/**
+ * A contiguous cluster of parcels that together meet the acreage range
+ */
+export interface CandidateSite {
+  key: string;                 // Sorted OBJECTIDs, stable across searches
+  objectIds: number[];         // In the order the cluster was grown
+  acreage: number;
+  owners: string[];            // Distinct owners, largest holding first
+  governmentAcreage: number;
+  landValue: number;           // Known valuations, counting each LV number once
+  valuedAcreage: number;       // Acreage of the parcels with a known valuation
+  center: [number, number];
+}
+
+export type SiteRanking = "owners" | "acreage" | "landValue";
+
+export const SITE_RANKING_LABELS: Record<SiteRanking, string> = {
+  owners: "Fewest owners",
+  acreage: "Most acreage",
+  landValue: "Lowest value per acre",
+};
+
+// How far a fully government-held site moves up when government land is preferred,
+// as a fraction of the spread of the ranked measure across the results
+const GOVERNMENT_WEIGHT = 0.5;
+
+// Seeds tried per search; the largest (and government) parcels are tried first
+const MAX_SEEDS = 400;
+// Seeds grown between yields to the browser so progress can render
+const SEEDS_PER_BATCH = 20;
+const MAX_RESULTS = 50;
+
+// Groups parcels by owner; parcels without an owner record are each their own owner
+function ownerKey(parcel: ParcelFeature, ownerLookup: Map<string, Owner>): string {
+  const lvNumber = parcel.properties.LV_NUMBER;
+  const owner = lvNumber ? ownerLookup.get(lvNumber) : undefined;
+  if (owner?.ownerName) return normalizeOwnerName(owner.ownerName);
+  return lvNumber ? `lv:${lvNumber}` : `parcel:${parcel.properties.OBJECTID}`;
+}
+
+function ownerLabel(parcel: ParcelFeature, ownerLookup: Map<string, Owner>): string {
+  const lvNumber = parcel.properties.LV_NUMBER;
+  const owner = lvNumber ? ownerLookup.get(lvNumber) : undefined;
+  if (owner?.ownerName) return owner.ownerName.replace(/\s+/g, " ").trim();
+  return lvNumber ? `Unknown (LV ${lvNumber})` : "Unknown owner";
+}
+
+// Lexicographic comparison of equal-length score tuples
+function compareScores(a: number[], b: number[]): number {
+  for (let k = 0; k < a.length; k++) {
+    if (a[k] !== b[k]) return a[k] - b[k];
+  }
+  return 0;
+}
+
+/**
+ * Grows one cluster from a seed. Each step takes the eligible neighbour that adds no new
+ * owner, then a government parcel (when preferred), then the one sharing the most edges
+ * with the cluster, then the largest; neighbours that would overshoot the maximum are
+ * skipped. Returns null when the seed's surroundings cannot reach the minimum.
+ */
+function growCluster(
+  seed: number,
+  graph: AdjacencyGraph,
+  areaOf: (index: number) => number,
+  ownerOf: (index: number) => string,
+  isGovernment: (index: number) => boolean,
+  isEligible: (index: number) => boolean,
+  minSqmt: number,
+  maxSqmt: number
+): number[] | null {
+  const members = [seed];
+  const memberSet = new Set(members);
+  const owners = new Set([ownerOf(seed)]);
+  let total = areaOf(seed);
+
+  const links = new Map<number, number>();
+  const addLinks = (i: number) => {
+    for (const j of graph.neighbours(i)) {
+      if (!memberSet.has(j) && isEligible(j)) links.set(j, (links.get(j) || 0) + 1);
+    }
+  };
+  addLinks(seed);
+
+  while (total < minSqmt && links.size > 0) {
+    let best = -1;
+    let bestScore: number[] = [];
+    links.forEach((count, j) => {
+      const area = areaOf(j);
+      if (total + area > maxSqmt) return;
+      const score = [owners.has(ownerOf(j)) ? 1 : 0, isGovernment(j) ? 1 : 0, count, area];
+      if (best < 0 || compareScores(score, bestScore) > 0) {
+        best = j;
+        bestScore = score;
+      }
+    });
+    if (best < 0) break;
+
+    links.delete(best);
+    members.push(best);
+    memberSet.add(best);
+    owners.add(ownerOf(best));
+    total += areaOf(best);
+    addLinks(best);
+  }
+
+  return total >= minSqmt ? members : null;
+}
+
+/**
+ * Searches the eligible parcels (e.g. those passing the map filters) for contiguous
+ * clusters within the acreage range, growing one cluster from each seed parcel.
+ * Clusters overlapping one already found are dropped so results cover different ground.
+ * Runs in batches so the UI stays responsive; `onProgress` reports seeds tried.
+ */
+export async function findCandidateSites(
+  parcels: ParcelFeature[],
+  eligibleIndices: number[],
+  graph: AdjacencyGraph,
+  ownerLookup: Map<string, Owner>,
+  allocationLookup: Map<string, ParcelAllocation>,
+  criteria: SiteSearchCriteria,
+  onProgress?: (done: number, total: number) => void
+): Promise<CandidateSite[]> {
+  const minSqmt = criteria.minAcres * 4046.86;
+  const maxSqmt = criteria.maxAcres * 4046.86;
+
+  const areaOf = (i: number) => parcels[i].properties.SIZE_SQMT || 0;
+  const owners: string[] = new Array(parcels.length);
+  const ownerOf = (i: number) => owners[i] ?? (owners[i] = ownerKey(parcels[i], ownerLookup));
+  const isGovernment = (i: number) =>
+    criteria.preferGovernment &&
+    getParcelAllocation(parcels[i].properties.LV_NUMBER, allocationLookup) === "government";
+
+  // Parcels without a recorded size cannot count towards acreage
+  const eligible = new Set(eligibleIndices.filter(i => areaOf(i) > 0));
+  const isEligible = (i: number) => eligible.has(i);
+
+  const seeds = Array.from(eligible)
+    .filter(i => areaOf(i) <= maxSqmt)
+    .sort((a, b) => Number(isGovernment(b)) - Number(isGovernment(a)) || areaOf(b) - areaOf(a))
+    .slice(0, MAX_SEEDS);
+
+  const clustered = new Set<number>();
+  const sites: CandidateSite[] = [];
+
+  for (let s = 0; s < seeds.length; s++) {
+    if (s % SEEDS_PER_BATCH === 0) {
+      onProgress?.(s, seeds.length);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    const seed = seeds[s];
+    if (clustered.has(seed)) continue;
+    const members = growCluster(seed, graph, areaOf, ownerOf, isGovernment, isEligible, minSqmt, maxSqmt);
+    if (!members || members.some(i => clustered.has(i))) continue;
+
+    members.forEach(i => clustered.add(i));
+    sites.push(describeSite(members, parcels, ownerLookup, allocationLookup, ownerOf));
+  }
+
+  onProgress?.(seeds.length, seeds.length);
+  return sites;
+}
+
+function describeSite(
+  members: number[],
+  parcels: ParcelFeature[],
+  ownerLookup: Map<string, Owner>,
+  allocationLookup: Map<string, ParcelAllocation>,
+  ownerOf: (index: number) => string
+): CandidateSite {
+  const holdings = new Map<string, { label: string; sqmt: number }>();
+  let totalSqmt = 0;
+  let governmentSqmt = 0;
+  let valuedSqmt = 0;
+  let weightedLng = 0;
+  let weightedLat = 0;
+
+  for (const i of members) {
+    const parcel = parcels[i];
+    const sqmt = parcel.properties.SIZE_SQMT || 0;
+    totalSqmt += sqmt;
+    if (getParcelAllocation(parcel.properties.LV_NUMBER, allocationLookup) === "government") {
+      governmentSqmt += sqmt;
+    }
+    const lvNumber = parcel.properties.LV_NUMBER;
+    if (lvNumber && (ownerLookup.get(lvNumber)?.landValueAmount ?? null) !== null) {
+      valuedSqmt += sqmt;
+    }
+
+    const holding = holdings.get(ownerOf(i)) || { label: ownerLabel(parcel, ownerLookup), sqmt: 0 };
+    holding.sqmt += sqmt;
+    holdings.set(ownerOf(i), holding);
+
+    // Area-weighted mean of parcel label points is close enough to place a marker
+    const [lng, lat] = labelPoint(parcel.geometry);
+    weightedLng += lng * sqmt;
+    weightedLat += lat * sqmt;
+  }
+
+  const objectIds = members.map(i => parcels[i].properties.OBJECTID);
+  return {
+    key: [...objectIds].sort((a, b) => a - b).join(","),
+    objectIds,
+    acreage: totalSqmt / 4046.86,
+    owners: Array.from(holdings.values())
+      .sort((a, b) => b.sqmt - a.sqmt)
+      .map(holding => holding.label),
+    governmentAcreage: governmentSqmt / 4046.86,
+    landValue: sumLandValue(members.map(i => parcels[i].properties.LV_NUMBER), ownerLookup),
+    valuedAcreage: valuedSqmt / 4046.86,
+    center: totalSqmt > 0 ? [weightedLng / totalSqmt, weightedLat / totalSqmt] : [0, 0],
+  };
+}
+
+/**
+ * How completely a site's land is valued: sites with missing valuations cannot be
+ * compared on value, so they rank after fully valued ones
+ */
+export type SiteValuation = "full" | "partial" | "none";
+
+export function siteValuation(site: CandidateSite): SiteValuation {
+  if (site.valuedAcreage <= 0) return "none";
+  // Allow for rounding in the summed acreages
+  return site.valuedAcreage >= site.acreage - 1e-6 ? "full" : "partial";
+}
+
+/**
+ * Known land value per valued acre, or null when none of the site is valued
+ */
+export function siteValuePerAcre(site: CandidateSite): number | null {
+  return site.valuedAcreage > 0 ? site.landValue / site.valuedAcreage : null;
+}
+
+const VALUATION_ORDER: Record<SiteValuation, number> = { full: 0, partial: 1, none: 2 };
+
+/**
+ * Orders candidate sites by the chosen measure and keeps the best few.
+ * The measure is scaled to 0-1 across the results; when government land is preferred,
+ * the site's government share (times GOVERNMENT_WEIGHT) is subtracted from that score.
+ * Ranking by value compares value per valued acre, with partly valued and then
+ * unvalued sites last. Ties fall back to fewer owners, more government land, then
+ * lower value per acre.
+ */
+export function rankCandidateSites(
+  sites: CandidateSite[],
+  ranking: SiteRanking,
+  preferGovernment: boolean
+): CandidateSite[] {
+  const governmentShare = (site: CandidateSite) => site.acreage > 0 ? site.governmentAcreage / site.acreage : 0;
+  const valuePerAcre = (site: CandidateSite) => siteValuePerAcre(site) ?? Infinity;
+
+  // Lower is better
+  const measure = {
+    owners: (site: CandidateSite) => site.owners.length,
+    acreage: (site: CandidateSite) => -site.acreage,
+    landValue: valuePerAcre,
+  }[ranking];
+
+  const measured = sites.map(measure).filter(isFinite);
+  const min = measured.length > 0 ? Math.min(...measured) : 0;
+  const spread = measured.length > 0 ? Math.max(...measured) - min || 1 : 1;
+  const score = (site: CandidateSite) => {
+    const value = measure(site);
+    const scaled = isFinite(value) ? (value - min) / spread : 1;
+    return preferGovernment ? scaled - GOVERNMENT_WEIGHT * governmentShare(site) : scaled;
+  };
+  const byValuation = (a: CandidateSite, b: CandidateSite) =>
+    ranking === "landValue" ? VALUATION_ORDER[siteValuation(a)] - VALUATION_ORDER[siteValuation(b)] : 0;
+  const byOwners = (a: CandidateSite, b: CandidateSite) => a.owners.length - b.owners.length;
+  const byGovernment = (a: CandidateSite, b: CandidateSite) => governmentShare(b) - governmentShare(a);
+  const byValuePerAcre = (a: CandidateSite, b: CandidateSite) => {
+    const difference = valuePerAcre(a) - valuePerAcre(b);
+    return isNaN(difference) ? 0 : difference;
+  };
+
+  return sites
+    .map(site => ({ site, score: score(site) }))
+    .sort((a, b) =>
+      byValuation(a.site, b.site) ||
+      a.score - b.score ||
+      byOwners(a.site, b.site) ||
+      byGovernment(a.site, b.site) ||
+      byValuePerAcre(a.site, b.site)
+    )
+    .slice(0, MAX_RESULTS)
+    .map(entry => entry.site);
+}
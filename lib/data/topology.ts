@@ -0,0 +1,278 @@
+import type { MultiPoint, MultiPolygon, Polygon } from "geojson";
+import type { ParcelFeature } from "./parcels";
+import { DIVISION_NAMES, type DivisionName } from "../geo/electoral-divisions";
+import { bboxExtent, createBBoxIndex, geometryBBox, type BBox } from "../geo/spatialIndex";
+import { findGaps, findOverlap, geometrySignature, selfIntersections } from "../geo/topology";
+import { labelPoint } from "../geo/labelPoint";
+
+/**
+ * Kinds of parcel fabric error
+ */
+export type TopologyIssueType = "overlap" | "gap" | "selfIntersection" | "duplicate";
+
+export const TOPOLOGY_ISSUE_TYPES: TopologyIssueType[] = ["overlap", "gap", "selfIntersection", "duplicate"];
+
+export const TOPOLOGY_ISSUE_LABELS: Record<TopologyIssueType, string> = {
+  overlap: "Overlapping parcels",
+  gap: "Gaps and slivers",
+  selfIntersection: "Self-intersecting rings",
+  duplicate: "Duplicate geometries",
+};
+
+export const TOPOLOGY_ISSUE_COLORS: Record<TopologyIssueType, string> = {
+  overlap: "#EF4444",
+  gap: "#F59E0B",
+  selfIntersection: "#F97316",
+  duplicate: "#D946EF",
+};
+
+export interface TopologyIssue {
+  id: string;
+  type: TopologyIssueType;
+  title: string;
+  detail: string;
+  objectIds: number[];                        // Parcels involved (neighbours, for gaps)
+  areaSqmt: number | null;                    // Overlap or gap area
+  division: DivisionName | null;
+  coordinates: [number, number];              // Where to fly to
+  geometry: Polygon | MultiPolygon | MultiPoint;  // What to draw: the overlap, gap, parcel or crossing points
+}
+
+/**
+ * Fabric quality for one division (or the parcels outside every division)
+ */
+export interface DivisionFabricSummary {
+  parcels: number;
+  cleanParcels: number;  // Parcels involved in no issue
+  counts: Record<TopologyIssueType, number>;
+  overlapSqmt: number;
+  gapSqmt: number;
+}
+
+export type FabricSummaryKey = DivisionName | "unassigned";
+
+export const FABRIC_SUMMARY_KEYS: FabricSummaryKey[] = [...DIVISION_NAMES, "unassigned"];
+
+/**
+ * A grid cell whose parcels could not be dissolved, so its gaps went unchecked
+ */
+export interface FailedGapCell {
+  extent: BBox;
+  parcels: number;
+  message: string;
+}
+
+export interface TopologyReport {
+  issues: TopologyIssue[];
+  divisions: Record<FabricSummaryKey, DivisionFabricSummary>;
+  maxGapSqmt: number;
+  failedGapCells: FailedGapCell[];
+}
+
+/**
+ * Everything the check needs; plain data, so it can be posted to a worker
+ */
+export interface TopologyInput {
+  parcels: ParcelFeature[];
+  divisions: (DivisionName | null)[];  // Index-aligned with the parcels
+  maxGapSqmt: number;
+}
+
+// Gaps up to this size are reported by default; larger holes are roads, rivers or unmapped land
+export const DEFAULT_MAX_GAP_SQMT = 100;
+
+// Smaller overlaps and gaps are rounding noise along shared boundaries
+const MIN_AREA_SQMT = 0.1;
+// Parcels per grid cell when looking for gaps (each cell's parcels are dissolved together)
+const PARCELS_PER_GAP_CELL = 150;
+// Cells are widened by this fraction of their size so gaps near an edge are still enclosed
+const GAP_CELL_MARGIN = 0.25;
+// Work done between progress reports
+const PARCELS_PER_BATCH = 250;
+const CELLS_PER_BATCH = 4;
+
+function parcelLabel(parcel: ParcelFeature): string {
+  return parcel.properties.PID || `OBJECTID ${parcel.properties.OBJECTID}`;
+}
+
+function formatSqmt(sqmt: number): string {
+  return `${sqmt < 10 ? sqmt.toFixed(1) : Math.round(sqmt).toLocaleString("en-US")} m²`;
+}
+
+function emptySummary(): DivisionFabricSummary {
+  return {
+    parcels: 0,
+    cleanParcels: 0,
+    counts: { overlap: 0, gap: 0, selfIntersection: 0, duplicate: 0 },
+    overlapSqmt: 0,
+    gapSqmt: 0,
+  };
+}
+
+/**
+ * Checks the parcel fabric for overlapping parcels, small gaps between them,
+ * self-intersecting rings and duplicate geometries, and summarises each division.
+ * Synchronous and CPU-heavy, so the app runs it in the preprocessing worker;
+ * `onProgress` reports work done.
+ */
+export function checkTopology(
+  { parcels, divisions: parcelDivisions, maxGapSqmt }: TopologyInput,
+  onProgress?: (done: number, total: number) => void
+): TopologyReport {
+  const divisionOf = (index: number) => parcelDivisions[index] ?? null;
+  const issues: TopologyIssue[] = [];
+  const failedGapCells: FailedGapCell[] = [];
+  const bboxes: BBox[] = parcels.map(p => geometryBBox(p.geometry));
+  const index = createBBoxIndex(bboxes, 128);
+
+  const cellsPerSide = Math.max(1, Math.ceil(Math.sqrt(parcels.length / PARCELS_PER_GAP_CELL)));
+  const total = parcels.length + cellsPerSide * cellsPerSide;
+
+  // Duplicates: identical vertex sets
+  const bySignature = new Map<string, number[]>();
+  parcels.forEach((parcel, i) => {
+    const signature = geometrySignature(parcel.geometry);
+    const group = bySignature.get(signature);
+    if (group) group.push(i);
+    else bySignature.set(signature, [i]);
+  });
+  const duplicateOf = new Map<number, number>();
+  bySignature.forEach(group => {
+    if (group.length < 2) return;
+    group.forEach(i => duplicateOf.set(i, group[0]));
+    const first = parcels[group[0]];
+    issues.push({
+      id: `duplicate-${first.properties.OBJECTID}`,
+      type: "duplicate",
+      title: `${group.length} parcels share one geometry`,
+      detail: group.map(i => parcelLabel(parcels[i])).join(", "),
+      objectIds: group.map(i => parcels[i].properties.OBJECTID),
+      areaSqmt: null,
+      division: divisionOf(group[0]),
+      coordinates: labelPoint(first.geometry),
+      geometry: first.geometry,
+    });
+  });
+
+  // Self-intersections and overlaps, one parcel at a time
+  const selfIntersecting = new Set<number>();
+  for (let i = 0; i < parcels.length; i++) {
+    if (i % PARCELS_PER_BATCH === 0) onProgress?.(i, total);
+    const parcel = parcels[i];
+
+    const crossings = selfIntersections(parcel.geometry);
+    if (crossings.length > 0) {
+      selfIntersecting.add(i);
+      issues.push({
+        id: `self-${parcel.properties.OBJECTID}`,
+        type: "selfIntersection",
+        title: `Parcel ${parcelLabel(parcel)} crosses itself`,
+        detail: `${crossings.length} crossing point${crossings.length === 1 ? "" : "s"}`,
+        objectIds: [parcel.properties.OBJECTID],
+        areaSqmt: null,
+        division: divisionOf(i),
+        coordinates: [crossings[0][0], crossings[0][1]],
+        geometry: { type: "MultiPoint", coordinates: crossings },
+      });
+    }
+
+    for (const j of index.searchBox(bboxes[i])) {
+      // Each pair once; duplicates are already reported as such
+      if (j <= i || (duplicateOf.has(i) && duplicateOf.get(i) === duplicateOf.get(j))) continue;
+      const overlap = findOverlap(parcel, parcels[j], MIN_AREA_SQMT);
+      if (!overlap) continue;
+      issues.push({
+        id: `overlap-${parcel.properties.OBJECTID}-${parcels[j].properties.OBJECTID}`,
+        type: "overlap",
+        title: `${parcelLabel(parcel)} overlaps ${parcelLabel(parcels[j])}`,
+        detail: `${formatSqmt(overlap.areaSqmt)} claimed by both`,
+        objectIds: [parcel.properties.OBJECTID, parcels[j].properties.OBJECTID],
+        areaSqmt: overlap.areaSqmt,
+        division: divisionOf(i),
+        coordinates: overlap.center,
+        geometry: overlap.geometry,
+      });
+    }
+  }
+
+  // Gaps: holes in the dissolved fabric, cell by cell
+  const valid = bboxes.filter(b => b[0] <= b[2] && b[1] <= b[3]);
+  if (valid.length > 0) {
+    const [minLng, minLat, maxLng, maxLat] = bboxExtent(valid);
+    const cellWidth = (maxLng - minLng) / cellsPerSide;
+    const cellHeight = (maxLat - minLat) / cellsPerSide;
+
+    for (let cell = 0; cell < cellsPerSide * cellsPerSide; cell++) {
+      if (cell % CELLS_PER_BATCH === 0) onProgress?.(parcels.length + cell, total);
+      const x = cell % cellsPerSide;
+      const y = Math.floor(cell / cellsPerSide);
+      const core: BBox = [
+        minLng + x * cellWidth,
+        minLat + y * cellHeight,
+        // The last row and column take the far edge, which is otherwise exclusive
+        x === cellsPerSide - 1 ? Infinity : minLng + (x + 1) * cellWidth,
+        y === cellsPerSide - 1 ? Infinity : minLat + (y + 1) * cellHeight,
+      ];
+      const extent: BBox = [
+        minLng + (x - GAP_CELL_MARGIN) * cellWidth,
+        minLat + (y - GAP_CELL_MARGIN) * cellHeight,
+        minLng + (x + 1 + GAP_CELL_MARGIN) * cellWidth,
+        minLat + (y + 1 + GAP_CELL_MARGIN) * cellHeight,
+      ];
+
+      // Invalid rings would break the dissolve for the whole cell
+      const members = index.searchBox(extent).filter(i => !selfIntersecting.has(i));
+      let gaps: ReturnType<typeof findGaps> = [];
+      try {
+        gaps = findGaps(members.map(i => parcels[i].geometry), core, extent, MIN_AREA_SQMT, maxGapSqmt);
+      } catch (error) {
+        // Usually invalid geometry in the cell, which the other checks report
+        failedGapCells.push({
+          extent,
+          parcels: members.length,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      for (const gap of gaps) {
+        const gapBBox = geometryBBox(gap.geometry);
+        const neighbours = index.searchBox(gapBBox);
+        issues.push({
+          id: `gap-${gap.center[0].toFixed(6)}-${gap.center[1].toFixed(6)}`,
+          type: "gap",
+          title: `Gap of ${formatSqmt(gap.areaSqmt)}`,
+          detail: neighbours.length > 0
+            ? `Between ${neighbours.slice(0, 4).map(i => parcelLabel(parcels[i])).join(", ")}${neighbours.length > 4 ? "..." : ""}`
+            : "No neighbouring parcels",
+          objectIds: neighbours.map(i => parcels[i].properties.OBJECTID),
+          areaSqmt: gap.areaSqmt,
+          division: neighbours.length > 0 ? divisionOf(neighbours[0]) : null,
+          coordinates: gap.center,
+          geometry: gap.geometry,
+        });
+      }
+    }
+  }
+
+  onProgress?.(total, total);
+
+  // Per-division summary
+  const divisions = {} as Record<FabricSummaryKey, DivisionFabricSummary>;
+  for (const key of FABRIC_SUMMARY_KEYS) divisions[key] = emptySummary();
+
+  const flagged = new Set<number>();
+  for (const issue of issues) {
+    const summary = divisions[issue.division ?? "unassigned"];
+    summary.counts[issue.type]++;
+    if (issue.type === "overlap") summary.overlapSqmt += issue.areaSqmt ?? 0;
+    if (issue.type === "gap") summary.gapSqmt += issue.areaSqmt ?? 0;
+    issue.objectIds.forEach(id => flagged.add(id));
+  }
+  parcels.forEach((parcel, i) => {
+    const summary = divisions[divisionOf(i) ?? "unassigned"];
+    summary.parcels++;
+    if (!flagged.has(parcel.properties.OBJECTID)) summary.cleanParcels++;
+  });
+
+  return { issues, divisions, maxGapSqmt, failedGapCells };
+}
@@ -0,0 +1,163 @@
+/**
+ * Land value classification for the valuation choropleth
+ */
+
+export type ValueMetric = "landValue" | "valuePerAcre";
+
+export type ClassificationMethod = "quantile" | "naturalBreaks";
+
+export const VALUE_METRIC_LABELS: Record<ValueMetric, string> = {
+  landValue: "Land value",
+  valuePerAcre: "Value per acre",
+};
+
+export const CLASSIFICATION_METHOD_LABELS: Record<ClassificationMethod, string> = {
+  quantile: "Quantile",
+  naturalBreaks: "Natural breaks",
+};
+
+// Sequential yellow → red ramp, low to high value
+export const VALUE_CLASS_COLORS = ["#FFFFB2", "#FECC5C", "#FD8D3C", "#F03B20", "#BD0026"];
+
+export const NO_VALUE_COLOR = "#64748B";
+
+// Natural breaks is O(n² · k); larger inputs are sampled down to this many sorted values
+const NATURAL_BREAKS_SAMPLE_SIZE = 1000;
+
+/**
+ * Quantile breaks: each class holds roughly the same number of values.
+ * Returns the lower bound of every class after the first (ascending, deduplicated).
+ */
+export function computeQuantileBreaks(values: number[], classCount: number): number[] {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const breaks: number[] = [];
+  for (let i = 1; i < classCount; i++) {
+    breaks.push(sorted[Math.floor((i * sorted.length) / classCount)]);
+  }
+  return dedupeBreaks(breaks, sorted[0]);
+}
+
+/**
+ * Jenks/Fisher natural breaks: minimizes within-class variance.
+ * Returns the lower bound of every class after the first (ascending, deduplicated).
+ */
+export function computeNaturalBreaks(values: number[], classCount: number): number[] {
+  if (values.length === 0) return [];
+  const sorted = sampleSorted([...values].sort((a, b) => a - b), NATURAL_BREAKS_SAMPLE_SIZE);
+  const n = sorted.length;
+  const k = Math.min(classCount, n);
+  if (k < 2) return [];
+
+  // lowerClassLimits[i][j]: index (1-based) where class j starts when classifying the first i values
+  const lowerClassLimits: number[][] = [];
+  const varianceCombinations: number[][] = [];
+  for (let i = 0; i <= n; i++) {
+    lowerClassLimits.push(new Array(k + 1).fill(0));
+    varianceCombinations.push(new Array(k + 1).fill(i === 0 ? 0 : Infinity));
+  }
+  for (let j = 1; j <= k; j++) {
+    lowerClassLimits[1][j] = 1;
+    varianceCombinations[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+
+    for (let m = 1; m <= l; m++) {
+      const lowerIndex = l - m + 1;
+      const value = sorted[lowerIndex - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+
+      if (lowerIndex > 1) {
+        for (let j = 2; j <= k; j++) {
+          const candidate = variance + varianceCombinations[lowerIndex - 1][j - 1];
+          if (varianceCombinations[l][j] >= candidate) {
+            lowerClassLimits[l][j] = lowerIndex;
+            varianceCombinations[l][j] = candidate;
+          }
+        }
+      }
+    }
+    lowerClassLimits[l][1] = 1;
+    varianceCombinations[l][1] = variance;
+  }
+
+  // Walk back from the last value to recover where each class starts
+  const breaks: number[] = [];
+  let upper = n;
+  for (let j = k; j >= 2; j--) {
+    const start = lowerClassLimits[upper][j];
+    breaks.unshift(sorted[start - 1]);
+    upper = start - 1;
+  }
+  return dedupeBreaks(breaks, sorted[0]);
+}
+
+/**
+ * Computes class breaks with the chosen method
+ */
+export function computeClassBreaks(
+  values: number[],
+  method: ClassificationMethod,
+  classCount: number = VALUE_CLASS_COLORS.length
+): number[] {
+  return method === "quantile"
+    ? computeQuantileBreaks(values, classCount)
+    : computeNaturalBreaks(values, classCount);
+}
+
+/**
+ * Human-readable legend entries for a set of breaks
+ */
+export function describeClasses(
+  breaks: number[],
+  format: (value: number) => string
+): { color: string; label: string }[] {
+  if (breaks.length === 0) return [];
+  const entries = [{ color: VALUE_CLASS_COLORS[0], label: `< ${format(breaks[0])}` }];
+  for (let i = 0; i < breaks.length; i++) {
+    const color = VALUE_CLASS_COLORS[i + 1];
+    const next = breaks[i + 1];
+    entries.push({
+      color,
+      label: next !== undefined
+        ? `${format(breaks[i])} – ${format(next)}`
+        : `≥ ${format(breaks[i])}`,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Compact currency label for legends ("$1.2M", "$450K")
+ */
+export function formatCompactValue(value: number): string {
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `$${Math.round(value / 1_000)}K`;
+  return `$${Math.round(value)}`;
+}
+
+// Breaks must be strictly increasing and above the minimum for a step expression
+function dedupeBreaks(breaks: number[], min: number): number[] {
+  const result: number[] = [];
+  for (const value of breaks) {
+    const last = result.length > 0 ? result[result.length - 1] : min;
+    if (value > last) result.push(value);
+  }
+  return result;
+}
+
+// Evenly spaced sample that keeps the minimum and maximum
+function sampleSorted(sorted: number[], size: number): number[] {
+  if (sorted.length <= size) return sorted;
+  const sample: number[] = [];
+  for (let i = 0; i < size; i++) {
+    sample.push(sorted[Math.round((i * (sorted.length - 1)) / (size - 1))]);
+  }
+  return sample;
+}
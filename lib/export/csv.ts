@@ -0,0 +1,26 @@
+import { downloadBlob } from "./download";
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Quote fields containing delimiters, quotes or line breaks (RFC 4180)
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes a header row and data rows to CSV text
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCsvValue).join(","))
+    .join("\r\n");
+}
+
+/**
+ * Downloads CSV text as a file (with a BOM so Excel detects UTF-8)
+ */
+export function downloadCsv(csv: string, filename: string): void {
+  downloadBlob(new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" }), filename);
+}
@@ -0,0 +1,145 @@
+import initSqlJs from "sql.js";
+import type { Position } from "geojson";
+import { PARCEL_EXPORT_COLUMNS, type ParcelExportCollection } from "./gis";
+
+// "GPKG" application id and GeoPackage 1.3 schema version
+const GPKG_APPLICATION_ID = 0x47504b47;
+const GPKG_USER_VERSION = 10300;
+const WGS84_SRS_ID = 4326;
+
+const WGS84_WKT = 'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]';
+
+const SQL_TYPES = { text: "TEXT", integer: "INTEGER", real: "REAL" } as const;
+
+const CORE_SCHEMA = `
+  CREATE TABLE gpkg_spatial_ref_sys (
+    srs_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL PRIMARY KEY,
+    organization TEXT NOT NULL,
+    organization_coordsys_id INTEGER NOT NULL,
+    definition TEXT NOT NULL,
+    description TEXT
+  );
+  CREATE TABLE gpkg_contents (
+    table_name TEXT NOT NULL PRIMARY KEY,
+    data_type TEXT NOT NULL,
+    identifier TEXT UNIQUE,
+    description TEXT DEFAULT '',
+    last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+    min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE,
+    srs_id INTEGER REFERENCES gpkg_spatial_ref_sys(srs_id)
+  );
+  CREATE TABLE gpkg_geometry_columns (
+    table_name TEXT NOT NULL REFERENCES gpkg_contents(table_name),
+    column_name TEXT NOT NULL,
+    geometry_type_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL REFERENCES gpkg_spatial_ref_sys(srs_id),
+    z TINYINT NOT NULL,
+    m TINYINT NOT NULL,
+    PRIMARY KEY (table_name, column_name)
+  );
+  INSERT INTO gpkg_spatial_ref_sys VALUES
+    ('Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', NULL),
+    ('Undefined geographic SRS', 0, 'NONE', 0, 'undefined', NULL);
+`;
+
+type Envelope = [number, number, number, number];  // minX, minY, maxX, maxY
+
+/**
+ * GeoPackage geometry blob: the "GP" header with an XY envelope, then
+ * little-endian WKB. Every parcel is written as a MultiPolygon.
+ */
+function geometryBlob(polygons: Position[][][]): { blob: Uint8Array; envelope: Envelope } {
+  const envelope: Envelope = [Infinity, Infinity, -Infinity, -Infinity];
+  let bytes = 8 + 32 + 9;
+  for (const rings of polygons) {
+    bytes += 9;
+    for (const ring of rings) {
+      bytes += 4 + ring.length * 16;
+      for (const [x, y] of ring) {
+        envelope[0] = Math.min(envelope[0], x);
+        envelope[1] = Math.min(envelope[1], y);
+        envelope[2] = Math.max(envelope[2], x);
+        envelope[3] = Math.max(envelope[3], y);
+      }
+    }
+  }
+
+  const blob = new Uint8Array(bytes);
+  const view = new DataView(blob.buffer);
+  blob.set([0x47, 0x50, 0, 0b0011], 0);  // "GP", version 0, little-endian with an XY envelope
+  view.setInt32(4, WGS84_SRS_ID, true);
+  [envelope[0], envelope[2], envelope[1], envelope[3]].forEach((value, i) => view.setFloat64(8 + i * 8, value, true));
+
+  let offset = 40;
+  const header = (type: number, count: number) => {
+    view.setUint8(offset, 1);
+    view.setUint32(offset + 1, type, true);
+    view.setUint32(offset + 5, count, true);
+    offset += 9;
+  };
+  header(6, polygons.length);
+  for (const rings of polygons) {
+    header(3, rings.length);
+    for (const ring of rings) {
+      view.setUint32(offset, ring.length, true);
+      offset += 4;
+      for (const [x, y] of ring) {
+        view.setFloat64(offset, x, true);
+        view.setFloat64(offset + 8, y, true);
+        offset += 16;
+      }
+    }
+  }
+  return { blob, envelope };
+}
+
+/**
+ * GeoPackage (SQLite) database with the parcels as one MultiPolygon feature table in WGS 84.
+ * Runs on the server: sql.js loads its WebAssembly from node_modules.
+ */
+export async function toGeoPackage(collection: ParcelExportCollection, tableName: string): Promise<Uint8Array> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.run(`PRAGMA application_id = ${GPKG_APPLICATION_ID}; PRAGMA user_version = ${GPKG_USER_VERSION};`);
+    db.run(CORE_SCHEMA);
+    db.run("INSERT INTO gpkg_spatial_ref_sys VALUES ('WGS 84 geodetic', ?, 'EPSG', ?, ?, 'longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid')", [
+      WGS84_SRS_ID, WGS84_SRS_ID, WGS84_WKT,
+    ]);
+
+    const table = `"${tableName.replace(/"/g, '""')}"`;
+    const columns = PARCEL_EXPORT_COLUMNS.map(column => `"${column.name}" ${SQL_TYPES[column.type]}`);
+    db.run(`CREATE TABLE ${table} (fid INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL, geom MULTIPOLYGON, ${columns.join(", ")})`);
+
+    const bounds: Envelope = [Infinity, Infinity, -Infinity, -Infinity];
+    const insert = db.prepare(
+      `INSERT INTO ${table} (geom, ${PARCEL_EXPORT_COLUMNS.map(c => `"${c.name}"`).join(", ")}) VALUES (?${", ?".repeat(PARCEL_EXPORT_COLUMNS.length)})`
+    );
+    db.run("BEGIN");
+    for (const feature of collection.features) {
+      const polygons = feature.geometry.type === "Polygon" ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+      const { blob, envelope } = geometryBlob(polygons);
+      bounds[0] = Math.min(bounds[0], envelope[0]);
+      bounds[1] = Math.min(bounds[1], envelope[1]);
+      bounds[2] = Math.max(bounds[2], envelope[2]);
+      bounds[3] = Math.max(bounds[3], envelope[3]);
+      insert.run([blob, ...PARCEL_EXPORT_COLUMNS.map(column => feature.properties[column.name] ?? null)]);
+    }
+    db.run("COMMIT");
+    insert.free();
+
+    const hasBounds = collection.features.length > 0;
+    db.run("INSERT INTO gpkg_contents (table_name, data_type, identifier, min_x, min_y, max_x, max_y, srs_id) VALUES (?, 'features', ?, ?, ?, ?, ?, ?)", [
+      tableName, tableName,
+      hasBounds ? bounds[0] : null, hasBounds ? bounds[1] : null,
+      hasBounds ? bounds[2] : null, hasBounds ? bounds[3] : null,
+      WGS84_SRS_ID,
+    ]);
+    db.run("INSERT INTO gpkg_geometry_columns VALUES (?, 'geom', 'MULTIPOLYGON', ?, 0, 0)", [tableName, WGS84_SRS_ID]);
+
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
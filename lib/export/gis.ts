@@ -0,0 +1,150 @@
+import type { Feature, FeatureCollection } from "geojson";
+import type { ParcelFeature, ParcelGeometry, ParcelProperties } from "../data/parcels";
+import type { Owner } from "../data/owners";
+import type { Address } from "../data/addresses";
+import { downloadBlob } from "./download";
+import { toKml } from "./kml";
+import { toShapefileZip } from "./shapefile";
+
+/**
+ * GIS file formats parcels can be exported to
+ */
+export type GisExportFormat = "geojson" | "kml" | "shapefile" | "geopackage";
+
+export const GIS_EXPORT_FORMATS: GisExportFormat[] = ["geojson", "kml", "shapefile", "geopackage"];
+
+export const GIS_EXPORT_FORMAT_LABELS: Record<GisExportFormat, string> = {
+  geojson: "GeoJSON",
+  kml: "KML",
+  shapefile: "Shapefile (.zip)",
+  geopackage: "GeoPackage",
+};
+
+const FILE_EXTENSIONS: Record<GisExportFormat, string> = {
+  geojson: "geojson",
+  kml: "kml",
+  shapefile: "zip",
+  geopackage: "gpkg",
+};
+
+export const GEOPACKAGE_EXPORT_URL = "/api/export/geopackage";
+
+/**
+ * Parcel attributes with the owner and linked address joined on. Names stay within
+ * ten characters so they survive the Shapefile (dBASE) column limit unchanged.
+ */
+export interface ParcelExportProperties extends ParcelProperties {
+  ACRES: number | null;
+  OWNER_NAME: string | null;
+  LAND_VALUE: number | null;  // Numeric land value from the owner roll
+  TITLE_REF: string | null;
+  LINK_ADDR: string | null;   // Full address of the linked address point
+}
+
+export type ParcelExportFeature = Feature<ParcelGeometry, ParcelExportProperties>;
+
+export type ParcelExportCollection = FeatureCollection<ParcelGeometry, ParcelExportProperties>;
+
+/**
+ * Column of an export table and the type its values are written as
+ */
+export interface ExportColumn {
+  name: keyof ParcelExportProperties;
+  type: "text" | "integer" | "real";
+}
+
+export const PARCEL_EXPORT_COLUMNS: ExportColumn[] = [
+  { name: "OBJECTID", type: "integer" },
+  { name: "PID", type: "text" },
+  { name: "LV_NUMBER", type: "text" },
+  { name: "VOL_FOL", type: "text" },
+  { name: "SIZE_SQMT", type: "real" },
+  { name: "ACRES", type: "real" },
+  { name: "STREET_ADD", type: "text" },
+  { name: "SCHEME_ADD", type: "text" },
+  { name: "FULLADDRES", type: "text" },
+  { name: "LOCATION", type: "text" },
+  { name: "PARISH", type: "text" },
+  { name: "OWNER_NAME", type: "text" },
+  { name: "LAND_VALUE", type: "real" },
+  { name: "TITLE_REF", type: "text" },
+  { name: "LINK_ADDR", type: "text" },
+];
+
+/**
+ * Parcels with their recorded attributes (map-only "_" fields dropped) and the
+ * owner and address joined on by LV number
+ */
+export function parcelExportFeatures(
+  parcels: ParcelFeature[],
+  ownerLookup: Map<string, Owner>,
+  addressLookup: Map<string, Address>
+): ParcelExportCollection {
+  return {
+    type: "FeatureCollection",
+    features: parcels.map(parcel => {
+      const p = parcel.properties;
+      const owner = p.LV_NUMBER ? ownerLookup.get(p.LV_NUMBER) : undefined;
+      const address = p.LV_NUMBER ? addressLookup.get(p.LV_NUMBER) : undefined;
+      const sqmt = p.SIZE_SQMT && !isNaN(p.SIZE_SQMT) ? p.SIZE_SQMT : null;
+      return {
+        type: "Feature",
+        properties: {
+          OBJECTID: p.OBJECTID,
+          PID: p.PID,
+          LV_NUMBER: p.LV_NUMBER,
+          VOL_FOL: p.VOL_FOL,
+          SIZE_SQMT: p.SIZE_SQMT,
+          ACRES: sqmt !== null ? Number((sqmt / 4046.86).toFixed(4)) : null,
+          STREET_ADD: p.STREET_ADD,
+          SCHEME_ADD: p.SCHEME_ADD,
+          FULLADDRES: p.FULLADDRES,
+          LOCATION: p.LOCATION,
+          PARISH: p.PARISH,
+          OWNER_NAME: owner?.ownerName || null,
+          LAND_VALUE: owner?.landValueAmount ?? null,
+          TITLE_REF: address?.titleReference || null,
+          LINK_ADDR: address?.fullAddress || null,
+        },
+        geometry: parcel.geometry,
+      };
+    }),
+  };
+}
+
+async function requestGeoPackage(collection: ParcelExportCollection, name: string): Promise<Blob> {
+  const response = await fetch(GEOPACKAGE_EXPORT_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, collection }),
+  });
+  if (!response.ok) throw new Error(`GeoPackage export failed: ${response.status}`);
+  return response.blob();
+}
+
+/**
+ * Writes the parcels in the chosen format and downloads the file. GeoJSON, KML and
+ * Shapefile are built in the browser; GeoPackage (SQLite) by the local API route.
+ */
+export async function exportParcels(
+  format: GisExportFormat,
+  collection: ParcelExportCollection,
+  name: string
+): Promise<void> {
+  let blob: Blob;
+  switch (format) {
+    case "geojson":
+      blob = new Blob([JSON.stringify(collection)], { type: "application/geo+json" });
+      break;
+    case "kml":
+      blob = new Blob([toKml(collection, name)], { type: "application/vnd.google-earth.kml+xml" });
+      break;
+    case "shapefile":
+      blob = await toShapefileZip(collection, name);
+      break;
+    case "geopackage":
+      blob = await requestGeoPackage(collection, name);
+      break;
+  }
+  downloadBlob(blob, `${name}.${FILE_EXTENSIONS[format]}`);
+}
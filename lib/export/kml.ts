@@ -0,0 +1,49 @@
+import type { Position } from "geojson";
+import { PARCEL_EXPORT_COLUMNS, type ParcelExportCollection } from "./gis";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function linearRing(ring: Position[]): string {
+  return `<LinearRing><coordinates>${ring.map(([lng, lat]) => `${lng},${lat}`).join(" ")}</coordinates></LinearRing>`;
+}
+
+function polygonKml(rings: Position[][]): string {
+  const [outer, ...holes] = rings;
+  return "<Polygon>"
+    + `<outerBoundaryIs>${linearRing(outer)}</outerBoundaryIs>`
+    + holes.map(hole => `<innerBoundaryIs>${linearRing(hole)}</innerBoundaryIs>`).join("")
+    + "</Polygon>";
+}
+
+/**
+ * KML document with one placemark per parcel; attributes go in ExtendedData
+ */
+export function toKml(collection: ParcelExportCollection, name: string): string {
+  const placemarks = collection.features.map(feature => {
+    const p = feature.properties;
+    const data = PARCEL_EXPORT_COLUMNS
+      .filter(column => p[column.name] !== null && p[column.name] !== undefined && p[column.name] !== "")
+      .map(column => `<Data name="${column.name}"><value>${escapeXml(String(p[column.name]))}</value></Data>`)
+      .join("");
+    const geometry = feature.geometry.type === "Polygon"
+      ? polygonKml(feature.geometry.coordinates)
+      : `<MultiGeometry>${feature.geometry.coordinates.map(polygonKml).join("")}</MultiGeometry>`;
+    return `<Placemark><name>${escapeXml(p.PID || `OBJECTID ${p.OBJECTID}`)}</name>`
+      + `<ExtendedData>${data}</ExtendedData>${geometry}</Placemark>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    "</Document>",
+    "</kml>",
+  ].join("\n");
+}
@@ -0,0 +1,208 @@
+import JSZip from "jszip";
+import type { Position } from "geojson";
+import { PARCEL_EXPORT_COLUMNS, type ExportColumn, type ParcelExportCollection } from "./gis";
+
+const SHAPE_TYPE_POLYGON = 5;
+const FILE_CODE = 9994;
+const FILE_VERSION = 1000;
+const HEADER_BYTES = 100;
+const RECORD_HEADER_BYTES = 8;
+
+// dBASE limits
+const MAX_TEXT_BYTES = 254;
+const MAX_NUMBER_WIDTH = 19;
+const REAL_DECIMALS = 4;
+
+const WGS84_PRJ = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const encoder = new TextEncoder();
+
+// Twice the signed area; positive when the ring runs counter-clockwise
+function signedArea(ring: Position[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return sum;
+}
+
+// Shapefile rings: outer boundaries clockwise, holes counter-clockwise (the reverse of GeoJSON)
+function shapefileRings(polygons: Position[][][]): Position[][] {
+  return polygons.flatMap(rings => rings.map((ring, index) => {
+    const clockwise = signedArea(ring) < 0;
+    return (index === 0) === clockwise ? ring : [...ring].reverse();
+  }));
+}
+
+type Bounds = [number, number, number, number];
+
+function ringBounds(rings: Position[][]): Bounds {
+  const bounds: Bounds = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const ring of rings) {
+    for (const [x, y] of ring) {
+      bounds[0] = Math.min(bounds[0], x);
+      bounds[1] = Math.min(bounds[1], y);
+      bounds[2] = Math.max(bounds[2], x);
+      bounds[3] = Math.max(bounds[3], y);
+    }
+  }
+  return bounds;
+}
+
+// The 100-byte header shared by the .shp and .shx files
+function writeHeader(view: DataView, fileBytes: number, bounds: Bounds): void {
+  view.setInt32(0, FILE_CODE);
+  view.setInt32(24, fileBytes / 2);
+  view.setInt32(28, FILE_VERSION, true);
+  view.setInt32(32, SHAPE_TYPE_POLYGON, true);
+  bounds.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+}
+
+function writeGeometry(collection: ParcelExportCollection): { shp: ArrayBuffer; shx: ArrayBuffer } {
+  const records = collection.features.map(feature => shapefileRings(
+    feature.geometry.type === "Polygon" ? [feature.geometry.coordinates] : feature.geometry.coordinates
+  ));
+  // Shape type, box, part and point counts, then part offsets and points
+  const contentBytes = records.map(rings =>
+    44 + rings.length * 4 + rings.reduce((sum, ring) => sum + ring.length, 0) * 16
+  );
+
+  const shpBytes = HEADER_BYTES + contentBytes.reduce((sum, bytes) => sum + RECORD_HEADER_BYTES + bytes, 0);
+  const shxBytes = HEADER_BYTES + records.length * 8;
+  const shp = new DataView(new ArrayBuffer(shpBytes));
+  const shx = new DataView(new ArrayBuffer(shxBytes));
+
+  // An empty file gets a zero box; readers reject the infinite bounds of nothing
+  const fileBounds: Bounds = records.length > 0 ? ringBounds(records.flat()) : [0, 0, 0, 0];
+  writeHeader(shp, shpBytes, fileBounds);
+  writeHeader(shx, shxBytes, fileBounds);
+
+  let offset = HEADER_BYTES;
+  records.forEach((rings, i) => {
+    shx.setInt32(HEADER_BYTES + i * 8, offset / 2);
+    shx.setInt32(HEADER_BYTES + i * 8 + 4, contentBytes[i] / 2);
+
+    shp.setInt32(offset, i + 1);
+    shp.setInt32(offset + 4, contentBytes[i] / 2);
+    offset += RECORD_HEADER_BYTES;
+
+    const points = rings.reduce((sum, ring) => sum + ring.length, 0);
+    shp.setInt32(offset, SHAPE_TYPE_POLYGON, true);
+    ringBounds(rings).forEach((value, k) => shp.setFloat64(offset + 4 + k * 8, value, true));
+    shp.setInt32(offset + 36, rings.length, true);
+    shp.setInt32(offset + 40, points, true);
+    offset += 44;
+
+    let start = 0;
+    for (const ring of rings) {
+      shp.setInt32(offset, start, true);
+      offset += 4;
+      start += ring.length;
+    }
+    for (const ring of rings) {
+      for (const [x, y] of ring) {
+        shp.setFloat64(offset, x, true);
+        shp.setFloat64(offset + 8, y, true);
+        offset += 16;
+      }
+    }
+  });
+
+  return { shp: shp.buffer, shx: shx.buffer };
+}
+
+// UTF-8 bytes cut to the limit without splitting a character
+function truncatedBytes(text: string, limit: number): Uint8Array {
+  const bytes = encoder.encode(text);
+  if (bytes.length <= limit) return bytes;
+  let end = limit;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.subarray(0, end);
+}
+
+interface DbfField {
+  column: ExportColumn;
+  width: number;
+  decimals: number;
+}
+
+function formatNumber(value: unknown, decimals: number): string | null {
+  if (typeof value !== "number" || !isFinite(value)) return null;
+  return decimals > 0 ? value.toFixed(decimals) : String(Math.round(value));
+}
+
+function writeAttributes(collection: ParcelExportCollection): ArrayBuffer {
+  const rows = collection.features.map(feature => feature.properties);
+
+  // Column widths fitted to the longest value
+  const fields: DbfField[] = PARCEL_EXPORT_COLUMNS.map(column => {
+    if (column.type === "text") {
+      const width = rows.reduce((max, row) => {
+        const value = row[column.name];
+        return value == null ? max : Math.max(max, truncatedBytes(String(value), MAX_TEXT_BYTES).length);
+      }, 1);
+      return { column, width, decimals: 0 };
+    }
+    const decimals = column.type === "real" ? REAL_DECIMALS : 0;
+    const width = rows.reduce((max, row) => Math.max(max, formatNumber(row[column.name], decimals)?.length ?? 0), decimals + 2);
+    return { column, width: Math.min(width, MAX_NUMBER_WIDTH), decimals };
+  });
+
+  const headerBytes = 32 + fields.length * 32 + 1;
+  const recordBytes = 1 + fields.reduce((sum, field) => sum + field.width, 0);
+  const bytes = new Uint8Array(headerBytes + rows.length * recordBytes + 1);
+  const view = new DataView(bytes.buffer);
+
+  const now = new Date();
+  bytes[0] = 0x03;
+  bytes[1] = now.getFullYear() - 1900;
+  bytes[2] = now.getMonth() + 1;
+  bytes[3] = now.getDate();
+  view.setUint32(4, rows.length, true);
+  view.setUint16(8, headerBytes, true);
+  view.setUint16(10, recordBytes, true);
+
+  fields.forEach((field, i) => {
+    const at = 32 + i * 32;
+    bytes.set(encoder.encode(field.column.name), at);
+    bytes[at + 11] = (field.column.type === "text" ? "C" : "N").charCodeAt(0);
+    bytes[at + 16] = field.width;
+    bytes[at + 17] = field.decimals;
+  });
+  bytes[headerBytes - 1] = 0x0d;
+
+  // Records: a space (not deleted), then space-padded fields; numbers right-aligned
+  bytes.fill(0x20, headerBytes, headerBytes + rows.length * recordBytes);
+  rows.forEach((row, r) => {
+    let at = headerBytes + r * recordBytes + 1;
+    for (const field of fields) {
+      const value = row[field.column.name];
+      if (field.column.type === "text") {
+        if (value != null) bytes.set(truncatedBytes(String(value), field.width), at);
+      } else {
+        const text = formatNumber(value, field.decimals);
+        if (text !== null && text.length <= field.width) {
+          bytes.set(encoder.encode(text), at + field.width - text.length);
+        }
+      }
+      at += field.width;
+    }
+  });
+  bytes[bytes.length - 1] = 0x1a;
+
+  return bytes.buffer;
+}
+
+/**
+ * Zipped ESRI Shapefile (.shp, .shx, .dbf, .prj, .cpg) of polygon parcels in WGS 84
+ */
+export async function toShapefileZip(collection: ParcelExportCollection, name: string): Promise<Blob> {
+  const { shp, shx } = writeGeometry(collection);
+  const zip = new JSZip();
+  zip.file(`${name}.shp`, shp);
+  zip.file(`${name}.shx`, shx);
+  zip.file(`${name}.dbf`, writeAttributes(collection));
+  zip.file(`${name}.prj`, WGS84_PRJ);
+  zip.file(`${name}.cpg`, "UTF-8");
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
@@ -0,0 +1,170 @@
+import area from "@turf/area";
+import type { ParcelProperties, ParcelRecord } from "../data/parcels";
+import type { Owner } from "../data/owners";
+import { sumLandValue } from "../data/owners";
+import type { Address } from "../data/addresses";
+import {
+  ALLOCATION_LABELS,
+  PARCEL_ALLOCATIONS,
+  getParcelAllocation,
+  type ParcelAllocation,
+} from "../data/allocation";
+import { DIVISION_NAMES, type DivisionName } from "../geo/electoral-divisions";
+import { toCsv, downloadCsv, type CsvValue } from "./csv";
+import { toXlsx, type XlsxSheet } from "./xlsx";
+import { downloadBlob } from "./download";
+
+/**
+ * Spreadsheet formats: a workbook with a summary sheet, or the parcel rows alone as CSV
+ */
+export type SpreadsheetFormat = "xlsx" | "csv";
+
+export const SPREADSHEET_FORMATS: SpreadsheetFormat[] = ["xlsx", "csv"];
+
+export const SPREADSHEET_FORMAT_LABELS: Record<SpreadsheetFormat, string> = {
+  xlsx: "Excel (.xlsx)",
+  csv: "CSV",
+};
+
+export function isSpreadsheetFormat(format: string): format is SpreadsheetFormat {
+  return (SPREADSHEET_FORMATS as string[]).includes(format);
+}
+
+export interface ParcelSpreadsheetLookups {
+  ownerLookup: Map<string, Owner>;
+  addressLookup: Map<string, Address>;
+  allocationLookup: Map<string, ParcelAllocation>;
+  communityNames: Record<number, string>;
+}
+
+const PARCEL_FIELDS: (keyof ParcelProperties)[] = [
+  "OBJECTID", "PID", "LV_NUMBER", "VOL_FOL", "SIZE_SQMT",
+  "STREET_ADD", "SCHEME_ADD", "FULLADDRES", "LOCATION", "PARISH",
+];
+
+const PARCEL_HEADERS = [
+  ...PARCEL_FIELDS,
+  "Recorded Acres",
+  "Digitized Area (m²)",
+  "Digitized Acres",
+  "Owner",
+  "Owner Category",
+  "Land Value",
+  "Linked Address",
+  "Title Reference",
+  "Division",
+  "Community",
+];
+
+const SUMMARY_HEADERS = ["Division", "Parcels", "Recorded Acres", "Digitized Acres", "Land Value"];
+
+function toAcres(sqmt: number | null | undefined): number | null {
+  return sqmt && !isNaN(sqmt) ? Number((sqmt / 4046.86).toFixed(4)) : null;
+}
+
+// The tile server and preprocessing store it; otherwise measure the outline
+function digitizedArea(parcel: ParcelRecord): number | null {
+  const stored = parcel.properties._geodesicArea;
+  if (stored != null && !isNaN(stored)) return stored;
+  if (!parcel.geometry) return null;
+  const measured = area(parcel.geometry);
+  return isNaN(measured) ? null : measured;
+}
+
+interface ParcelRow {
+  cells: CsvValue[];
+  lvNumber: string;
+  division: DivisionName | null;
+  allocation: ParcelAllocation;
+  recordedAcres: number;
+  digitizedAcres: number;
+}
+
+function parcelRows(parcels: ParcelRecord[], lookups: ParcelSpreadsheetLookups): ParcelRow[] {
+  return parcels.map(parcel => {
+    const p = parcel.properties;
+    const owner = p.LV_NUMBER ? lookups.ownerLookup.get(p.LV_NUMBER) : undefined;
+    const address = p.LV_NUMBER ? lookups.addressLookup.get(p.LV_NUMBER) : undefined;
+    const allocation = getParcelAllocation(p.LV_NUMBER, lookups.allocationLookup);
+    const division = p._division ?? null;
+    const digitized = digitizedArea(parcel);
+    const recordedAcres = toAcres(p.SIZE_SQMT);
+    const digitizedAcres = toAcres(digitized);
+
+    return {
+      cells: [
+        ...PARCEL_FIELDS.map(field => p[field]),
+        recordedAcres,
+        digitized !== null ? Number(digitized.toFixed(1)) : null,
+        digitizedAcres,
+        owner?.ownerName || null,
+        ALLOCATION_LABELS[allocation],
+        owner?.landValueAmount ?? null,
+        address?.fullAddress || null,
+        address?.titleReference || null,
+        division,
+        p._community != null ? lookups.communityNames[p._community] ?? null : null,
+      ],
+      lvNumber: p.LV_NUMBER,
+      division,
+      allocation,
+      recordedAcres: recordedAcres ?? 0,
+      digitizedAcres: digitizedAcres ?? 0,
+    };
+  });
+}
+
+/**
+ * Totals by division, then by owner category. Land value counts each LV number once per group.
+ */
+function summaryRows(rows: ParcelRow[], ownerLookup: Map<string, Owner>): CsvValue[][] {
+  const total = (label: string, group: ParcelRow[]): CsvValue[] => [
+    label,
+    group.length,
+    Number(group.reduce((sum, row) => sum + row.recordedAcres, 0).toFixed(2)),
+    Number(group.reduce((sum, row) => sum + row.digitizedAcres, 0).toFixed(2)),
+    sumLandValue(group.map(row => row.lvNumber), ownerLookup),
+  ];
+
+  const byDivision = [...DIVISION_NAMES, null].map(division => {
+    const group = rows.filter(row => row.division === division);
+    return group.length > 0 ? total(division ?? "No Division", group) : null;
+  });
+  const byAllocation = PARCEL_ALLOCATIONS.map(allocation => {
+    const group = rows.filter(row => row.allocation === allocation);
+    return group.length > 0 ? total(ALLOCATION_LABELS[allocation], group) : null;
+  });
+
+  return [
+    ...byDivision.filter((row): row is CsvValue[] => row !== null),
+    total("Total", rows),
+    [],
+    ["Owner Category", ...SUMMARY_HEADERS.slice(1)],
+    ...byAllocation.filter((row): row is CsvValue[] => row !== null),
+    total("Total", rows),
+  ];
+}
+
+/**
+ * Downloads the parcels with owner, address, division and community columns joined on.
+ * The workbook adds a summary sheet; CSV carries the parcel rows only.
+ */
+export async function exportParcelSpreadsheet(
+  format: SpreadsheetFormat,
+  parcels: ParcelRecord[],
+  lookups: ParcelSpreadsheetLookups,
+  name: string
+): Promise<void> {
+  const rows = parcelRows(parcels, lookups);
+
+  if (format === "csv") {
+    downloadCsv(toCsv(PARCEL_HEADERS, rows.map(row => row.cells)), `${name}.csv`);
+    return;
+  }
+
+  const sheets: XlsxSheet[] = [
+    { name: "Parcels", headers: PARCEL_HEADERS, rows: rows.map(row => row.cells) },
+    { name: "Summary", headers: SUMMARY_HEADERS, rows: summaryRows(rows, lookups.ownerLookup) },
+  ];
+  downloadBlob(await toXlsx(sheets), `${name}.xlsx`);
+}
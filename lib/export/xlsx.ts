@@ -0,0 +1,108 @@
+import JSZip from "jszip";
+import type { CsvValue } from "./csv";
+
+/**
+ * One worksheet: a bold, frozen header row and data rows
+ */
+export interface XlsxSheet {
+  name: string;
+  headers: string[];
+  rows: CsvValue[][];
+}
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Excel's limits on sheet names
+const MAX_SHEET_NAME = 31;
+const HEADER_STYLE = 1;
+
+// Regular and bold fonts; cell style 1 is the header
+const STYLES = `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">`
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+  + "</styleSheet>";
+
+// XML 1.0 cannot carry most control characters, even escaped
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(value: CsvValue, ref: string, style?: number): string {
+  if (value === null || value === undefined || value === "") return "";
+  const s = style ? ` s="${style}"` : "";
+  if (typeof value === "number") {
+    return isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : "";
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  const rows = [sheet.headers, ...sheet.rows].map((row, r) => {
+    const cells = row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`, r === 0 ? HEADER_STYLE : undefined));
+    return `<row r="${r + 1}">${cells.join("")}</row>`;
+  });
+  return `${XML_HEADER}<worksheet xmlns="${MAIN_NS}">`
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${rows.join("")}</sheetData></worksheet>`;
+}
+
+function sheetName(name: string, index: number): string {
+  return name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, MAX_SHEET_NAME) || `Sheet${index + 1}`;
+}
+
+/**
+ * Excel workbook (.xlsx) with one worksheet per sheet, using inline strings
+ */
+export async function toXlsx(sheets: XlsxSheet[]): Promise<Blob> {
+  const zip = new JSZip();
+  const sheetOverrides = sheets.map((_, i) =>
+    `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  );
+  zip.file("[Content_Types].xml", `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + `${sheetOverrides.join("")}</Types>`);
+  zip.file("_rels/.rels", `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">`
+    + `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`);
+
+  // Sheets are rId1..n; styles come after them
+  zip.file("xl/workbook.xml", `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>`
+    + sheets.map((sheet, i) => `<sheet name="${escapeXml(sheetName(sheet.name, i))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")
+    + "</sheets></workbook>");
+  zip.file("xl/_rels/workbook.xml.rels", `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">`
+    + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("")
+    + `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`);
+  zip.file("xl/styles.xml", STYLES);
+  sheets.forEach((sheet, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet)));
+
+  return zip.generateAsync({
+    type: "blob",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    compression: "DEFLATE",
+  });
+}
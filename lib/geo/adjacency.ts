@@ -0,0 +1,222 @@
+import type { Polygon, MultiPolygon, Position } from 'geojson';
+import { createBBoxIndex, geometryBBox, type BBox } from './spatialIndex';
+
+// Boundaries closer than this are treated as shared (absorbs small digitizing gaps/overlaps)
+export const ADJACENCY_TOLERANCE_METERS = 1;
+// Minimum length of shared boundary; parcels meeting only at a corner are not neighbours
+const MIN_SHARED_EDGE_METERS = 1;
+
+const METERS_PER_DEGREE_LAT = 110540;
+const METERS_PER_DEGREE_LNG = 111320;
+
+/**
+ * Parcel adjacency by shared edges, over index-aligned geometries.
+ * Neighbours are worked out on first request for each parcel and then cached.
+ */
+export interface AdjacencyGraph {
+  neighbours(index: number): number[];
+}
+
+type Ring = Float64Array;  // Interleaved [x, y] metres
+
+function geometryRings(geometry: Polygon | MultiPolygon): Position[][] {
+  return geometry.type === 'Polygon' ? geometry.coordinates : geometry.coordinates.flat();
+}
+
+// Squared distance from (px, py) to the nearest segment of any ring
+function distanceSqToRings(px: number, py: number, rings: Ring[]): number {
+  let best = Infinity;
+  for (const ring of rings) {
+    for (let k = 0; k + 3 < ring.length; k += 2) {
+      const ax = ring[k];
+      const ay = ring[k + 1];
+      const dx = ring[k + 2] - ax;
+      const dy = ring[k + 3] - ay;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+      const ex = px - (ax + t * dx);
+      const ey = py - (ay + t * dy);
+      const d = ex * ex + ey * ey;
+      if (d < best) best = d;
+    }
+  }
+  return best;
+}
+
+// Total length of `from`'s edges whose both ends lie within tolerance of `to`'s boundary
+function sharedEdgeLength(from: Ring[], to: Ring[], toleranceSq: number): number {
+  let shared = 0;
+  for (const ring of from) {
+    let previousNear = false;
+    for (let k = 0; k + 1 < ring.length; k += 2) {
+      const near = distanceSqToRings(ring[k], ring[k + 1], to) <= toleranceSq;
+      if (near && previousNear) {
+        shared += Math.hypot(ring[k] - ring[k - 2], ring[k + 1] - ring[k - 1]);
+      }
+      previousNear = near;
+    }
+  }
+  return shared;
+}
+
+/**
+ * Builds a lazily evaluated adjacency graph. Two parcels are neighbours when their
+ * boundaries run within `toleranceMeters` of each other for at least a metre.
+ */
+export function createAdjacencyGraph(
+  geometries: (Polygon | MultiPolygon | null)[],
+  toleranceMeters: number = ADJACENCY_TOLERANCE_METERS
+): AdjacencyGraph {
+  const bboxes: BBox[] = geometries.map(g => g ? geometryBBox(g) : [Infinity, Infinity, -Infinity, -Infinity]);
+  const index = createBBoxIndex(bboxes, 128);
+
+  // One local projection for the whole dataset; it spans well under a degree
+  const valid = bboxes.filter(b => b[1] <= b[3]);
+  const meanLat = valid.length > 0 ? valid.reduce((sum, b) => sum + (b[1] + b[3]) / 2, 0) / valid.length : 0;
+  const kx = Math.cos((meanLat * Math.PI) / 180) * METERS_PER_DEGREE_LNG;
+  const padLng = toleranceMeters / kx;
+  const padLat = toleranceMeters / METERS_PER_DEGREE_LAT;
+  const toleranceSq = toleranceMeters * toleranceMeters;
+
+  const projected: (Ring[] | undefined)[] = new Array(geometries.length);
+  const getRings = (i: number): Ring[] => {
+    if (!projected[i]) {
+      const geometry = geometries[i];
+      projected[i] = geometry
+        ? geometryRings(geometry).map(ring => {
+            const xy = new Float64Array(ring.length * 2);
+            ring.forEach(([lng, lat], k) => {
+              xy[k * 2] = lng * kx;
+              xy[k * 2 + 1] = lat * METERS_PER_DEGREE_LAT;
+            });
+            return xy;
+          })
+        : [];
+    }
+    return projected[i]!;
+  };
+
+  const cache: (number[] | undefined)[] = new Array(geometries.length);
+
+  return {
+    neighbours(i) {
+      const cached = cache[i];
+      if (cached) return cached;
+
+      const b = bboxes[i];
+      const result: number[] = [];
+      if (b[0] <= b[2]) {
+        const candidates = index.searchBox([b[0] - padLng, b[1] - padLat, b[2] + padLng, b[3] + padLat]);
+        const rings = getRings(i);
+        for (const j of candidates) {
+          if (j === i) continue;
+          // Reuse the answer already worked out from the other side
+          const other = cache[j];
+          if (other) {
+            if (other.includes(i)) result.push(j);
+            continue;
+          }
+          const otherRings = getRings(j);
+          const shared = Math.max(
+            sharedEdgeLength(rings, otherRings, toleranceSq),
+            sharedEdgeLength(otherRings, rings, toleranceSq)
+          );
+          if (shared >= MIN_SHARED_EDGE_METERS) result.push(j);
+        }
+      }
+      cache[i] = result;
+      return result;
+    },
+  };
+}
+
+/**
+ * Splits a set of parcels into its contiguous pieces, largest first
+ */
+export function connectedComponents(indices: number[], graph: AdjacencyGraph): number[][] {
+  const members = new Set(indices);
+  const seen = new Set<number>();
+  const components: number[][] = [];
+
+  for (const start of indices) {
+    if (seen.has(start)) continue;
+    const component: number[] = [];
+    const queue = [start];
+    seen.add(start);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      component.push(current);
+      for (const next of graph.neighbours(current)) {
+        if (members.has(next) && !seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    components.push(component);
+  }
+
+  return components.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Parcels adjacent to the set but not in it
+ */
+export function neighbouringParcels(indices: number[], graph: AdjacencyGraph): number[] {
+  const members = new Set(indices);
+  const found = new Set<number>();
+  for (const i of indices) {
+    for (const j of graph.neighbours(i)) {
+      if (!members.has(j)) found.add(j);
+    }
+  }
+  return Array.from(found);
+}
+
+/**
+ * Adds neighbouring parcels one at a time until the total area reaches the target.
+ * Each step takes the eligible neighbour sharing the most edges with the site so far
+ * (keeping it compact), then the larger one. Returns only the parcels added.
+ */
+export function growToArea(
+  seed: number[],
+  graph: AdjacencyGraph,
+  areaOf: (index: number) => number,
+  targetSqmt: number,
+  isEligible: (index: number) => boolean = () => true
+): number[] {
+  const members = new Set(seed);
+  let total = seed.reduce((sum, i) => sum + areaOf(i), 0);
+  const added: number[] = [];
+
+  // Frontier candidates with their number of links into the site
+  const links = new Map<number, number>();
+  const addLinks = (i: number) => {
+    for (const j of graph.neighbours(i)) {
+      if (!members.has(j) && isEligible(j)) links.set(j, (links.get(j) || 0) + 1);
+    }
+  };
+  seed.forEach(addLinks);
+
+  while (total < targetSqmt && links.size > 0) {
+    let best = -1;
+    let bestLinks = -1;
+    let bestArea = -1;
+    links.forEach((count, j) => {
+      const area = areaOf(j);
+      if (count > bestLinks || (count === bestLinks && area > bestArea)) {
+        best = j;
+        bestLinks = count;
+        bestArea = area;
+      }
+    });
+
+    links.delete(best);
+    members.add(best);
+    added.push(best);
+    total += bestArea;
+    addLinks(best);
+  }
+
+  return added;
+}
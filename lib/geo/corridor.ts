@@ -0,0 +1,116 @@
+import type { Feature, Polygon, MultiPolygon, Position } from 'geojson';
+import area from '@turf/area';
+import buffer from '@turf/buffer';
+import centroid from '@turf/centroid';
+import intersect from '@turf/intersect';
+import { featureCollection, lineString } from '@turf/helpers';
+import { bboxesIntersect, geometryBBox } from './spatialIndex';
+
+// Metres per degree, for distances along a short alignment
+const METERS_PER_DEGREE_LAT = 110540;
+const METERS_PER_DEGREE_LNG = 111320;
+
+/**
+ * The part of one parcel inside a corridor
+ */
+export interface CorridorTake<T extends Feature<Polygon | MultiPolygon>> {
+  parcel: T;
+  taken: Feature<Polygon | MultiPolygon>;
+  chainage: number;        // Metres along the alignment to the taken area's centre
+  areaTakenSqmt: number;
+  parcelAreaSqmt: number;  // Geodesic area of the whole parcel
+  percentTaken: number;    // 0-100
+}
+
+/**
+ * Right-of-way polygon: the alignment buffered by half the width on each side
+ */
+export function corridorPolygon(path: Position[], widthMeters: number): Feature<Polygon | MultiPolygon> | null {
+  if (path.length < 2 || widthMeters <= 0) return null;
+  return buffer(lineString(path), widthMeters / 2, { units: 'meters' }) || null;
+}
+
+/**
+ * Length of the alignment in metres
+ */
+export function pathLength(path: Position[]): number {
+  let length = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    length += segmentLength(path[i], path[i + 1]);
+  }
+  return length;
+}
+
+function segmentLength(a: Position, b: Position): number {
+  const kx = Math.cos((((a[1] + b[1]) / 2) * Math.PI) / 180) * METERS_PER_DEGREE_LNG;
+  return Math.hypot((b[0] - a[0]) * kx, (b[1] - a[1]) * METERS_PER_DEGREE_LAT);
+}
+
+/**
+ * Distance in metres along the path to the point on it nearest `point`
+ */
+export function chainageOf(point: Position, path: Position[]): number {
+  const kx = Math.cos((point[1] * Math.PI) / 180) * METERS_PER_DEGREE_LNG;
+  let travelled = 0;
+  let best = 0;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const dx = (path[i + 1][0] - path[i][0]) * kx;
+    const dy = (path[i + 1][1] - path[i][1]) * METERS_PER_DEGREE_LAT;
+    const px = (point[0] - path[i][0]) * kx;
+    const py = (point[1] - path[i][1]) * METERS_PER_DEGREE_LAT;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSq));
+    const distance = Math.hypot(px - t * dx, py - t * dy);
+    const length = Math.sqrt(lengthSq);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = travelled + t * length;
+    }
+    travelled += length;
+  }
+  return best;
+}
+
+/**
+ * Intersects every parcel with the corridor and measures what it takes,
+ * ordered by chainage along the alignment.
+ */
+export function measureCorridorTakes<T extends Feature<Polygon | MultiPolygon>>(
+  parcels: T[],
+  corridor: Feature<Polygon | MultiPolygon>,
+  path: Position[]
+): CorridorTake<T>[] {
+  const corridorBBox = geometryBBox(corridor.geometry);
+  const takes: CorridorTake<T>[] = [];
+
+  for (const parcel of parcels) {
+    if (!parcel.geometry || !bboxesIntersect(geometryBBox(parcel.geometry), corridorBBox)) continue;
+
+    let taken: Feature<Polygon | MultiPolygon> | null = null;
+    try {
+      taken = intersect(featureCollection([parcel, corridor]));
+    } catch {
+      // Skip invalid polygons
+      continue;
+    }
+    if (!taken) continue;
+
+    const areaTakenSqmt = area(taken);
+    // Ignore slivers from boundaries that merely touch the corridor
+    if (areaTakenSqmt < 0.01) continue;
+
+    const parcelAreaSqmt = area(parcel);
+    takes.push({
+      parcel,
+      taken,
+      chainage: chainageOf(centroid(taken).geometry.coordinates, path),
+      areaTakenSqmt,
+      parcelAreaSqmt,
+      percentTaken: parcelAreaSqmt > 0 ? Math.min(100, (areaTakenSqmt / parcelAreaSqmt) * 100) : 0,
+    });
+  }
+
+  return takes.sort((a, b) => a.chainage - b.chainage);
+}
@@ -1,5 +1,8 @@
 import type { FeatureCollection, Polygon, MultiPolygon, Feature, GeoJsonProperties } from 'geojson';
 import dissolve from '@turf/dissolve';
+import centroid from '@turf/centroid';
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { fetchSourceText } from '../data/cache';
 
 /**
  * Electoral division colors matching the map legend
@@ -19,104 +22,208 @@ export type DivisionProperties = {
   [key: string]: unknown;
 };
 
-// Community name keywords for each division
-const CRAIGHEAD_KEYWORDS = [
-  'CRAIGHEAD',
-  'CONTRIVANCE',
-  'LYNDHURST',
-  'PIKE',
-  'HARRY WATCH',
-  'HARRY WATER',
-  'AUGHTEMBEDDIE',
-  'AUCHTEMBEDDIE',
-  'GOOD INTENT',
-  'ROBINS HALL',
-  'ROBBINS HALL',
-  'GROVE PLACE',
-];
-
-const CHRISTIANA_KEYWORDS = [
-  'HIBERNIA',
-  'CHRISTIANA',
-  'COLEYVILLE',
-  'SILENT HILL',
-  'SPRING GROUND',
-  'SPALDING',
-];
-
-const WALDERSTON_KEYWORDS = [
-  'BETHANY',
-  'COBBLA',
-  'CHUDLEIGH',
-  'DEVON',
-  'COMFORT HALL',
-  'TOP HILL',
-  'WALDERSTON',
-  'LITCHFIELD',
-  'KENDAL',
-  'WILLIAMSFIELD',
-  'CHANTILLY',
-  'BOMBA',
-  'BOMBAY',
-];
+export const DIVISION_NAMES: DivisionName[] = ['CRAIGHEAD', 'CHRISTIANA', 'WALDERSTON'];
+
+export function isDivisionName(value: unknown): value is DivisionName {
+  return typeof value === 'string' && (DIVISION_NAMES as string[]).includes(value);
+}
+
+export const COMMUNITIES_URL = '/data/nem_communities.json';
 
 /**
- * Determines which electoral division a community belongs to based on its name
+ * Official division polygons are not shipped with the app; when provided, opt in with
+ * NEXT_PUBLIC_DIVISION_POLYGONS=true to assign communities by overlay instead of the mapping file.
  */
-function getDivisionForCommunity(communityName: string, index: number): DivisionName {
-  const upperName = communityName.toUpperCase();
+export const DIVISION_POLYGONS_ENABLED = process.env.NEXT_PUBLIC_DIVISION_POLYGONS === 'true';
+
+const DIVISION_POLYGONS_URL = '/data/electoral_divisions.geojson';
+// Fallback community → division mapping, keyed by COMM_ID
+const COMMUNITY_DIVISIONS_URL = '/data/community_divisions.json';
 
-  if (CHRISTIANA_KEYWORDS.some(keyword => upperName.includes(keyword))) {
-    return 'CHRISTIANA';
+/**
+ * One row of the community → division mapping file
+ */
+export interface CommunityDivisionMappingEntry {
+  COMM_ID: number;
+  COMM_NAME_?: string;
+  ELECTORAL_DIVISION: DivisionName;
+}
+
+/**
+ * A community that could not be placed in any division
+ */
+export interface UnmatchedCommunity {
+  communityId: number | null;
+  communityName: string;
+  reason: string;
+}
+
+/**
+ * Communities with their electoral division, plus any that could not be assigned
+ */
+export interface DivisionAssignment {
+  communities: FeatureCollection<Polygon | MultiPolygon>;                   // Every community, assigned or not
+  divisions: FeatureCollection<Polygon | MultiPolygon, DivisionProperties>;  // Assigned communities only
+  unmatched: UnmatchedCommunity[];
+  source: 'overlay' | 'mapping';
+}
+
+type CommunityCollection = FeatureCollection<Polygon | MultiPolygon>;
+
+export function communityId(feature: Feature<Polygon | MultiPolygon>): number | null {
+  const id = Number(feature.properties?.COMM_ID);
+  return isNaN(id) ? null : id;
+}
+
+export function communityName(feature: Feature<Polygon | MultiPolygon>): string {
+  return (feature.properties?.COMM_NAME_ as string) || '';
+}
+
+function withDivision(
+  feature: Feature<Polygon | MultiPolygon>,
+  division: DivisionName
+): Feature<Polygon | MultiPolygon, DivisionProperties> {
+  return {
+    ...feature,
+    properties: {
+      ...feature.properties,
+      ELECTORAL_DIVISION: division,
+      color: ELECTORAL_DIVISION_COLORS[division],
+    } as DivisionProperties,
+  };
+}
+
+/**
+ * Checks the shape of a community → division mapping file.
+ * Throws with every problem found rather than loading a partial mapping.
+ */
+export function validateCommunityDivisionMapping(data: unknown): CommunityDivisionMappingEntry[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Community division mapping must be a JSON array');
   }
-  if (CRAIGHEAD_KEYWORDS.some(keyword => upperName.includes(keyword))) {
-    return 'CRAIGHEAD';
+
+  const problems: string[] = [];
+  const seen = new Set<number>();
+
+  data.forEach((entry, i) => {
+    const id = Number(entry?.COMM_ID);
+    if (entry?.COMM_ID === undefined || isNaN(id)) {
+      problems.push(`row ${i + 1}: missing or non-numeric COMM_ID`);
+      return;
+    }
+    if (seen.has(id)) {
+      problems.push(`row ${i + 1}: duplicate COMM_ID ${id}`);
+    }
+    seen.add(id);
+    if (!isDivisionName(entry.ELECTORAL_DIVISION)) {
+      problems.push(`row ${i + 1}: unknown division "${entry.ELECTORAL_DIVISION}" for COMM_ID ${id}`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid community division mapping:\n${problems.join('\n')}`);
   }
-  if (WALDERSTON_KEYWORDS.some(keyword => upperName.includes(keyword))) {
-    return 'WALDERSTON';
+  return data as CommunityDivisionMappingEntry[];
+}
+
+/**
+ * Assigns each community from the mapping file; communities not listed are reported, not guessed
+ */
+export function assignDivisionsByMapping(
+  communityGeoJson: CommunityCollection,
+  mapping: CommunityDivisionMappingEntry[]
+): DivisionAssignment {
+  const divisionById = new Map(mapping.map(entry => [Number(entry.COMM_ID), entry.ELECTORAL_DIVISION]));
+  const features: Feature<Polygon | MultiPolygon, DivisionProperties>[] = [];
+  const unmatched: UnmatchedCommunity[] = [];
+
+  for (const feature of communityGeoJson.features) {
+    const id = communityId(feature);
+    const division = id !== null ? divisionById.get(id) : undefined;
+    if (division) {
+      features.push(withDivision(feature, division));
+    } else {
+      unmatched.push({
+        communityId: id,
+        communityName: communityName(feature),
+        reason: id === null ? 'Community has no COMM_ID' : 'Not listed in the division mapping',
+      });
+    }
   }
 
-  // Fallback for unmatched communities - distribute based on index
-  const divisions: DivisionName[] = ['CHRISTIANA', 'CRAIGHEAD', 'WALDERSTON'];
-  return divisions[index % 3];
+  return { communities: communityGeoJson, divisions: { type: 'FeatureCollection', features }, unmatched, source: 'mapping' };
 }
 
 /**
- * Processes community GeoJSON and assigns electoral division properties
+ * Assigns each community to the division polygon containing its centroid
  */
-export function processCommunitiesWithDivisions(
-  communityGeoJson: FeatureCollection<Polygon | MultiPolygon>
-): FeatureCollection<Polygon | MultiPolygon, DivisionProperties> {
-  const features = communityGeoJson.features.map((feature, index) => {
-    const communityName = (feature.properties?.COMM_NAME_ as string) || '';
-    const division = getDivisionForCommunity(communityName, index);
-
-    return {
-      ...feature,
-      properties: {
-        ...feature.properties,
-        ELECTORAL_DIVISION: division,
-        color: ELECTORAL_DIVISION_COLORS[division],
-      } as DivisionProperties,
-    };
-  });
+export function assignDivisionsByOverlay(
+  communityGeoJson: CommunityCollection,
+  divisionPolygons: FeatureCollection<Polygon | MultiPolygon>
+): DivisionAssignment {
+  const features: Feature<Polygon | MultiPolygon, DivisionProperties>[] = [];
+  const unmatched: UnmatchedCommunity[] = [];
 
-  return {
-    type: 'FeatureCollection',
-    features,
-  } as FeatureCollection<Polygon | MultiPolygon, DivisionProperties>;
+  for (const feature of communityGeoJson.features) {
+    const center = centroid(feature);
+    const container = divisionPolygons.features.find(division => {
+      try {
+        return booleanPointInPolygon(center, division);
+      } catch {
+        return false;
+      }
+    });
+    const division = String(container?.properties?.ELECTORAL_DIVISION || '').toUpperCase();
+
+    if (isDivisionName(division)) {
+      features.push(withDivision(feature, division));
+    } else {
+      unmatched.push({
+        communityId: communityId(feature),
+        communityName: communityName(feature),
+        reason: container ? `Unknown division "${division}"` : 'Outside every division polygon',
+      });
+    }
+  }
+
+  return { communities: communityGeoJson, divisions: { type: 'FeatureCollection', features }, unmatched, source: 'overlay' };
 }
 
 /**
- * Loads and processes the community data into electoral divisions
+ * Loads the community data and assigns electoral divisions, from the official division
+ * polygons when enabled and otherwise from the validated mapping file
  */
-export async function loadElectoralDivisions(): Promise<FeatureCollection<Polygon | MultiPolygon, DivisionProperties>> {
-  const response = await fetch('/data/nem_communities.json');
-  if (!response.ok) {
+export async function loadElectoralDivisions(): Promise<DivisionAssignment> {
+  // Fetched through the cache module so the preprocessing cache can version it without a second download
+  const communitySource = await fetchSourceText(COMMUNITIES_URL).catch(() => {
     throw new Error('Failed to load community data');
+  });
+  const communityData = JSON.parse(communitySource.text) as CommunityCollection;
+
+  let assignment: DivisionAssignment;
+  if (DIVISION_POLYGONS_ENABLED) {
+    const polygonsResponse = await fetch(DIVISION_POLYGONS_URL);
+    if (!polygonsResponse.ok) {
+      throw new Error('Failed to load division polygons');
+    }
+    const divisionPolygons = await polygonsResponse.json() as FeatureCollection<Polygon | MultiPolygon>;
+    assignment = assignDivisionsByOverlay(communityData, divisionPolygons);
+  } else {
+    const mappingResponse = await fetch(COMMUNITY_DIVISIONS_URL);
+    if (!mappingResponse.ok) {
+      throw new Error('Failed to load community division mapping');
+    }
+    const mapping = validateCommunityDivisionMapping(await mappingResponse.json());
+    assignment = assignDivisionsByMapping(communityData, mapping);
+  }
+
+  if (assignment.unmatched.length > 0) {
+    console.warn(
+      `${assignment.unmatched.length} communities have no electoral division:`,
+      assignment.unmatched.map(c => `${c.communityName || c.communityId} (${c.reason})`).join(', ')
+    );
   }
-  const communityData = await response.json() as FeatureCollection<Polygon | MultiPolygon>;
-  return processCommunitiesWithDivisions(communityData);
+  return assignment;
 }
 
 /**
@@ -0,0 +1,189 @@
+import type { Polygon, MultiPolygon, Position } from 'geojson';
+
+// Stop refining once a better point could gain less than this fraction of the polygon's size
+const RELATIVE_PRECISION = 0.01;
+
+interface Cell {
+  x: number;
+  y: number;
+  half: number;      // Half the cell's side length
+  distance: number;  // From the cell centre to the outline (negative outside)
+  max: number;       // Best distance any point in the cell could reach
+}
+
+// Squared distance from a point to a segment
+function segmentDistanceSq(x: number, y: number, a: Position, b: Position): number {
+  let px = a[0];
+  let py = a[1];
+  let dx = b[0] - px;
+  let dy = b[1] - py;
+  if (dx !== 0 || dy !== 0) {
+    const t = ((x - px) * dx + (y - py) * dy) / (dx * dx + dy * dy);
+    if (t > 1) {
+      px = b[0];
+      py = b[1];
+    } else if (t > 0) {
+      px += dx * t;
+      py += dy * t;
+    }
+  }
+  dx = x - px;
+  dy = y - py;
+  return dx * dx + dy * dy;
+}
+
+// Signed distance to the outline: positive inside the polygon, negative outside or in a hole
+function signedDistance(x: number, y: number, rings: Position[][]): number {
+  let inside = false;
+  let minDistanceSq = Infinity;
+
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if ((a[1] > y) !== (b[1] > y) && x < ((b[0] - a[0]) * (y - a[1])) / (b[1] - a[1]) + a[0]) {
+        inside = !inside;
+      }
+      minDistanceSq = Math.min(minDistanceSq, segmentDistanceSq(x, y, a, b));
+    }
+  }
+  return (inside ? 1 : -1) * Math.sqrt(minDistanceSq);
+}
+
+function createCell(x: number, y: number, half: number, rings: Position[][]): Cell {
+  const distance = signedDistance(x, y, rings);
+  return { x, y, half, distance, max: distance + half * Math.SQRT2 };
+}
+
+// Planar area of a polygon (outer ring minus holes), for picking the largest part
+function planarArea(rings: Position[][]): number {
+  let total = 0;
+  rings.forEach((ring, index) => {
+    let sum = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      sum += (ring[j][0] - ring[i][0]) * (ring[i][1] + ring[j][1]);
+    }
+    total += (index === 0 ? 1 : -1) * Math.abs(sum / 2);
+  });
+  return total;
+}
+
+// Area centroid of the outer ring, a good first guess for convex shapes
+function ringCentroidCell(rings: Position[][]): Cell {
+  const ring = rings[0];
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const f = ring[i][0] * ring[j][1] - ring[j][0] * ring[i][1];
+    x += (ring[i][0] + ring[j][0]) * f;
+    y += (ring[i][1] + ring[j][1]) * f;
+    area += f * 3;
+  }
+  return area === 0
+    ? createCell(ring[0][0], ring[0][1], 0, rings)
+    : createCell(x / area, y / area, 0, rings);
+}
+
+// Max-heap on Cell.max
+function push(heap: Cell[], cell: Cell): void {
+  heap.push(cell);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].max >= cell.max) break;
+    heap[i] = heap[parent];
+    i = parent;
+  }
+  heap[i] = cell;
+}
+
+function pop(heap: Cell[]): Cell {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      if (left >= heap.length) break;
+      const child = left + 1 < heap.length && heap[left + 1].max > heap[left].max ? left + 1 : left;
+      if (heap[child].max <= last.max) break;
+      heap[i] = heap[child];
+      i = child;
+    }
+    heap[i] = last;
+  }
+  return top;
+}
+
+// Pole of inaccessibility of one polygon in planar coordinates
+function poleOfInaccessibility(rings: Position[][]): Position {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of rings[0]) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const cellSize = Math.min(width, height);
+  if (cellSize === 0) return [minX, minY];
+
+  const precision = Math.max(width, height) * RELATIVE_PRECISION;
+  const heap: Cell[] = [];
+  for (let x = minX; x < maxX; x += cellSize) {
+    for (let y = minY; y < maxY; y += cellSize) {
+      push(heap, createCell(x + cellSize / 2, y + cellSize / 2, cellSize / 2, rings));
+    }
+  }
+
+  let best = ringCentroidCell(rings);
+  const bboxCell = createCell(minX + width / 2, minY + height / 2, 0, rings);
+  if (bboxCell.distance > best.distance) best = bboxCell;
+
+  while (heap.length > 0) {
+    const cell = pop(heap);
+    if (cell.distance > best.distance) best = cell;
+    if (cell.max - best.distance <= precision) continue;
+
+    const half = cell.half / 2;
+    push(heap, createCell(cell.x - half, cell.y - half, half, rings));
+    push(heap, createCell(cell.x + half, cell.y - half, half, rings));
+    push(heap, createCell(cell.x - half, cell.y + half, half, rings));
+    push(heap, createCell(cell.x + half, cell.y + half, half, rings));
+  }
+  return [best.x, best.y];
+}
+
+/**
+ * Point for markers and labels: the pole of inaccessibility (the interior point
+ * farthest from the outline) of the largest part. Unlike a centroid or vertex
+ * average it always falls inside the parcel, even for L-shapes and holed parcels.
+ */
+export function labelPoint(geometry: Polygon | MultiPolygon): [number, number] {
+  const polygons = (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates)
+    .filter(rings => rings[0]?.length > 0);
+  if (polygons.length === 0) return [NaN, NaN];
+
+  // Scale longitude so distances are roughly isotropic at this latitude
+  const kx = Math.cos((polygons[0][0][0][1] * Math.PI) / 180);
+  const projected = polygons.map(rings => rings.map(ring => ring.map(([lng, lat]) => [lng * kx, lat])));
+
+  let largest = projected[0];
+  let largestArea = planarArea(largest);
+  for (let i = 1; i < projected.length; i++) {
+    const area = planarArea(projected[i]);
+    if (area > largestArea) {
+      largest = projected[i];
+      largestArea = area;
+    }
+  }
+
+  const [x, y] = poleOfInaccessibility(largest);
+  return [x / kx, y];
+}
@@ -0,0 +1,100 @@
+import type { Position } from 'geojson';
+import area from '@turf/area';
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const METERS_PER_FOOT = 0.3048;
+const METERS_PER_MILE = 1609.344;
+const SQMT_PER_ACRE = 4046.86;
+const SQMT_PER_HECTARE = 10000;
+
+/**
+ * Unit systems for displaying measurements
+ */
+export type MeasurementUnits = 'metric' | 'imperial';
+
+export const MEASUREMENT_UNIT_LABELS: Record<MeasurementUnits, string> = {
+  metric: 'Metric',
+  imperial: 'Imperial',
+};
+
+/**
+ * A measured line (distance) or ring (area and perimeter)
+ */
+export interface Measurement {
+  kind: 'distance' | 'area';
+  coordinates: Position[];  // Open path for distance, closed ring for area
+  lengthMeters: number;     // Path length, or perimeter for areas
+  areaSqmt: number | null;
+}
+
+// Great-circle distance between two lng/lat positions
+function haversine(a: Position, b: Position): number {
+  const toRad = Math.PI / 180;
+  const dLat = (b[1] - a[1]) * toRad;
+  const dLng = (b[0] - a[0]) * toRad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a[1] * toRad) * Math.cos(b[1] * toRad) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Geodesic length of a path in metres
+ */
+export function geodesicLength(path: Position[]): number {
+  let length = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    length += haversine(path[i], path[i + 1]);
+  }
+  return length;
+}
+
+/**
+ * Measures a path, or a closed ring when `kind` is 'area'
+ */
+export function measure(kind: Measurement['kind'], coordinates: Position[]): Measurement {
+  if (kind === 'distance') {
+    return { kind, coordinates, lengthMeters: geodesicLength(coordinates), areaSqmt: null };
+  }
+  const ring = coordinates.length >= 4 ? coordinates : [...coordinates, coordinates[0]];
+  return {
+    kind,
+    coordinates: ring,
+    lengthMeters: geodesicLength(ring),
+    areaSqmt: ring.length >= 4 ? area({ type: 'Polygon', coordinates: [ring] }) : 0,
+  };
+}
+
+/**
+ * Formats a length, switching to km/miles for long distances
+ */
+export function formatLength(meters: number, units: MeasurementUnits): string {
+  if (units === 'imperial') {
+    const feet = meters / METERS_PER_FOOT;
+    return feet >= 5280
+      ? `${(meters / METERS_PER_MILE).toFixed(2)} mi`
+      : `${Math.round(feet).toLocaleString('en-US')} ft`;
+  }
+  return meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${meters.toFixed(1)} m`;
+}
+
+/**
+ * Formats an area, switching to hectares/acres for large areas
+ */
+export function formatArea(sqmt: number, units: MeasurementUnits): string {
+  if (units === 'imperial') {
+    const acres = sqmt / SQMT_PER_ACRE;
+    return acres >= 1
+      ? `${acres.toFixed(2)} ac`
+      : `${Math.round(sqmt / (METERS_PER_FOOT * METERS_PER_FOOT)).toLocaleString('en-US')} sq ft`;
+  }
+  return sqmt >= SQMT_PER_HECTARE
+    ? `${(sqmt / SQMT_PER_HECTARE).toFixed(2)} ha`
+    : `${Math.round(sqmt).toLocaleString('en-US')} m²`;
+}
+
+/**
+ * One-line summary: distance, or area with perimeter
+ */
+export function formatMeasurement(measurement: Measurement, units: MeasurementUnits): string {
+  if (measurement.areaSqmt === null) return formatLength(measurement.lengthMeters, units);
+  return `${formatArea(measurement.areaSqmt, units)} · ${formatLength(measurement.lengthMeters, units)} perimeter`;
+}
@@ -0,0 +1,126 @@
+import type { Feature, FeatureCollection, Polygon, MultiPolygon } from 'geojson';
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import area from '@turf/area';
+import { createBBoxIndex, geometryBBox } from './spatialIndex';
+import { communityId } from './electoral-divisions';
+import { labelPoint } from './labelPoint';
+
+// Sentinel in community id arrays for points outside every community
+export const NO_COMMUNITY = -1;
+
+/**
+ * Per-parcel geometric attributes, index-aligned with the parcel features
+ */
+export interface ParcelAttributes {
+  centers: Float64Array;      // Interleaved [lng, lat] label points, always inside the parcel
+  inBoundary: Uint8Array;     // 1 when the center lies inside the constituency
+  communityIds: Int32Array;   // COMM_ID containing the center, or NO_COMMUNITY
+  geodesicAreas: Float64Array; // Area of the digitized geometry in m², NaN when malformed
+}
+
+/**
+ * Everything the preprocessing needs; geometry only, so it is cheap to post to a worker
+ */
+export interface PreprocessInput {
+  parcelGeometries: (Polygon | MultiPolygon)[];
+  addressCoordinates: Float64Array;  // Interleaved [lng, lat] pairs
+  boundary: Feature<Polygon>;
+  communities: FeatureCollection<Polygon | MultiPolygon>;
+}
+
+export interface PreprocessResult {
+  parcels: ParcelAttributes;
+  addressCommunityIds: Int32Array;   // Index-aligned with the address features
+}
+
+export type PreprocessProgress = (done: number, total: number) => void;
+
+// Progress callbacks fire roughly this many times over a full run
+const PROGRESS_STEPS = 50;
+
+/**
+ * Returns a point → COMM_ID lookup backed by a bounding-box index over the community polygons
+ */
+export function createCommunityLocator(
+  communities: FeatureCollection<Polygon | MultiPolygon>
+): (lng: number, lat: number) => number {
+  const index = createBBoxIndex(communities.features.map(f => geometryBBox(f.geometry)));
+
+  return (lng, lat) => {
+    for (const i of index.search(lng, lat)) {
+      const feature = communities.features[i];
+      try {
+        if (booleanPointInPolygon([lng, lat], feature)) {
+          return communityId(feature) ?? NO_COMMUNITY;
+        }
+      } catch {
+        // Skip invalid polygons
+        continue;
+      }
+    }
+    return NO_COMMUNITY;
+  };
+}
+
+/**
+ * Label point, geodesic area, constituency membership and community for every parcel,
+ * and the community of every address.
+ * Pure and synchronous: runs inside the preprocessing worker or inline as a fallback.
+ */
+export function preprocessGeometry(
+  { parcelGeometries, addressCoordinates, boundary, communities }: PreprocessInput,
+  onProgress?: PreprocessProgress
+): PreprocessResult {
+  const parcelCount = parcelGeometries.length;
+  const addressCount = addressCoordinates.length / 2;
+  const total = parcelCount + addressCount;
+  const step = Math.max(1, Math.ceil(total / PROGRESS_STEPS));
+  const locateCommunity = createCommunityLocator(communities);
+  const boundaryBBox = geometryBBox(boundary.geometry);
+
+  const centers = new Float64Array(parcelCount * 2);
+  const inBoundary = new Uint8Array(parcelCount);
+  const communityIds = new Int32Array(parcelCount);
+  const geodesicAreas = new Float64Array(parcelCount);
+
+  for (let i = 0; i < parcelCount; i++) {
+    let lng = NaN;
+    let lat = NaN;
+    try {
+      // A split or crescent-shaped parcel's centroid can fall outside it, and so in the wrong community
+      [lng, lat] = labelPoint(parcelGeometries[i]);
+    } catch {
+      // Leave NaN for empty or malformed geometry
+    }
+    try {
+      geodesicAreas[i] = area(parcelGeometries[i]);
+    } catch {
+      geodesicAreas[i] = NaN;  // Malformed geometry
+    }
+    centers[i * 2] = lng;
+    centers[i * 2 + 1] = lat;
+
+    const insideBBox = lng >= boundaryBBox[0] && lng <= boundaryBBox[2]
+      && lat >= boundaryBBox[1] && lat <= boundaryBBox[3];
+    inBoundary[i] = insideBBox && booleanPointInPolygon([lng, lat], boundary) ? 1 : 0;
+    communityIds[i] = isNaN(lng) ? NO_COMMUNITY : locateCommunity(lng, lat);
+
+    if (onProgress && (i + 1) % step === 0) onProgress(i + 1, total);
+  }
+
+  const addressCommunityIds = new Int32Array(addressCount);
+  for (let i = 0; i < addressCount; i++) {
+    const lng = addressCoordinates[i * 2];
+    const lat = addressCoordinates[i * 2 + 1];
+    addressCommunityIds[i] = isNaN(lng) || isNaN(lat) ? NO_COMMUNITY : locateCommunity(lng, lat);
+
+    if (onProgress && (parcelCount + i + 1) % step === 0) onProgress(parcelCount + i + 1, total);
+  }
+
+  onProgress?.(total, total);
+
+  return {
+    parcels: { centers, inBoundary, communityIds, geodesicAreas },
+    addressCommunityIds,
+  };
+}
@@ -0,0 +1,48 @@
+import type { Feature, Polygon, MultiPolygon } from 'geojson';
+import booleanIntersects from '@turf/boolean-intersects';
+import buffer from '@turf/buffer';
+import dissolve from '@turf/dissolve';
+import { featureCollection, multiPolygon, polygon } from '@turf/helpers';
+import { bboxesIntersect, geometryBBox } from './spatialIndex';
+
+/**
+ * Buffers every site polygon outward by `distanceMeters` and merges the results into one area
+ */
+export function bufferSite(
+  sites: Feature<Polygon | MultiPolygon>[],
+  distanceMeters: number
+): Feature<MultiPolygon> | null {
+  const parts: Feature<Polygon>[] = [];
+  for (const site of sites) {
+    if (!site.geometry) continue;
+    const buffered = distanceMeters > 0 ? buffer(site, distanceMeters, { units: 'meters' }) : site;
+    if (!buffered) continue;
+    const rings = buffered.geometry.type === 'Polygon' ? [buffered.geometry.coordinates] : buffered.geometry.coordinates;
+    rings.forEach(coordinates => parts.push(polygon(coordinates)));
+  }
+  if (parts.length === 0) return null;
+
+  // Overlapping buffers of neighbouring parcels merge into one outline
+  let merged = parts;
+  try {
+    merged = dissolve(featureCollection(parts)).features;
+  } catch {
+    // Keep the overlapping parts; they still cover the right area
+  }
+  return multiPolygon(merged.map(part => part.geometry.coordinates));
+}
+
+/**
+ * Features touching or inside the area
+ */
+export function featuresIntersecting<T extends Feature<Polygon | MultiPolygon>>(
+  features: T[],
+  area: Feature<MultiPolygon>
+): T[] {
+  const areaBBox = geometryBBox(area.geometry);
+  return features.filter(feature =>
+    feature.geometry &&
+    bboxesIntersect(geometryBBox(feature.geometry), areaBBox) &&
+    booleanIntersects(feature, area)
+  );
+}
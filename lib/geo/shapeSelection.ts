@@ -0,0 +1,82 @@
+import type { Feature, Polygon, MultiPolygon, Position } from 'geojson';
+import booleanIntersects from '@turf/boolean-intersects';
+import centroid from '@turf/centroid';
+import { bboxesIntersect, geometryBBox } from './spatialIndex';
+
+/**
+ * How a drawn shape combines with the current selection
+ */
+export type SelectionMode = 'add' | 'subtract' | 'replace';
+
+export const SELECTION_MODE_LABELS: Record<SelectionMode, string> = {
+  add: 'Add',
+  subtract: 'Subtract',
+  replace: 'Replace',
+};
+
+/**
+ * Features that intersect or lie inside the shape, ordered by where they fall
+ * along its outline - i.e. in the direction the shape was drawn.
+ */
+export function featuresInShape<T extends Feature<Polygon | MultiPolygon>>(features: T[], shape: Polygon): T[] {
+  const shapeBBox = geometryBBox(shape);
+  const ring = shape.coordinates[0];
+
+  const matches: { feature: T; position: number }[] = [];
+  for (const feature of features) {
+    if (!feature.geometry || !bboxesIntersect(geometryBBox(feature.geometry), shapeBBox)) continue;
+    try {
+      if (!booleanIntersects(feature, shape)) continue;
+    } catch {
+      // Skip invalid polygons
+      continue;
+    }
+    const center = centroid(feature).geometry.coordinates;
+    matches.push({ feature, position: positionAlongRing(center, ring) });
+  }
+
+  return matches
+    .sort((a, b) => a.position - b.position)
+    .map(match => match.feature);
+}
+
+/**
+ * Fractional vertex index of the ring point nearest to `point` (segment index + offset along it)
+ */
+function positionAlongRing(point: Position, ring: Position[]): number {
+  // Scale longitude so distances are roughly isotropic at this latitude
+  const kx = Math.cos((point[1] * Math.PI) / 180);
+  let best = 0;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < ring.length - 1; i++) {
+    const ax = ring[i][0] * kx;
+    const ay = ring[i][1];
+    const dx = ring[i + 1][0] * kx - ax;
+    const dy = ring[i + 1][1] - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point[0] * kx - ax) * dx + (point[1] - ay) * dy) / lengthSq));
+    const distance = Math.hypot(point[0] * kx - (ax + t * dx), point[1] - (ay + t * dy));
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i + t;
+    }
+  }
+  return best;
+}
+
+/**
+ * Applies a drawn selection to the current one: new ids are appended after the
+ * existing ones in "add" mode, removed in "subtract" mode, or replace it entirely.
+ */
+export function combineSelection(currentIds: number[], shapeIds: number[], mode: SelectionMode): number[] {
+  if (mode === 'replace') return shapeIds;
+  if (mode === 'subtract') {
+    const removed = new Set(shapeIds);
+    return currentIds.filter(id => !removed.has(id));
+  }
+  const existing = new Set(currentIds);
+  return [...currentIds, ...shapeIds.filter(id => !existing.has(id))];
+}
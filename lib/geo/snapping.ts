@@ -0,0 +1,39 @@
+import type { Polygon, MultiPolygon } from 'geojson';
+
+// How close (in screen pixels) the cursor must be to a vertex to snap to it
+export const SNAP_TOLERANCE_PIXELS = 10;
+
+type Project = (lngLat: [number, number]) => { x: number; y: number };
+
+/**
+ * The vertex of any geometry nearest the point on screen, or the point itself
+ * when none is within the tolerance
+ */
+export function snapToVertex(
+  lngLat: [number, number],
+  geometries: (Polygon | MultiPolygon)[],
+  project: Project,
+  tolerancePixels: number = SNAP_TOLERANCE_PIXELS
+): [number, number] {
+  const origin = project(lngLat);
+  let best = lngLat;
+  let bestDistance = tolerancePixels;
+
+  for (const geometry of geometries) {
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    for (const rings of polygons) {
+      for (const ring of rings) {
+        for (const vertex of ring) {
+          const candidate: [number, number] = [vertex[0], vertex[1]];
+          const pixel = project(candidate);
+          const distance = Math.hypot(pixel.x - origin.x, pixel.y - origin.y);
+          if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+          }
+        }
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,110 @@
+import type { Polygon, MultiPolygon } from 'geojson';
+
+/**
+ * Axis-aligned bounding box: [minLng, minLat, maxLng, maxLat]
+ */
+export type BBox = [number, number, number, number];
+
+/**
+ * Bounding box of a polygon or multipolygon's outer rings
+ */
+export function geometryBBox(geometry: Polygon | MultiPolygon): BBox {
+  const bbox: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+  for (const polygon of polygons) {
+    for (const [lng, lat] of polygon[0] || []) {
+      if (lng < bbox[0]) bbox[0] = lng;
+      if (lat < bbox[1]) bbox[1] = lat;
+      if (lng > bbox[2]) bbox[2] = lng;
+      if (lat > bbox[3]) bbox[3] = lat;
+    }
+  }
+  return bbox;
+}
+
+/**
+ * Bounding box enclosing every box; one pass, so it scales to any number of boxes
+ */
+export function bboxExtent(bboxes: BBox[]): BBox {
+  const extent: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const b of bboxes) {
+    if (b[0] < extent[0]) extent[0] = b[0];
+    if (b[1] < extent[1]) extent[1] = b[1];
+    if (b[2] > extent[2]) extent[2] = b[2];
+    if (b[3] > extent[3]) extent[3] = b[3];
+  }
+  return extent;
+}
+
+/**
+ * Whether two bounding boxes overlap (touching counts)
+ */
+export function bboxesIntersect(a: BBox, b: BBox): boolean {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+}
+
+/**
+ * Point lookup over a set of bounding boxes
+ */
+export interface BBoxIndex {
+  /** Indices of every box containing the point (candidates for an exact test) */
+  search(lng: number, lat: number): number[];
+  /** Indices of every box overlapping the query box */
+  searchBox(bbox: BBox): number[];
+}
+
+/**
+ * Builds a uniform grid over the boxes' extent; each cell lists the boxes overlapping it,
+ * so a point query only checks the handful of boxes in its cell.
+ */
+export function createBBoxIndex(bboxes: BBox[], cellsPerSide: number = 16): BBoxIndex {
+  const valid = bboxes.filter(b => b[0] <= b[2] && b[1] <= b[3]);
+  if (valid.length === 0) {
+    return { search: () => [], searchBox: () => [] };
+  }
+
+  const [minLng, minLat, maxLng, maxLat] = bboxExtent(valid);
+  const cellWidth = (maxLng - minLng) / cellsPerSide || 1;
+  const cellHeight = (maxLat - minLat) / cellsPerSide || 1;
+
+  const clampCell = (value: number) => Math.min(cellsPerSide - 1, Math.max(0, Math.floor(value)));
+  const cells: number[][] = Array.from({ length: cellsPerSide * cellsPerSide }, () => []);
+
+  bboxes.forEach((b, i) => {
+    if (b[0] > b[2] || b[1] > b[3]) return;
+    const x0 = clampCell((b[0] - minLng) / cellWidth);
+    const x1 = clampCell((b[2] - minLng) / cellWidth);
+    const y0 = clampCell((b[1] - minLat) / cellHeight);
+    const y1 = clampCell((b[3] - minLat) / cellHeight);
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        cells[y * cellsPerSide + x].push(i);
+      }
+    }
+  });
+
+  return {
+    search(lng, lat) {
+      if (lng < minLng || lng > maxLng || lat < minLat || lat > maxLat) return [];
+      const x = clampCell((lng - minLng) / cellWidth);
+      const y = clampCell((lat - minLat) / cellHeight);
+      return cells[y * cellsPerSide + x].filter(i => {
+        const b = bboxes[i];
+        return lng >= b[0] && lng <= b[2] && lat >= b[1] && lat <= b[3];
+      });
+    },
+    searchBox(query) {
+      if (query[2] < minLng || query[0] > maxLng || query[3] < minLat || query[1] > maxLat) return [];
+      const found = new Set<number>();
+      for (let y = clampCell((query[1] - minLat) / cellHeight); y <= clampCell((query[3] - minLat) / cellHeight); y++) {
+        for (let x = clampCell((query[0] - minLng) / cellWidth); x <= clampCell((query[2] - minLng) / cellWidth); x++) {
+          for (const i of cells[y * cellsPerSide + x]) {
+            if (bboxesIntersect(bboxes[i], query)) found.add(i);
+          }
+        }
+      }
+      return Array.from(found);
+    },
+  };
+}
@@ -0,0 +1,229 @@
+import type { Feature, Polygon, MultiPolygon, Position } from 'geojson';
+import area from '@turf/area';
+import dissolve from '@turf/dissolve';
+import intersect from '@turf/intersect';
+import { featureCollection, polygon } from '@turf/helpers';
+import { labelPoint } from './labelPoint';
+import type { BBox } from './spatialIndex';
+
+// Vertices this close to the other parcel's boundary count as on it, not inside it
+const OVERLAP_TOLERANCE_METERS = 0.05;
+// Self-intersection points reported per parcel at most
+const MAX_SELF_INTERSECTIONS = 20;
+// Signature and snapping coordinate precision (7 decimal places is about 1 cm)
+const SIGNATURE_DECIMALS = 7;
+const SNAP_FACTOR = 10 ** SIGNATURE_DECIMALS;
+
+const METERS_PER_DEGREE_LAT = 110540;
+const METERS_PER_DEGREE_LNG = 111320;
+
+type AreaGeometry = Polygon | MultiPolygon;
+
+/**
+ * A piece of the fabric found by a check, with its area
+ */
+export interface TopologyArea {
+  geometry: AreaGeometry;
+  areaSqmt: number;
+  center: [number, number];
+}
+
+function polygonsOf(geometry: AreaGeometry): Position[][][] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+function ringsOf(geometry: AreaGeometry): Position[][] {
+  return geometry.type === 'Polygon' ? geometry.coordinates : geometry.coordinates.flat();
+}
+
+// Twice the signed area of triangle abc: > 0 when c is left of ab
+function orient(a: Position, b: Position, c: Position): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+// Crossing point of segments ab and cd when they cross at a single interior point
+function properCrossing(a: Position, b: Position, c: Position, d: Position): Position | null {
+  const o1 = orient(a, b, c);
+  const o2 = orient(a, b, d);
+  const o3 = orient(c, d, a);
+  const o4 = orient(c, d, b);
+  if (o1 * o2 >= 0 || o3 * o4 >= 0) return null;
+  const t = o3 / (o3 - o4);
+  return [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+}
+
+/**
+ * Points where a ring crosses itself. Rings of different parts are not compared.
+ */
+export function selfIntersections(geometry: AreaGeometry): Position[] {
+  const points: Position[] = [];
+  for (const ring of ringsOf(geometry)) {
+    const segments = ring.length - 1;
+    for (let i = 0; i < segments - 1; i++) {
+      // Skip the neighbouring segment, and the closing segment that shares the first vertex
+      for (let j = i + 2; j < segments; j++) {
+        if (i === 0 && j === segments - 1) continue;
+        const point = properCrossing(ring[i], ring[i + 1], ring[j], ring[j + 1]);
+        if (point) {
+          points.push(point);
+          if (points.length >= MAX_SELF_INTERSECTIONS) return points;
+        }
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Order-independent key of a geometry's vertices; equal keys mean duplicate geometry
+ */
+export function geometrySignature(geometry: AreaGeometry): string {
+  const vertices: string[] = [];
+  for (const ring of ringsOf(geometry)) {
+    // The closing vertex repeats the first
+    for (let k = 0; k < ring.length - 1; k++) {
+      vertices.push(`${ring[k][0].toFixed(SIGNATURE_DECIMALS)},${ring[k][1].toFixed(SIGNATURE_DECIMALS)}`);
+    }
+  }
+  return vertices.sort().join(';');
+}
+
+type Projected = Position[][];
+
+function project(geometry: AreaGeometry, kx: number): Projected {
+  return ringsOf(geometry).map(ring => ring.map(([lng, lat]) => [lng * kx, lat * METERS_PER_DEGREE_LAT]));
+}
+
+// Even-odd test over every ring, so holes and separate parts both work
+function insideRings(point: Position, rings: Projected): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if ((a[1] > point[1]) !== (b[1] > point[1])
+        && point[0] < ((b[0] - a[0]) * (point[1] - a[1])) / (b[1] - a[1]) + a[0]) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+function distanceSqToRings(point: Position, rings: Projected): number {
+  let best = Infinity;
+  for (const ring of rings) {
+    for (let k = 0; k < ring.length - 1; k++) {
+      const [ax, ay] = ring[k];
+      const dx = ring[k + 1][0] - ax;
+      const dy = ring[k + 1][1] - ay;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point[0] - ax) * dx + (point[1] - ay) * dy) / lengthSq));
+      const ex = point[0] - (ax + t * dx);
+      const ey = point[1] - (ay + t * dy);
+      best = Math.min(best, ex * ex + ey * ey);
+    }
+  }
+  return best;
+}
+
+// Vertices and edge midpoints; midpoints catch overlaps along a shared edge line
+function samplePoints(rings: Projected): Position[] {
+  const points: Position[] = [];
+  for (const ring of rings) {
+    for (let k = 0; k < ring.length - 1; k++) {
+      points.push(ring[k], [(ring[k][0] + ring[k + 1][0]) / 2, (ring[k][1] + ring[k + 1][1]) / 2]);
+    }
+  }
+  return points;
+}
+
+// Cheap test before the exact intersection: a sample point clearly inside the other parcel,
+// or edges crossing away from their ends. Neighbours that only share a boundary fail both.
+function mayOverlap(a: Projected, b: Projected): boolean {
+  const toleranceSq = OVERLAP_TOLERANCE_METERS * OVERLAP_TOLERANCE_METERS;
+  const vertexInside = (from: Projected, to: Projected) => samplePoints(from).some(point =>
+    insideRings(point, to) && distanceSqToRings(point, to) > toleranceSq
+  );
+  if (vertexInside(a, b) || vertexInside(b, a)) return true;
+
+  for (const ringA of a) {
+    for (let i = 0; i < ringA.length - 1; i++) {
+      for (const ringB of b) {
+        for (let j = 0; j < ringB.length - 1; j++) {
+          const point = properCrossing(ringA[i], ringA[i + 1], ringB[j], ringB[j + 1]);
+          if (!point) continue;
+          const ends = [ringA[i], ringA[i + 1], ringB[j], ringB[j + 1]];
+          if (ends.every(end => (end[0] - point[0]) ** 2 + (end[1] - point[1]) ** 2 > toleranceSq)) return true;
+        }
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * The area two parcels share, when it is at least `minSqmt`. Parcels that merely
+ * share a boundary (within a few centimetres) are not checked exactly.
+ */
+export function findOverlap(
+  a: Feature<AreaGeometry>,
+  b: Feature<AreaGeometry>,
+  minSqmt: number
+): TopologyArea | null {
+  const [, lat] = ringsOf(a.geometry)[0]?.[0] || [0, 0];
+  const kx = Math.cos((lat * Math.PI) / 180) * METERS_PER_DEGREE_LNG;
+  if (!mayOverlap(project(a.geometry, kx), project(b.geometry, kx))) return null;
+
+  let overlap: Feature<AreaGeometry> | null = null;
+  try {
+    overlap = intersect(featureCollection([a, b]));
+  } catch {
+    // Invalid geometry (e.g. self-intersecting); reported by the ring check instead
+    return null;
+  }
+  if (!overlap) return null;
+
+  const areaSqmt = area(overlap);
+  return areaSqmt >= minSqmt
+    ? { geometry: overlap.geometry, areaSqmt, center: labelPoint(overlap.geometry) }
+    : null;
+}
+
+/**
+ * Holes in the union of the given parcels with an area between `minSqmt` and `maxSqmt`.
+ * Only holes lying wholly inside `extent` are trusted (every parcel that could fill them
+ * was included), and only those whose label point falls in `core` are returned, so
+ * neighbouring cells of a grid never report the same gap twice.
+ */
+export function findGaps(
+  geometries: AreaGeometry[],
+  core: BBox,
+  extent: BBox,
+  minSqmt: number,
+  maxSqmt: number
+): TopologyArea[] {
+  // Shared boundaries rarely match to the last bit; unsnapped, the slivers between them split the union
+  const snap = (value: number) => Math.round(value * SNAP_FACTOR) / SNAP_FACTOR;
+  const parts = geometries.flatMap(geometry => polygonsOf(geometry).map(rings =>
+    polygon(rings.map(ring => ring.map(([lng, lat]) => [snap(lng), snap(lat)])))
+  ));
+  if (parts.length === 0) return [];
+
+  const gaps: TopologyArea[] = [];
+  for (const merged of dissolve(featureCollection(parts)).features) {
+    for (const hole of merged.geometry.coordinates.slice(1)) {
+      const geometry: Polygon = { type: 'Polygon', coordinates: [hole] };
+      const areaSqmt = area(geometry);
+      if (areaSqmt < minSqmt || areaSqmt > maxSqmt) continue;
+
+      const withinExtent = hole.every(([lng, lat]) =>
+        lng > extent[0] && lng < extent[2] && lat > extent[1] && lat < extent[3]
+      );
+      const center = labelPoint(geometry);
+      const inCore = center[0] >= core[0] && center[0] < core[2] && center[1] >= core[1] && center[1] < core[3];
+      if (withinExtent && inCore) gaps.push({ geometry, areaSqmt, center });
+    }
+  }
+  return gaps;
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+/**
+ * Map edge the attribute table is docked to
+ */
+export type AttributeTableDock = "bottom" | "right";
+
+const STORAGE_KEY = "land-mapping-attribute-table-dock";
+
+/**
+ * Custom hook for the attribute table's dock position with localStorage persistence
+ */
+export function useAttributeTableDock() {
+  const [dock, setDock] = useState<AttributeTableDock>("bottom");
+
+  // Load from localStorage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored === "bottom" || stored === "right") setDock(stored);
+    } catch (error) {
+      console.error("Failed to load attribute table dock:", error);
+    }
+  }, []);
+
+  /**
+   * Change and remember the dock position
+   */
+  const saveDock = useCallback((newDock: AttributeTableDock): void => {
+    setDock(newDock);
+    try {
+      localStorage.setItem(STORAGE_KEY, newDock);
+    } catch (error) {
+      console.error("Failed to save attribute table dock:", error);
+    }
+  }, []);
+
+  return { dock, saveDock };
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Feature, FeatureCollection, MultiPolygon, Point, Polygon } from "geojson";
+import { preprocessGeometry, type PreprocessInput, type PreprocessResult } from "../geo/preprocess";
+import { COMMUNITIES_URL } from "../geo/electoral-divisions";
+import { PARCELS_URL } from "../data/parcels";
+import { ADDRESSES_URL } from "../data/addresses";
+import { getSourceVersion, readCache, writeCache } from "../data/cache";
+import type { PreprocessWorkerMessage, PreprocessWorkerRequest } from "../workers/preprocess.worker";
+
+export interface PreprocessingProgress {
+  done: number;
+  total: number;
+}
+
+const CACHE_KEY = "geometry";
+// Bump when preprocessing output changes for the same source files (e.g. a new boundary)
+const PREPROCESS_VERSION = 3;
+
+// Cached geometry is valid while parcels, addresses and communities are all unchanged
+async function getGeometryVersion(): Promise<string | null> {
+  try {
+    const versions = await Promise.all([PARCELS_URL, ADDRESSES_URL, COMMUNITIES_URL].map(getSourceVersion));
+    return [`v${PREPROCESS_VERSION}`, ...versions].join("|");
+  } catch (error) {
+    console.warn("Could not determine geometry cache version:", error);
+    return null;
+  }
+}
+
+/**
+ * Runs parcel/address geometry preprocessing in a Web Worker so the map stays interactive.
+ * Reuses the cached result while the source files are unchanged, and falls back to
+ * running inline where workers are unavailable.
+ */
+export function useGeometryPreprocessing(
+  parcelsData: FeatureCollection<Polygon | MultiPolygon> | null,
+  addressesData: FeatureCollection<Point> | null,
+  boundary: Feature<Polygon>,
+  communities: FeatureCollection<Polygon | MultiPolygon> | null
+) {
+  const [result, setResult] = useState<PreprocessResult | null>(null);
+  const [progress, setProgress] = useState<PreprocessingProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!parcelsData || !communities) return;
+
+    let cancelled = false;
+    let worker: Worker | null = null;
+
+    const addressFeatures = addressesData?.features || [];
+    const total = parcelsData.features.length + addressFeatures.length;
+
+    setResult(null);
+    setError(null);
+    setProgress({ done: 0, total });
+
+    const finish = (computed: PreprocessResult, version: string | null) => {
+      setResult(computed);
+      setProgress(null);
+      if (version) writeCache(CACHE_KEY, version, computed);
+    };
+
+    const fail = (message: string) => {
+      if (cancelled) return;
+      console.error("Parcel preprocessing failed:", message);
+      worker?.terminate();
+      setError(message);
+      setProgress(null);
+    };
+
+    async function run(
+      parcels: FeatureCollection<Polygon | MultiPolygon>,
+      communityCollection: FeatureCollection<Polygon | MultiPolygon>
+    ) {
+      const version = await getGeometryVersion();
+      if (cancelled) return;
+
+      if (version) {
+        const cached = await readCache<PreprocessResult>(CACHE_KEY, version);
+        if (cancelled) return;
+        // Guard against a stale entry whose feature counts no longer line up
+        if (cached
+          && cached.parcels.inBoundary.length === parcels.features.length
+          && cached.addressCommunityIds.length === addressFeatures.length) {
+          setResult(cached);
+          setProgress(null);
+          return;
+        }
+      }
+
+      const addressCoordinates = new Float64Array(addressFeatures.length * 2);
+      addressFeatures.forEach((feature, i) => {
+        addressCoordinates[i * 2] = feature.geometry.coordinates[0];
+        addressCoordinates[i * 2 + 1] = feature.geometry.coordinates[1];
+      });
+
+      const input: PreprocessInput = {
+        parcelGeometries: parcels.features.map(f => f.geometry),
+        addressCoordinates,
+        boundary,
+        communities: communityCollection,
+      };
+
+      if (typeof Worker === "undefined") {
+        finish(preprocessGeometry(input), version);
+        return;
+      }
+
+      worker = new Worker(new URL("../workers/preprocess.worker.ts", import.meta.url));
+      // The script failed to load, or threw outside the worker's own error handling
+      worker.onerror = (event) => {
+        event.preventDefault();
+        fail(event.message || "The preprocessing worker could not be started");
+      };
+      worker.onmessageerror = () => fail("The preprocessing result could not be read");
+      worker.onmessage = (event: MessageEvent<PreprocessWorkerMessage>) => {
+        const message = event.data;
+        switch (message.type) {
+          case "progress":
+            setProgress({ done: message.done, total: message.total });
+            break;
+          case "result":
+            worker?.terminate();
+            finish(message.result, version);
+            break;
+          case "error":
+            fail(message.message);
+            break;
+        }
+      };
+      const request: PreprocessWorkerRequest = { type: "preprocess", input };
+      worker.postMessage(request, [addressCoordinates.buffer]);
+    }
+
+    run(parcelsData, communities).catch(err => fail(err instanceof Error ? err.message : String(err)));
+
+    // Data changed or component unmounted mid-run: abandon this run
+    return () => {
+      cancelled = true;
+      worker?.terminate();
+    };
+  }, [parcelsData, addressesData, boundary, communities]);
+
+  return {
+    result,
+    progress,
+    error,  // Set when preprocessing failed; divisions, communities and the analyses using them stay unavailable
+    isProcessing: progress !== null,
+  };
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { DEFAULT_LETTER_TEMPLATE } from "../data/letters";
+
+const STORAGE_KEY = "land-mapping-letter-template";
+
+/**
+ * Custom hook for the owner letter template with localStorage persistence
+ */
+export function useLetterTemplate() {
+  const [template, setTemplate] = useState(DEFAULT_LETTER_TEMPLATE);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load from localStorage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) setTemplate(stored);
+    } catch (error) {
+      console.error("Failed to load letter template:", error);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  // Persist to localStorage whenever the template changes
+  useEffect(() => {
+    if (isLoaded) {
+      try {
+        localStorage.setItem(STORAGE_KEY, template);
+      } catch (error) {
+        console.error("Failed to save letter template:", error);
+      }
+    }
+  }, [template, isLoaded]);
+
+  /**
+   * Replace the template text
+   */
+  const saveTemplate = useCallback((newTemplate: string): void => {
+    setTemplate(newTemplate);
+  }, []);
+
+  /**
+   * Restore the built-in template
+   */
+  const resetTemplate = useCallback((): void => {
+    setTemplate(DEFAULT_LETTER_TEMPLATE);
+  }, []);
+
+  return {
+    template,
+    isLoaded,
+    saveTemplate,
+    resetTemplate,
+  };
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { Feature, LineString, Polygon, Position } from "geojson";
+import type { MapLayerMouseEvent } from "react-map-gl";
+
+/**
+ * Shapes the map drawing mode can capture.
+ * "lasso" and "rectangle" are dragged; "polygon" and "line" are clicked vertex by vertex.
+ */
+export type DrawTool = "lasso" | "polygon" | "rectangle" | "line";
+
+export interface DrawResult {
+  tool: DrawTool;
+  coordinates: Position[];  // Closed ring for area tools, open path for "line"
+}
+
+export interface MapDrawingOptions {
+  snap?: (lngLat: [number, number]) => [number, number];  // e.g. to the nearest parcel vertex
+  onExit?: () => void;  // Escape pressed with nothing being drawn
+}
+
+// Freehand lasso points closer than this many pixels to the previous one are skipped
+const LASSO_MIN_PIXELS = 4;
+
+export const DRAW_TOOL_HINTS: Record<DrawTool, string> = {
+  lasso: "Drag to draw a freehand shape",
+  polygon: "Click to add points, double-click to finish",
+  rectangle: "Drag to draw a rectangle",
+  line: "Click to add points, double-click to finish",
+};
+
+function isDragTool(tool: DrawTool): boolean {
+  return tool === "lasso" || tool === "rectangle";
+}
+
+function rectangleRing(start: Position, end: Position): Position[] {
+  return [start, [end[0], start[1]], end, [start[0], end[1]], start];
+}
+
+// Drops consecutive repeats (the two clicks of a double-click land on the same point)
+function dedupe(points: Position[]): Position[] {
+  return points.filter((point, i) =>
+    i === 0 || point[0] !== points[i - 1][0] || point[1] !== points[i - 1][1]
+  );
+}
+
+function closeRing(points: Position[]): Position[] {
+  return [...points, points[0]];
+}
+
+/**
+ * Captures a lasso, polygon, rectangle or line drawn on the map.
+ * Spread `handlers` onto the Map while a tool is active and render `draft` as feedback;
+ * `onComplete` receives each finished shape and the tool stays active for the next one.
+ */
+export function useMapDrawing(
+  tool: DrawTool | null,
+  onComplete: (result: DrawResult) => void,
+  options: MapDrawingOptions = {}
+) {
+  const [points, setPoints] = useState<Position[]>([]);
+  const [cursor, setCursor] = useState<Position | null>(null);
+  const draggingRef = useRef(false);
+  const lastPixelRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Keep the latest callbacks without re-binding the key listener
+  const onCompleteRef = useRef(onComplete);
+  const optionsRef = useRef(options);
+  onCompleteRef.current = onComplete;
+  optionsRef.current = options;
+
+  const reset = useCallback(() => {
+    setPoints([]);
+    setCursor(null);
+    draggingRef.current = false;
+    lastPixelRef.current = null;
+  }, []);
+
+  // Switching tools abandons whatever was being drawn
+  useEffect(() => {
+    reset();
+  }, [tool, reset]);
+
+  const toPosition = useCallback((e: MapLayerMouseEvent): Position => {
+    const lngLat: [number, number] = [e.lngLat.lng, e.lngLat.lat];
+    return optionsRef.current.snap ? optionsRef.current.snap(lngLat) : lngLat;
+  }, []);
+
+  const finish = useCallback((vertices: Position[]) => {
+    if (!tool) return;
+    const distinct = dedupe(vertices);
+    reset();
+
+    if (tool === "line") {
+      if (distinct.length >= 2) onCompleteRef.current({ tool, coordinates: distinct });
+      return;
+    }
+    if (tool === "rectangle") {
+      // Degenerate (click without drag) rectangles are ignored
+      if (distinct.length >= 2) onCompleteRef.current({ tool, coordinates: rectangleRing(distinct[0], distinct[distinct.length - 1]) });
+      return;
+    }
+    if (distinct.length >= 3) onCompleteRef.current({ tool, coordinates: closeRing(distinct) });
+  }, [tool, reset]);
+
+  // Escape cancels the shape in progress (or leaves the tool); Enter finishes a clicked shape
+  useEffect(() => {
+    if (!tool) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        if (points.length > 0) {
+          reset();
+        } else {
+          optionsRef.current.onExit?.();
+        }
+      } else if (e.key === "Enter" && !isDragTool(tool) && points.length > 0) {
+        finish(points);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [tool, points, reset, finish]);
+
+  const onMouseDown = useCallback((e: MapLayerMouseEvent) => {
+    if (!tool || !isDragTool(tool)) return;
+    e.preventDefault();
+    draggingRef.current = true;
+    lastPixelRef.current = { x: e.point.x, y: e.point.y };
+    setPoints([toPosition(e)]);
+  }, [tool, toPosition]);
+
+  const onMouseMove = useCallback((e: MapLayerMouseEvent) => {
+    if (!tool) return;
+    if (!isDragTool(tool)) {
+      setCursor(toPosition(e));
+      return;
+    }
+    if (!draggingRef.current) return;
+
+    if (tool === "rectangle") {
+      setPoints(prev => [prev[0], toPosition(e)]);
+      return;
+    }
+    const last = lastPixelRef.current;
+    if (last && Math.hypot(e.point.x - last.x, e.point.y - last.y) < LASSO_MIN_PIXELS) return;
+    lastPixelRef.current = { x: e.point.x, y: e.point.y };
+    setPoints(prev => [...prev, toPosition(e)]);
+  }, [tool, toPosition]);
+
+  const onMouseUp = useCallback((e: MapLayerMouseEvent) => {
+    if (!tool || !isDragTool(tool) || !draggingRef.current) return;
+    const end = toPosition(e);
+    finish(tool === "rectangle" && points.length > 0 ? [points[0], end] : [...points, end]);
+  }, [tool, points, toPosition, finish]);
+
+  const onClick = useCallback((e: MapLayerMouseEvent) => {
+    if (!tool || isDragTool(tool)) return;
+    setPoints(prev => [...prev, toPosition(e)]);
+  }, [tool, toPosition]);
+
+  const onDblClick = useCallback((e: MapLayerMouseEvent) => {
+    if (!tool || isDragTool(tool)) return;
+    e.preventDefault();
+    finish([...points, toPosition(e)]);
+  }, [tool, points, toPosition, finish]);
+
+  // Shape in progress, including the rubber-band segment to the cursor for clicked shapes
+  let draft: Feature<LineString | Polygon> | null = null;
+  if (tool && points.length > 0) {
+    const vertices = tool === "rectangle"
+      ? (points.length > 1 ? rectangleRing(points[0], points[1]) : points)
+      : (!isDragTool(tool) && cursor ? [...points, cursor] : points);
+
+    draft = tool !== "line" && vertices.length >= 3
+      ? { type: "Feature", properties: {}, geometry: { type: "Polygon", coordinates: [tool === "rectangle" ? vertices : closeRing(vertices)] } }
+      : { type: "Feature", properties: {}, geometry: { type: "LineString", coordinates: vertices.length > 1 ? vertices : [vertices[0], vertices[0]] } };
+  }
+
+  return {
+    draft,
+    isDrawing: points.length > 0,
+    cancel: reset,
+    handlers: { onMouseDown, onMouseMove, onMouseUp, onClick, onDblClick },
+  };
+}
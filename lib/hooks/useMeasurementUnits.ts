@@ -0,0 +1,37 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { MeasurementUnits } from "../geo/measure";
+
+const STORAGE_KEY = "land-mapping-measurement-units";
+
+/**
+ * Custom hook for the preferred measurement units with localStorage persistence
+ */
+export function useMeasurementUnits() {
+  const [units, setUnits] = useState<MeasurementUnits>("metric");
+
+  // Load from localStorage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored === "metric" || stored === "imperial") setUnits(stored);
+    } catch (error) {
+      console.error("Failed to load measurement units:", error);
+    }
+  }, []);
+
+  /**
+   * Change and remember the units
+   */
+  const saveUnits = useCallback((newUnits: MeasurementUnits): void => {
+    setUnits(newUnits);
+    try {
+      localStorage.setItem(STORAGE_KEY, newUnits);
+    } catch (error) {
+      console.error("Failed to save measurement units:", error);
+    }
+  }, []);
+
+  return { units, saveUnits };
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { OwnerRule } from "../types/ownerRules";
+import { DEFAULT_OWNER_RULES } from "../data/ownerRules";
+
+const STORAGE_KEY = "land-mapping-owner-rules";
+
+/**
+ * Custom hook for managing owner classification rules with localStorage persistence
+ */
+export function useOwnerRules() {
+  const [rules, setRules] = useState<OwnerRule[]>(DEFAULT_OWNER_RULES);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load from localStorage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored) as OwnerRule[];
+        setRules(parsed);
+      }
+    } catch (error) {
+      console.error("Failed to load owner rules:", error);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  // Persist to localStorage whenever rules change
+  useEffect(() => {
+    if (isLoaded) {
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+      } catch (error) {
+        console.error("Failed to save owner rules:", error);
+      }
+    }
+  }, [rules, isLoaded]);
+
+  /**
+   * Replace the full rule set (the editor applies a whole draft at once)
+   */
+  const saveRules = useCallback((newRules: OwnerRule[]): void => {
+    setRules(newRules);
+  }, []);
+
+  /**
+   * Restore the built-in rules
+   */
+  const resetRules = useCallback((): void => {
+    setRules(DEFAULT_OWNER_RULES);
+  }, []);
+
+  return {
+    rules,
+    isLoaded,
+    saveRules,
+    resetRules,
+  };
+}
@@ -1,18 +1,11 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import type { SavedProject } from "../types/project";
+import type { ProjectAnnotation, SavedProject } from "../types/project";
+import { generateId } from "../utils/generateId";
 
 const STORAGE_KEY = "land-mapping-saved-projects";
 
-/**
- * Generate a UUID for saved projects
- */
-function generateId(): string {
-  return crypto.randomUUID?.() || 
-    `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-}
-
 /**
  * Custom hook for managing saved parcel projects with localStorage persistence
  */
@@ -95,6 +88,33 @@ export function useProjects() {
     setProjects(prev => prev.filter(proj => proj.id !== id));
   }, []);
 
+  /**
+   * Add a measured shape to a project
+   */
+  const addAnnotation = useCallback((id: string, annotation: Omit<ProjectAnnotation, "id" | "createdAt">): void => {
+    const newAnnotation: ProjectAnnotation = { ...annotation, id: generateId(), createdAt: Date.now() };
+    setProjects(prev =>
+      prev.map(proj =>
+        proj.id === id
+          ? { ...proj, annotations: [...(proj.annotations || []), newAnnotation], updatedAt: Date.now() }
+          : proj
+      )
+    );
+  }, []);
+
+  /**
+   * Remove a measured shape from a project
+   */
+  const removeAnnotation = useCallback((id: string, annotationId: string): void => {
+    setProjects(prev =>
+      prev.map(proj =>
+        proj.id === id
+          ? { ...proj, annotations: (proj.annotations || []).filter(a => a.id !== annotationId), updatedAt: Date.now() }
+          : proj
+      )
+    );
+  }, []);
+
   /**
    * Get a project by ID
    */
@@ -109,6 +129,8 @@ export function useProjects() {
     updateProject,
     renameProject,
     deleteProject,
+    addAnnotation,
+    removeAnnotation,
     getProject,
   };
 }
@@ -0,0 +1,70 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { ParcelQuery, ParcelQueryPreset } from "../types/parcelQuery";
+import { generateId } from "../utils/generateId";
+
+const STORAGE_KEY = "land-mapping-query-presets";
+
+/**
+ * Custom hook for named parcel query presets with localStorage persistence
+ */
+export function useQueryPresets() {
+  const [presets, setPresets] = useState<ParcelQueryPreset[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load from localStorage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored) as ParcelQueryPreset[];
+        setPresets(parsed);
+      }
+    } catch (error) {
+      console.error("Failed to load query presets:", error);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  // Persist to localStorage whenever presets change
+  useEffect(() => {
+    if (isLoaded) {
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+      } catch (error) {
+        console.error("Failed to save query presets:", error);
+      }
+    }
+  }, [presets, isLoaded]);
+
+  /**
+   * Save a query under a name, replacing any preset already using that name
+   */
+  const savePreset = useCallback((name: string, query: ParcelQuery): void => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const now = Date.now();
+    setPresets(prev => {
+      const existing = prev.find(preset => preset.name.toLowerCase() === trimmed.toLowerCase());
+      if (existing) {
+        return prev.map(preset => preset.id === existing.id ? { ...preset, query, updatedAt: now } : preset);
+      }
+      return [...prev, { id: generateId(), name: trimmed, query, createdAt: now, updatedAt: now }];
+    });
+  }, []);
+
+  /**
+   * Delete a preset
+   */
+  const deletePreset = useCallback((id: string): void => {
+    setPresets(prev => prev.filter(preset => preset.id !== id));
+  }, []);
+
+  return {
+    presets,
+    isLoaded,
+    savePreset,
+    deletePreset,
+  };
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { DEFAULT_SIZE_MISMATCH_PERCENT } from "../data/parcels";
+
+const STORAGE_KEY = "land-mapping-size-mismatch-percent";
+
+/**
+ * Custom hook for the size-mismatch threshold (percent) with localStorage persistence
+ */
+export function useSizeMismatchThreshold() {
+  const [threshold, setThreshold] = useState(DEFAULT_SIZE_MISMATCH_PERCENT);
+
+  // Load from localStorage on mount
+  useEffect(() => {
+    try {
+      const stored = Number(localStorage.getItem(STORAGE_KEY));
+      if (stored > 0) setThreshold(stored);
+    } catch (error) {
+      console.error("Failed to load size mismatch threshold:", error);
+    }
+  }, []);
+
+  /**
+   * Change and remember the threshold
+   */
+  const saveThreshold = useCallback((percent: number): void => {
+    if (!(percent > 0)) return;
+    setThreshold(percent);
+    try {
+      localStorage.setItem(STORAGE_KEY, String(percent));
+    } catch (error) {
+      console.error("Failed to save size mismatch threshold:", error);
+    }
+  }, []);
+
+  return { threshold, saveThreshold };
+}
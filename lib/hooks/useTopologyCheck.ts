@@ -0,0 +1,73 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { checkTopology, type TopologyInput, type TopologyReport } from "../data/topology";
+import type { PreprocessWorkerMessage, PreprocessWorkerRequest } from "../workers/preprocess.worker";
+
+/**
+ * Runs the parcel topology check in the preprocessing worker so the map stays
+ * interactive, falling back to running inline where workers are unavailable.
+ */
+export function useTopologyCheck() {
+  const [report, setReport] = useState<TopologyReport | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  // Abandon a running check on unmount
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const check = useCallback((
+    input: TopologyInput,
+    onProgress: (done: number, total: number) => void
+  ): Promise<TopologyReport> => new Promise((resolve, reject) => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+
+    const finish = (computed: TopologyReport) => {
+      setReport(computed);
+      resolve(computed);
+    };
+
+    if (typeof Worker === "undefined") {
+      try {
+        finish(checkTopology(input, onProgress));
+      } catch (err) {
+        reject(err);
+      }
+      return;
+    }
+
+    const worker = new Worker(new URL("../workers/preprocess.worker.ts", import.meta.url));
+    workerRef.current = worker;
+    const fail = (message: string) => {
+      worker.terminate();
+      reject(new Error(message));
+    };
+    // The script failed to load, or threw outside the worker's own error handling
+    worker.onerror = (event) => {
+      event.preventDefault();
+      fail(event.message || "The topology worker could not be started");
+    };
+    worker.onmessageerror = () => fail("The topology report could not be read");
+    worker.onmessage = (event: MessageEvent<PreprocessWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "progress":
+          onProgress(message.done, message.total);
+          break;
+        case "topology":
+          worker.terminate();
+          finish(message.report);
+          break;
+        case "error":
+          fail(message.message);
+          break;
+      }
+    };
+    const request: PreprocessWorkerRequest = { type: "topology", input };
+    worker.postMessage(request);
+  }), []);
+
+  const clear = useCallback(() => setReport(null), []);
+
+  return { report, check, clear };
+}
@@ -0,0 +1,29 @@
+/**
+ * Acres from square meters, with more decimals for smaller parcels; "N/A" when unknown
+ */
+export function formatAcreValue(sqmt: number | undefined): string {
+  if (!sqmt || isNaN(sqmt)) return "N/A";
+  const acres = sqmt / 4046.86;
+  if (acres >= 10) return acres.toFixed(1);
+  if (acres >= 1) return acres.toFixed(2);
+  return acres.toFixed(3);
+}
+
+/**
+ * Format acres from square meters, with the unit
+ */
+export function formatAcres(sqmt: number | undefined): string {
+  const value = formatAcreValue(sqmt);
+  return value === "N/A" ? value : `${value} acres`;
+}
+
+/**
+ * Format date for display
+ */
+export function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
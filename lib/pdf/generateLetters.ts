@@ -0,0 +1,40 @@
+import { jsPDF } from "jspdf";
+import type { Owner } from "../data/owners";
+import type { NotificationRecipient } from "../data/notification";
+import { letterFieldValues, renderLetterTemplate } from "../data/letters";
+import { downloadBlob } from "../export/download";
+import { formatDate } from "./format";
+import { addLetterText, startLetter } from "./letter";
+
+/**
+ * Generate a mail-merge PDF from a letter template, one letter per recipient
+ */
+export function generateLetters(
+  recipients: NotificationRecipient[],
+  template: string,
+  ownerLookup: Map<string, Owner>,
+  projectName: string
+): Blob {
+  const doc = new jsPDF({
+    orientation: "portrait",
+    unit: "mm",
+    format: "a4",
+  });
+  const date = formatDate(new Date());
+
+  recipients.forEach((recipient, i) => {
+    if (i > 0) doc.addPage();
+    const cursor = startLetter(doc, recipient.ownerName);
+    const values = letterFieldValues(recipient, ownerLookup, { projectName, date });
+    addLetterText(doc, cursor, renderLetterTemplate(template, values));
+  });
+
+  return doc.output("blob");
+}
+
+/**
+ * Download generated letters
+ */
+export function downloadLetters(blob: Blob, filename: string): void {
+  downloadBlob(blob, `${filename}.pdf`);
+}
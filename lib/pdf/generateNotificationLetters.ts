@@ -0,0 +1,131 @@
+import { jsPDF } from "jspdf";
+import type { NeighbourNotification, NotificationRecipient } from "../data/notification";
+import { downloadBlob } from "../export/download";
+import { formatAcreValue, formatDate } from "./format";
+import { LETTER_LINE_HEIGHT, LETTER_MARGIN, addLetterText, ensureLetterSpace, startLetter, type LetterCursor } from "./letter";
+
+/**
+ * Write a paragraph followed by a small gap
+ */
+function addParagraph(doc: jsPDF, cursor: LetterCursor, text: string): void {
+  addLetterText(doc, cursor, text);
+  cursor.y += 3;
+}
+
+/**
+ * Table of the recipient's parcels; continues onto further pages when long
+ */
+function addParcelTable(doc: jsPDF, cursor: LetterCursor, recipient: NotificationRecipient): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const columns = [
+    { label: "PID", x: LETTER_MARGIN },
+    { label: "LV Number", x: 50 },
+    { label: "Vol/Folio", x: 80 },
+    { label: "Acres", x: 105 },
+    { label: "Address", x: 122 },
+  ];
+
+  const addHeading = () => {
+    doc.setFillColor(241, 245, 249); // slate-100
+    doc.rect(LETTER_MARGIN, cursor.y - 4.5, pageWidth - LETTER_MARGIN * 2, 7, "F");
+    doc.setFontSize(8);
+    doc.setTextColor(71, 85, 105);
+    columns.forEach(col => doc.text(col.label, col.x + 1, cursor.y));
+    doc.setTextColor(30, 41, 59);
+    cursor.y += 7;
+  };
+  ensureLetterSpace(doc, cursor, 13);
+  addHeading();
+
+  for (const { parcel, address } of recipient.parcels) {
+    const page = cursor.page;
+    ensureLetterSpace(doc, cursor, 6);
+    if (cursor.page !== page) addHeading();
+    doc.setFontSize(8);
+    const values = [parcel.PID || "—", parcel.LV_NUMBER || "—", parcel.VOL_FOL || "—", formatAcreValue(parcel.SIZE_SQMT), address || "—"];
+    values.forEach((value, col) => {
+      const nextX = col < columns.length - 1 ? columns[col + 1].x : pageWidth - LETTER_MARGIN;
+      doc.text(doc.splitTextToSize(value, nextX - columns[col].x - 2)[0] || value, columns[col].x + 1, cursor.y);
+    });
+    cursor.y += 6;
+  }
+
+  doc.setFontSize(10);
+  cursor.y += 4;
+}
+
+/**
+ * Add one notification letter, starting at the top of the current page
+ */
+function addLetter(
+  doc: jsPDF,
+  recipient: NotificationRecipient,
+  projectName: string,
+  distanceMeters: number,
+  date: string
+): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const cursor = startLetter(doc, recipient.ownerName);
+  doc.text(date, pageWidth - LETTER_MARGIN, cursor.y, { align: "right" });
+
+  // Addressee block
+  cursor.y = 40;
+  doc.text(recipient.ownerName, LETTER_MARGIN, cursor.y);
+  cursor.y += LETTER_LINE_HEIGHT;
+  if (recipient.propertyAddress) {
+    const lines: string[] = doc.splitTextToSize(recipient.propertyAddress, 90);
+    doc.text(lines, LETTER_MARGIN, cursor.y);
+    cursor.y += lines.length * LETTER_LINE_HEIGHT;
+  }
+
+  cursor.y += 12;
+  doc.setFont("helvetica", "bold");
+  addParagraph(doc, cursor, `Re: Notice of proposed development - ${projectName}`);
+  doc.setFont("helvetica", "normal");
+
+  cursor.y += 2;
+  addParagraph(doc, cursor, `Dear ${recipient.ownerName},`);
+  addParagraph(
+    doc,
+    cursor,
+    `We are writing to let you know about a proposed development at the site known as "${projectName}". ` +
+      `Our records show that you hold the following land within ${distanceMeters} metres of the site:`
+  );
+
+  cursor.y += 2;
+  addParcelTable(doc, cursor, recipient);
+
+  addParagraph(
+    doc,
+    cursor,
+    "If you have any questions or would like to comment on the proposal, please contact us quoting the reference above."
+  );
+  cursor.y += 4;
+  addParagraph(doc, cursor, "Yours faithfully,");
+}
+
+/**
+ * Generate a mail-merge PDF with one notification letter per owner
+ */
+export function generateNotificationLetters(notification: NeighbourNotification, projectName: string): Blob {
+  const doc = new jsPDF({
+    orientation: "portrait",
+    unit: "mm",
+    format: "a4",
+  });
+  const date = formatDate(new Date());
+
+  notification.recipients.forEach((recipient, i) => {
+    if (i > 0) doc.addPage();
+    addLetter(doc, recipient, projectName, notification.distanceMeters, date);
+  });
+
+  return doc.output("blob");
+}
+
+/**
+ * Download the notification letters
+ */
+export function downloadNotificationLetters(blob: Blob, projectName: string): void {
+  downloadBlob(blob, `${projectName} notification letters.pdf`);
+}
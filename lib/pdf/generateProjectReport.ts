@@ -1,12 +1,17 @@
 import { jsPDF } from "jspdf";
-import type { Feature, Polygon } from "geojson";
-import type { ParcelProperties } from "../data/parcels";
+import area from "@turf/area";
+import type { ParcelFeature } from "../data/parcels";
+import { DEFAULT_SIZE_MISMATCH_PERCENT, formatSizeDiscrepancy, sizeDiscrepancyPercent } from "../data/parcels";
 import type { Owner } from "../data/owners";
+import { formatLandValue } from "../data/owners";
+import { formatChainage, type CorridorAnalysis } from "../data/corridor";
 import type { SavedProject } from "../types/project";
 import { getOverviewImageUrl, getParcelImageUrl, fetchImageAsBase64 } from "./mapboxStaticImage";
+import { formatAcres, formatDate } from "./format";
+import { downloadBlob } from "../export/download";
 
 interface ParcelData {
-  parcel: Feature<Polygon, ParcelProperties>;
+  parcel: ParcelFeature;
   owner: Owner | null;
   selectionOrder: number;
 }
@@ -19,26 +24,23 @@ interface ReportProgress {
 
 type ProgressCallback = (progress: ReportProgress) => void;
 
-/**
- * Format acres from square meters
- */
-function formatAcres(sqmt: number | undefined): string {
-  if (!sqmt || isNaN(sqmt)) return "N/A";
-  const acres = sqmt / 4046.86;
-  if (acres >= 10) return `${acres.toFixed(1)} acres`;
-  if (acres >= 1) return `${acres.toFixed(2)} acres`;
-  return `${acres.toFixed(3)} acres`;
-}
+// Corridor schedule table rows that fit on one A4 page
+const SCHEDULE_ROWS_PER_PAGE = 34;
 
 /**
- * Format date for display
+ * Geodesic area of the parcel geometry with its difference from the recorded size
  */
-function formatDate(date: Date): string {
-  return date.toLocaleDateString("en-US", {
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-  });
+function formatDigitizedArea(parcel: ParcelFeature, sizeMismatchThreshold: number): string {
+  let sqmt: number;
+  try {
+    sqmt = area(parcel);
+  } catch {
+    return "N/A";
+  }
+  const discrepancy = sizeDiscrepancyPercent(parcel.properties?.SIZE_SQMT, sqmt);
+  if (discrepancy === null) return formatAcres(sqmt);
+  const flag = Math.abs(discrepancy) > sizeMismatchThreshold ? " - size mismatch" : "";
+  return `${formatAcres(sqmt)} (${formatSizeDiscrepancy(discrepancy)}${flag})`;
 }
 
 /**
@@ -106,6 +108,16 @@ async function addOverviewPage(
   doc.text(`Total Parcels: ${parcels.length}`, 15, 70);
   doc.text(`Total Area: ${totalAcres.toFixed(2)} acres`, 15, 78);
 
+  // Land value counted once per valuation number
+  const valuedLvNumbers = new Set<string>();
+  const totalLandValue = parcels.reduce((sum, p) => {
+    const lvNumber = p.parcel.properties?.LV_NUMBER;
+    if (!lvNumber || valuedLvNumbers.has(lvNumber)) return sum;
+    valuedLvNumbers.add(lvNumber);
+    return sum + (p.owner?.landValueAmount ?? 0);
+  }, 0);
+  doc.text(`Total Land Value: ${formatLandValue(totalLandValue)}`, pageWidth / 2, 70);
+
   // Overview map image
   try {
     const parcelFeatures = parcels.map(p => p.parcel);
@@ -168,7 +180,8 @@ async function addParcelPage(
   pageNumber: number,
   totalPages: number,
   addressLookup?: Map<string, { fullAddress?: string; community?: string }>,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  sizeMismatchThreshold: number = DEFAULT_SIZE_MISMATCH_PERCENT
 ): Promise<void> {
   const { parcel, owner, selectionOrder } = parcelData;
   const pageWidth = doc.internal.pageSize.getWidth();
@@ -222,7 +235,7 @@ async function addParcelPage(
   const detailsY = 145;
   
   doc.setFillColor(241, 245, 249); // slate-100
-  doc.rect(15, detailsY, pageWidth - 30, 80, "F");
+  doc.rect(15, detailsY, pageWidth - 30, 90, "F");
   
   doc.setFontSize(12);
   doc.setTextColor(30, 41, 59);
@@ -237,7 +250,9 @@ async function addParcelPage(
     ["Owner:", owner?.ownerName || "Unknown"],
     ["LV Number:", props?.LV_NUMBER || "—"],
     ["Volume/Folio:", props?.VOL_FOL || "—"],
-    ["Size:", formatAcres(props?.SIZE_SQMT)],
+    ["Recorded Size:", formatAcres(props?.SIZE_SQMT)],
+    ["Digitized Area:", formatDigitizedArea(parcel, sizeMismatchThreshold)],
+    ["Land Value:", formatLandValue(owner?.landValueAmount)],
   ];
 
   // Try to get address from lookup
@@ -268,18 +283,116 @@ async function addParcelPage(
 }
 
 /**
- * Generate PDF report for a project
+ * Number of pages the corridor schedule table needs
+ */
+function corridorSchedulePageCount(corridor: CorridorAnalysis): number {
+  return Math.max(1, Math.ceil(corridor.rows.length / SCHEDULE_ROWS_PER_PAGE));
+}
+
+/**
+ * Add corridor schedule pages: every affected parcel with the area taken and pro-rata value
+ */
+function addCorridorSchedulePages(
+  doc: jsPDF,
+  corridor: CorridorAnalysis,
+  projectName: string,
+  firstPageNumber: number,
+  totalPages: number
+): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const columns = [
+    { label: "#", x: 15, align: "left" as const },
+    { label: "Chainage", x: 23, align: "left" as const },
+    { label: "PID", x: 41, align: "left" as const },
+    { label: "Owner", x: 69, align: "left" as const },
+    { label: "LV #", x: 113, align: "left" as const },
+    { label: "Taken (ac)", x: 155, align: "right" as const },
+    { label: "% Parcel", x: 172, align: "right" as const },
+    { label: "Value", x: pageWidth - 15, align: "right" as const },
+  ];
+  const pageCount = corridorSchedulePageCount(corridor);
+
+  for (let page = 0; page < pageCount; page++) {
+    doc.addPage();
+    addPageHeader(doc, projectName, firstPageNumber + page, totalPages);
+
+    let y = 28;
+    if (page === 0) {
+      doc.setFontSize(18);
+      doc.setTextColor(30, 41, 59);
+      doc.text("Corridor Schedule", 15, y + 5);
+
+      doc.setFontSize(10);
+      doc.setTextColor(71, 85, 105);
+      doc.text(
+        `Alignment ${(corridor.lengthMeters / 1000).toFixed(2)} km · Right-of-way ${corridor.widthMeters} m · ${corridor.rows.length} parcels affected`,
+        15,
+        y + 13
+      );
+      doc.text(
+        `Area taken ${(corridor.totalAreaTakenSqmt / 4046.86).toFixed(2)} acres (${Math.round(corridor.totalAreaTakenSqmt).toLocaleString()} m²) · Pro-rata land value ${formatLandValue(corridor.totalProRataValue)}`,
+        15,
+        y + 19
+      );
+      y += 28;
+    }
+
+    // Column headings
+    doc.setFillColor(30, 41, 59);
+    doc.rect(15, y - 4.5, pageWidth - 30, 7, "F");
+    doc.setFontSize(8);
+    doc.setTextColor(255, 255, 255);
+    columns.forEach(col => doc.text(col.label, col.align === "right" ? col.x - 1 : col.x + 1, y, { align: col.align }));
+    y += 7;
+
+    const rows = corridor.rows.slice(page * SCHEDULE_ROWS_PER_PAGE, (page + 1) * SCHEDULE_ROWS_PER_PAGE);
+    rows.forEach((row, i) => {
+      const index = page * SCHEDULE_ROWS_PER_PAGE + i;
+      if (index % 2 === 1) {
+        doc.setFillColor(241, 245, 249); // slate-100
+        doc.rect(15, y - 4.5, pageWidth - 30, 6.5, "F");
+      }
+      const props = row.parcel.properties;
+      const values = [
+        String(index + 1),
+        formatChainage(row.chainage),
+        props.PID || "—",
+        row.owner?.ownerName || "Unknown",
+        props.LV_NUMBER || "—",
+        (row.areaTakenSqmt / 4046.86).toFixed(3),
+        `${row.percentTaken.toFixed(1)}%`,
+        formatLandValue(row.proRataValue),
+      ];
+
+      doc.setTextColor(30, 41, 59);
+      values.forEach((value, col) => {
+        const column = columns[col];
+        const nextX = col < columns.length - 1 ? columns[col + 1].x : pageWidth - 15;
+        // Truncate text columns to their width
+        const text = column.align === "left" ? doc.splitTextToSize(value, nextX - column.x - 2)[0] || value : value;
+        doc.text(text, column.align === "right" ? column.x - 1 : column.x + 1, y, { align: column.align });
+      });
+      y += 6.5;
+    });
+  }
+}
+
+/**
+ * Generate PDF report for a project, with a corridor schedule after the overview when given
  */
 export async function generateProjectReport(
   project: SavedProject,
   parcelsData: ParcelData[],
   addressLookup?: Map<string, { fullAddress?: string; community?: string }>,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  corridor?: CorridorAnalysis,
+  sizeMismatchThreshold: number = DEFAULT_SIZE_MISMATCH_PERCENT
 ): Promise<Blob> {
   // Sort parcels by selection order
   const sortedParcels = [...parcelsData].sort((a, b) => a.selectionOrder - b.selectionOrder);
   
-  const totalPages = 1 + sortedParcels.length; // Overview + one per parcel
+  const schedulePages = corridor ? corridorSchedulePageCount(corridor) : 0;
+  const totalPages = 1 + schedulePages + sortedParcels.length; // Overview + schedule + one per parcel
   
   // Create PDF (A4 size)
   const doc = new jsPDF({
@@ -291,16 +404,21 @@ export async function generateProjectReport(
   // Add overview page
   await addOverviewPage(doc, project, sortedParcels, totalPages, onProgress);
 
+  if (corridor) {
+    addCorridorSchedulePages(doc, corridor, project.name, 2, totalPages);
+  }
+
   // Add individual parcel pages
   for (let i = 0; i < sortedParcels.length; i++) {
     await addParcelPage(
       doc,
       sortedParcels[i],
       project.name,
-      i + 2, // Page 2 onwards
+      i + 2 + schedulePages, // After the overview and schedule
       totalPages,
       addressLookup,
-      onProgress
+      onProgress,
+      sizeMismatchThreshold
     );
   }
 
@@ -314,12 +432,5 @@ export async function generateProjectReport(
  * Download the PDF report
  */
 export function downloadReport(blob: Blob, projectName: string): void {
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = `${projectName} parcel report.pdf`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  downloadBlob(blob, `${projectName} parcel report.pdf`);
 }
@@ -0,0 +1,55 @@
+import type { jsPDF } from "jspdf";
+
+export const LETTER_MARGIN = 20;
+export const LETTER_LINE_HEIGHT = 5.5;
+const LETTER_TOP = 25;
+const LETTER_BOTTOM = 25;
+
+/**
+ * Where the next line of a letter goes; continuation pages are headed with the label
+ */
+export interface LetterCursor {
+  y: number;
+  page: number;
+  label: string;
+}
+
+function setLetterText(doc: jsPDF): void {
+  doc.setFontSize(10);
+  doc.setTextColor(30, 41, 59); // slate-800
+}
+
+/**
+ * Start a letter at the top of the current page
+ */
+export function startLetter(doc: jsPDF, label: string): LetterCursor {
+  setLetterText(doc);
+  return { y: LETTER_TOP, page: 1, label };
+}
+
+/**
+ * Move to a continuation page unless `height` more millimetres fit on this one
+ */
+export function ensureLetterSpace(doc: jsPDF, cursor: LetterCursor, height: number): void {
+  if (cursor.y + height <= doc.internal.pageSize.getHeight() - LETTER_BOTTOM) return;
+  doc.addPage();
+  cursor.page++;
+  cursor.y = LETTER_TOP;
+  doc.setFontSize(8);
+  doc.setTextColor(100, 116, 139); // slate-500
+  doc.text(`${cursor.label} (page ${cursor.page})`, LETTER_MARGIN, 15);
+  setLetterText(doc);
+}
+
+/**
+ * Write text wrapped to the page width, a line at a time so long letters run onto further pages
+ */
+export function addLetterText(doc: jsPDF, cursor: LetterCursor, text: string): void {
+  const width = doc.internal.pageSize.getWidth() - LETTER_MARGIN * 2;
+  const lines: string[] = doc.splitTextToSize(text, width);
+  for (const line of lines) {
+    ensureLetterSpace(doc, cursor, 0);
+    doc.text(line, LETTER_MARGIN, cursor.y);
+    cursor.y += LETTER_LINE_HEIGHT;
+  }
+}
@@ -1,5 +1,6 @@
-import type { Polygon, Feature, FeatureCollection } from "geojson";
-import type { ParcelProperties } from "../data/parcels";
+import type { FeatureCollection } from "geojson";
+import type { ParcelFeature } from "../data/parcels";
+import { geometryBBox } from "../geo/spatialIndex";
 
 const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
 const MAPBOX_STYLE = "mapbox/satellite-v9";
@@ -14,20 +15,19 @@ interface BoundingBox {
 /**
  * Calculate bounding box for a set of parcels
  */
-export function calculateBoundingBox(parcels: Feature<Polygon, ParcelProperties>[]): BoundingBox {
+export function calculateBoundingBox(parcels: ParcelFeature[]): BoundingBox {
   let minLng = Infinity;
   let minLat = Infinity;
   let maxLng = -Infinity;
   let maxLat = -Infinity;
 
   for (const parcel of parcels) {
-    const coords = parcel.geometry.coordinates[0]; // Outer ring
-    for (const [lng, lat] of coords) {
-      if (lng < minLng) minLng = lng;
-      if (lng > maxLng) maxLng = lng;
-      if (lat < minLat) minLat = lat;
-      if (lat > maxLat) maxLat = lat;
-    }
+    // Outer rings of every part, so split parcels are fully in view
+    const [west, south, east, north] = geometryBBox(parcel.geometry);
+    if (west < minLng) minLng = west;
+    if (east > maxLng) maxLng = east;
+    if (south < minLat) minLat = south;
+    if (north > maxLat) maxLat = north;
   }
 
   return { minLng, minLat, maxLng, maxLat };
@@ -55,7 +55,7 @@ function padBoundingBox(bbox: BoundingBox, paddingPercent: number = 0.15): Bound
  * Encodes parcels with outline styling
  */
 function createGeoJSONOverlay(
-  parcels: Feature<Polygon, ParcelProperties>[],
+  parcels: ParcelFeature[],
   strokeColor: string = "#00ffff",
   strokeWidth: number = 3,
   fillColor: string = "#00ffff",
@@ -85,7 +85,7 @@ function createGeoJSONOverlay(
  * Generate Mapbox Static Image URL for overview (all parcels)
  */
 export function getOverviewImageUrl(
-  parcels: Feature<Polygon, ParcelProperties>[],
+  parcels: ParcelFeature[],
   width: number = 800,
   height: number = 600
 ): string {
@@ -104,7 +104,7 @@ export function getOverviewImageUrl(
  * Generate Mapbox Static Image URL for a single parcel
  */
 export function getParcelImageUrl(
-  parcel: Feature<Polygon, ParcelProperties>,
+  parcel: ParcelFeature,
   width: number = 700,
   height: number = 400
 ): string {
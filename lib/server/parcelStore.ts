@@ -0,0 +1,257 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from "geojson";
+import geojsonvt from "geojson-vt";
+import { fromGeojsonVt } from "vt-pbf";
+import { sizeDiscrepancyPercent, withParcelGeometry, type ParcelGeometry } from "../data/parcels";
+import { applyValuePerAcre, createOwnerLookup, parseOwnersCsv, type Owner } from "../data/owners";
+import { createAllocationLookup, getParcelAllocation, type ParcelAllocation } from "../data/allocation";
+import { DEFAULT_OWNER_RULES } from "../data/ownerRules";
+import type { OwnerRule } from "../types/ownerRules";
+import {
+  PARCEL_TILE_LAYER,
+  PARCEL_TILE_MAX_ZOOM,
+  type ParcelTileProperties,
+  type ParcelTileSummary,
+} from "../data/parcelTiles";
+import type { ValueMetric } from "../data/valuation";
+import { manchesterNorthEasternBoundary } from "../geo/boundary";
+import {
+  assignDivisionsByMapping,
+  assignDivisionsByOverlay,
+  communityId,
+  DIVISION_POLYGONS_ENABLED,
+  validateCommunityDivisionMapping,
+  type DivisionAssignment,
+  type DivisionName,
+} from "../geo/electoral-divisions";
+import { NO_COMMUNITY, preprocessGeometry } from "../geo/preprocess";
+import { createBBoxIndex, geometryBBox, type BBox } from "../geo/spatialIndex";
+
+const DATA_DIR = path.join(process.cwd(), "public", "data");
+const TILE_EXTENT = 4096;
+const VALUE_SAMPLE_SIZE = 2000;
+const BBOX_INDEX_CELLS = 64;
+// Allocation lookups kept for recently requested owner rule sets
+const MAX_CACHED_RULE_SETS = 16;
+
+// Fields searched by the lookup endpoint, matching the search bar's local parcel search
+const SEARCH_FIELDS: (keyof ParcelTileProperties)[] = [
+  "LV_NUMBER", "PID", "VOL_FOL", "STREET_ADD", "SCHEME_ADD", "FULLADDRES", "LOCATION",
+];
+
+/**
+ * Parcels with precomputed attributes, indexed for tiles and id lookups
+ */
+export interface ParcelStore {
+  features: Feature<ParcelGeometry, ParcelTileProperties>[];
+  byId: Map<number, Feature<ParcelGeometry, ParcelTileProperties>>;
+  summary: ParcelTileSummary;
+  inBBox(bbox: BBox): Feature<ParcelGeometry, ParcelTileProperties>[];  // Every parcel whose bounding box overlaps
+  getTile(z: number, x: number, y: number, rules?: OwnerRule[]): ArrayBuffer | null;  // Encoded MVT, null when empty
+}
+
+/**
+ * Allocation lookups by owner rule set, so each set is classified once rather than per tile
+ */
+function createAllocationCache(ownerLookup: Map<string, Owner>) {
+  const lookups = new Map<string, Map<string, ParcelAllocation>>();
+  return (rules: OwnerRule[]): Map<string, ParcelAllocation> => {
+    const key = JSON.stringify(rules);
+    let lookup = lookups.get(key);
+    if (!lookup) {
+      lookup = createAllocationLookup(ownerLookup, rules);
+      // Maps iterate in insertion order, so the first key is the oldest
+      if (lookups.size >= MAX_CACHED_RULE_SETS) lookups.delete(lookups.keys().next().value!);
+    }
+    lookups.delete(key);
+    lookups.set(key, lookup);
+    return lookup;
+  };
+}
+
+let storePromise: Promise<ParcelStore> | null = null;
+
+async function readJson<T>(fileName: string): Promise<T> {
+  return JSON.parse(await fs.readFile(path.join(DATA_DIR, fileName), "utf8")) as T;
+}
+
+// Same source as the browser: official polygons when enabled, otherwise the mapping file
+async function loadDivisionAssignment(): Promise<DivisionAssignment> {
+  const communities = await readJson<FeatureCollection<Polygon | MultiPolygon>>("nem_communities.json");
+  if (DIVISION_POLYGONS_ENABLED) {
+    return assignDivisionsByOverlay(communities, await readJson("electoral_divisions.geojson"));
+  }
+  const mapping = validateCommunityDivisionMapping(await readJson("community_divisions.json"));
+  return assignDivisionsByMapping(communities, mapping);
+}
+
+function sampleSorted(values: number[]): number[] {
+  const sorted = values.sort((a, b) => a - b);
+  if (sorted.length <= VALUE_SAMPLE_SIZE) return sorted;
+  return Array.from({ length: VALUE_SAMPLE_SIZE }, (_, i) =>
+    sorted[Math.round((i * (sorted.length - 1)) / (VALUE_SAMPLE_SIZE - 1))]
+  );
+}
+
+async function buildParcelStore(): Promise<ParcelStore> {
+  console.time("Parcel tile store");
+
+  const [parcelsData, ownersCsv, assignment] = await Promise.all([
+    readJson<FeatureCollection>("manchester_parcels.geojson").then(withParcelGeometry),
+    fs.readFile(path.join(DATA_DIR, "pts_owners.csv"), "utf8"),
+    loadDivisionAssignment(),
+  ]);
+  const ownerLookup = createOwnerLookup(applyValuePerAcre(await parseOwnersCsv(ownersCsv), parcelsData));
+  const allocationLookupFor = createAllocationCache(ownerLookup);
+  const defaultAllocations = createAllocationLookup(ownerLookup, DEFAULT_OWNER_RULES);
+
+  const communityDivisions = new Map<number, DivisionName>();
+  for (const feature of assignment.divisions.features) {
+    const id = communityId(feature);
+    if (id !== null) communityDivisions.set(id, feature.properties.ELECTORAL_DIVISION);
+  }
+
+  const { parcels: attributes } = preprocessGeometry({
+    parcelGeometries: parcelsData.features.map(f => f.geometry),
+    addressCoordinates: new Float64Array(0),
+    boundary: manchesterNorthEasternBoundary.features[0],
+    communities: assignment.communities,
+  });
+
+  const byId = new Map<number, Feature<ParcelGeometry, ParcelTileProperties>>();
+  const values: Record<ValueMetric, number[]> = { landValue: [], valuePerAcre: [] };
+  let nem = 0;
+  let withOwners = 0;
+  let sizeMin = Infinity;
+  let sizeMax = 0;
+
+  const features = parcelsData.features.map((feature, index) => {
+    const lvNumber = feature.properties?.LV_NUMBER;
+    const owner = lvNumber ? ownerLookup.get(lvNumber) : undefined;
+    const community = attributes.communityIds[index];
+    const properties: ParcelTileProperties = {
+      ...feature.properties,
+      _isInNem: attributes.inBoundary[index] === 1,
+      _hasOwner: !!owner,
+      _allocation: getParcelAllocation(lvNumber, defaultAllocations),
+    };
+
+    // Tiles cannot encode nulls, so only set the optional attributes that exist
+    if (community !== NO_COMMUNITY) {
+      properties._community = community;
+      const division = communityDivisions.get(community);
+      if (division) properties._division = division;
+    }
+    if (owner?.landValueAmount) {
+      properties._landValue = owner.landValueAmount;
+      values.landValue.push(owner.landValueAmount);
+    }
+    const geodesicArea = attributes.geodesicAreas[index];
+    if (!isNaN(geodesicArea)) {
+      properties._geodesicArea = geodesicArea;
+      const discrepancy = sizeDiscrepancyPercent(properties.SIZE_SQMT, geodesicArea);
+      if (discrepancy !== null) properties._sizeDiscrepancy = discrepancy;
+    }
+    if (owner?.valuePerAcre) {
+      properties._valuePerAcre = owner.valuePerAcre;
+      values.valuePerAcre.push(owner.valuePerAcre);
+    }
+
+    if (properties._isInNem) nem++;
+    if (properties._hasOwner) withOwners++;
+    const size = properties.SIZE_SQMT;
+    if (size && !isNaN(size) && size > 0) {
+      sizeMin = Math.min(sizeMin, size);
+      sizeMax = Math.max(sizeMax, size);
+    }
+
+    const result: Feature<ParcelGeometry, ParcelTileProperties> = { ...feature, properties };
+    byId.set(properties.OBJECTID, result);
+    return result;
+  });
+
+  const tileIndex = geojsonvt(
+    { type: "FeatureCollection", features },
+    { maxZoom: PARCEL_TILE_MAX_ZOOM, indexMaxZoom: 5, extent: TILE_EXTENT, buffer: 64, tolerance: 3 }
+  );
+
+  const bboxIndex = createBBoxIndex(features.map(f => geometryBBox(f.geometry)), BBOX_INDEX_CELLS);
+
+  console.timeEnd("Parcel tile store");
+
+  return {
+    features,
+    byId,
+    summary: {
+      total: features.length,
+      nem,
+      withOwners,
+      sizeMin: sizeMin === Infinity ? 0 : sizeMin,
+      sizeMax,
+      valueSamples: {
+        landValue: sampleSorted(values.landValue),
+        valuePerAcre: sampleSorted(values.valuePerAcre),
+      },
+    },
+    inBBox(bbox) {
+      return bboxIndex.searchBox(bbox).map(i => features[i]);
+    },
+    getTile(z, x, y, rules = DEFAULT_OWNER_RULES) {
+      const tile = tileIndex.getTile(z, x, y);
+      if (!tile || tile.features.length === 0) return null;
+
+      // The index holds the built-in allocations; other rule sets are applied per request
+      let layer = tile;
+      if (rules !== DEFAULT_OWNER_RULES) {
+        const allocations = allocationLookupFor(rules);
+        layer = {
+          ...tile,
+          features: tile.features.map(feature => ({
+            ...feature,
+            tags: { ...feature.tags, _allocation: getParcelAllocation(feature.tags?.LV_NUMBER as string | undefined, allocations) },
+          })),
+        };
+      }
+      const encoded = fromGeojsonVt({ [PARCEL_TILE_LAYER]: layer }, { version: 2, extent: TILE_EXTENT });
+      return encoded.buffer.slice(encoded.byteOffset, encoded.byteOffset + encoded.byteLength) as ArrayBuffer;
+    },
+  };
+}
+
+/**
+ * Builds the parcel store on first use and reuses it for the life of the server process
+ */
+export function getParcelStore(): Promise<ParcelStore> {
+  if (!storePromise) {
+    storePromise = buildParcelStore();
+    // Let the next request retry if the data files were missing or malformed
+    storePromise.catch(() => {
+      storePromise = null;
+    });
+  }
+  return storePromise;
+}
+
+/**
+ * Case-insensitive substring search over the parcel address and reference fields
+ */
+export function searchParcelStore(
+  store: ParcelStore,
+  query: string,
+  limit: number
+): Feature<ParcelGeometry, ParcelTileProperties>[] {
+  const q = query.toLowerCase().trim();
+  if (q.length < 2) return [];
+
+  const matches: Feature<ParcelGeometry, ParcelTileProperties>[] = [];
+  for (const feature of store.features) {
+    if (matches.length >= limit) break;
+    const hit = SEARCH_FIELDS.some(field => {
+      const value = feature.properties[field];
+      return typeof value === "string" && value.toLowerCase().includes(q);
+    });
+    if (hit) matches.push(feature);
+  }
+  return matches;
+}
@@ -0,0 +1,23 @@
+import type { ParcelAllocation } from "../data/allocation";
+
+/**
+ * How an owner classification rule is matched
+ * - exact: normalized owner name equals the pattern
+ * - prefix: normalized owner name starts with the pattern
+ * - regex: case-insensitive regular expression tested against the normalized owner name
+ * - lvList: valuation (LV) number is in a comma/newline-separated list
+ */
+export type OwnerRuleMatchType = "exact" | "prefix" | "regex" | "lvList";
+
+/**
+ * A user-editable rule assigning matching owners to an allocation category.
+ * Rules are evaluated in list order; the first enabled match wins.
+ */
+export interface OwnerRule {
+  id: string;                     // UUID
+  label: string;                  // User-defined description
+  matchType: OwnerRuleMatchType;
+  pattern: string;                // Name, prefix, regex source, or LV number list
+  allocation: ParcelAllocation;   // Category applied on match
+  enabled: boolean;
+}
@@ -0,0 +1,69 @@
+/**
+ * Fields a query condition can test: the parcel's own attributes, then the owner
+ * roll and address records linked to it by LV number
+ */
+export type ParcelQueryField =
+  | "pid"
+  | "lvNumber"
+  | "volFolio"
+  | "sizeSqmt"
+  | "acres"
+  | "streetAddress"
+  | "schemeAddress"
+  | "fullAddress"
+  | "location"
+  | "parish"
+  | "division"
+  | "ownerName"
+  | "landValue"
+  | "valuePerAcre"
+  | "addressFull"
+  | "addressLocation"
+  | "addressParish"
+  | "titleReference";
+
+/**
+ * How a condition compares the field
+ * - equals: case-insensitive text match, or numeric equality
+ * - contains: case-insensitive substring
+ * - regex: case-insensitive regular expression
+ * - range: number between value and max, inclusive; either bound may be left blank
+ * - empty / notEmpty: the field (or its linked record) is missing or blank
+ */
+export type ParcelQueryOperator = "equals" | "contains" | "regex" | "range" | "empty" | "notEmpty";
+
+export type ParcelQueryJoin = "and" | "or";
+
+export interface ParcelQueryCondition {
+  id: string;
+  field: ParcelQueryField;
+  operator: ParcelQueryOperator;
+  value: string;   // Text, pattern, number, or the lower bound of a range
+  max: string;     // Upper bound of a range
+}
+
+/**
+ * Conditions joined by one operator. Groups are joined by the query's operator,
+ * so (A AND B) OR C is two groups.
+ */
+export interface ParcelQueryGroup {
+  id: string;
+  join: ParcelQueryJoin;
+  conditions: ParcelQueryCondition[];
+}
+
+export interface ParcelQuery {
+  join: ParcelQueryJoin;
+  groups: ParcelQueryGroup[];
+}
+
+/**
+ * A named query saved for reuse
+ */
+export interface ParcelQueryPreset {
+  id: string;              // UUID
+  name: string;
+  query: ParcelQuery;
+  createdAt: number;       // timestamp (Date.now())
+  updatedAt: number;       // timestamp (Date.now())
+}
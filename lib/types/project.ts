@@ -1,3 +1,15 @@
+import type { Position } from "geojson";
+
+/**
+ * A measured shape saved on a project
+ */
+export interface ProjectAnnotation {
+  id: string;
+  kind: "distance" | "area";
+  coordinates: Position[]; // Open path for distance, closed ring for area
+  createdAt: number;       // timestamp (Date.now())
+}
+
 /**
  * Represents a saved multi-parcel project
  * Stores only parcel OBJECTID references, not data snapshots
@@ -6,6 +18,7 @@ export interface SavedProject {
   id: string;              // UUID
   name: string;            // User-defined name
   parcelIds: number[];     // OBJECTID references in project order
+  annotations?: ProjectAnnotation[]; // Measurements; absent on projects saved before annotations
   createdAt: number;       // timestamp (Date.now())
   updatedAt: number;       // timestamp (Date.now())
 }
@@ -0,0 +1,11 @@
+declare module "vt-pbf" {
+  import type geojsonvt from "geojson-vt";
+
+  /**
+   * Serializes geojson-vt tiles (one per named layer) to a Mapbox Vector Tile buffer
+   */
+  export function fromGeojsonVt(
+    layers: Record<string, geojsonvt.Tile>,
+    options?: { version?: number; extent?: number }
+  ): Uint8Array;
+}
@@ -0,0 +1,7 @@
+/**
+ * Generate a UUID for locally persisted records (projects, rules, presets)
+ */
+export function generateId(): string {
+  return crypto.randomUUID?.() || 
+    `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
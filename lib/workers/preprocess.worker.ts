@@ -0,0 +1,46 @@
+import { preprocessGeometry, type PreprocessInput, type PreprocessResult } from "../geo/preprocess";
+import { checkTopology, type TopologyInput, type TopologyReport } from "../data/topology";
+
+/**
+ * Jobs posted from the main thread
+ */
+export type PreprocessWorkerRequest =
+  | { type: "preprocess"; input: PreprocessInput }
+  | { type: "topology"; input: TopologyInput };
+
+/**
+ * Messages posted back to the main thread
+ */
+export type PreprocessWorkerMessage =
+  | { type: "progress"; done: number; total: number }
+  | { type: "result"; result: PreprocessResult }
+  | { type: "topology"; report: TopologyReport }
+  | { type: "error"; message: string };
+
+function post(message: PreprocessWorkerMessage, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+const reportProgress = (done: number, total: number) => post({ type: "progress", done, total });
+
+self.onmessage = (event: MessageEvent<PreprocessWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === "topology") {
+      post({ type: "topology", report: checkTopology(request.input, reportProgress) });
+      return;
+    }
+
+    const result = preprocessGeometry(request.input, reportProgress);
+    // Hand the typed array buffers over rather than copying them
+    post({ type: "result", result }, [
+      result.parcels.centers.buffer,
+      result.parcels.inBoundary.buffer,
+      result.parcels.communityIds.buffer,
+      result.parcels.geodesicAreas.buffer,
+      result.addressCommunityIds.buffer,
+    ]);
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
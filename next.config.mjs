@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   transpilePackages: ['mapbox-gl'],
+  experimental: {
+    // Loaded from node_modules at runtime so it finds its WebAssembly file
+    serverComponentsExternalPackages: ['sql.js'],
+  },
 };
 
 export default nextConfig;